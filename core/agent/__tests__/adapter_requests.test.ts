@@ -0,0 +1,136 @@
+import fs from "fs";
+import path from "path";
+import { AnthropicAgent } from "../anthropic_agent";
+import { BaseAgent, ChatMessage, ModelConfig } from "../base_agent";
+import { BedrockAgent } from "../bedrock_agent";
+import { Claude3Agent } from "../claude3_agent";
+import { CohereAgent } from "../cohere_agent";
+import { GeminiAgent } from "../gemini_agent";
+import { PalmAgent } from "../palm_agent";
+
+interface Fixture {
+  description: string;
+  input: ChatMessage[];
+  /** The conversation fields of the request the adapter sends */
+  expected: Record<string, unknown>;
+}
+
+const CONFIG: ModelConfig = {
+  modelName: "test-model",
+  temperature: 0,
+  maxTokens: 64,
+  apiKey: "test-key",
+};
+
+// Swaps the adapter's SDK client for a stub that answers "ok"
+function withClient<T extends BaseAgent>(agent: T, client: unknown): T {
+  return Object.assign(agent, { client });
+}
+
+/**
+ * Sends the conversation through each adapter with its SDK client stubbed
+ * out, and returns the conversation part of the request it built.
+ */
+const ADAPTERS: Record<
+  string,
+  (messages: ChatMessage[]) => Promise<Record<string, unknown>>
+> = {
+  async anthropic(messages) {
+    return anthropicRequest(new AnthropicAgent(CONFIG), messages);
+  },
+  async claude3(messages) {
+    return anthropicRequest(new Claude3Agent(CONFIG), messages);
+  },
+  async bedrock(messages) {
+    let sent: Record<string, unknown> = {};
+    const agent = withClient(new BedrockAgent(CONFIG), {
+      send: async (command: { input: Record<string, unknown> }) => {
+        sent = command.input;
+        return { output: { message: { content: [{ text: "ok" }] } } };
+      },
+    });
+    await agent.chat(messages);
+    return { system: sent.system, messages: sent.messages };
+  },
+  async gemini(messages) {
+    let model: Record<string, unknown> = {};
+    let sent: Record<string, unknown> = {};
+    const agent = withClient(new GeminiAgent(CONFIG), {
+      getGenerativeModel: (params: Record<string, unknown>) => {
+        model = params;
+        return {
+          generateContent: async (request: Record<string, unknown>) => {
+            sent = request;
+            return { response: { text: () => "ok" } };
+          },
+        };
+      },
+    });
+    await agent.chat(messages);
+    return {
+      systemInstruction: model.systemInstruction,
+      contents: sent.contents,
+    };
+  },
+  async cohere(messages) {
+    let sent: Record<string, unknown> = {};
+    const agent = withClient(new CohereAgent(CONFIG), {
+      chat: async (request: Record<string, unknown>) => {
+        sent = request;
+        return { text: "ok" };
+      },
+    });
+    await agent.chat(messages);
+    return {
+      preamble: sent.preamble,
+      chatHistory: sent.chatHistory,
+      message: sent.message,
+    };
+  },
+  async palm(messages) {
+    let sent: { prompt?: unknown } = {};
+    // PaLM takes service account credentials as its key
+    const agent = withClient(new PalmAgent({ ...CONFIG, apiKey: "{}" }), {
+      generateMessage: (request: { prompt: unknown }) => {
+        sent = request;
+        return Promise.resolve([{ candidates: [{ content: "ok" }] }]);
+      },
+    });
+    await agent.chat(messages);
+    return { prompt: sent.prompt };
+  },
+};
+
+async function anthropicRequest(
+  agent: BaseAgent,
+  messages: ChatMessage[],
+): Promise<Record<string, unknown>> {
+  let sent: Record<string, unknown> = {};
+  withClient(agent, {
+    messages: {
+      create: async (request: Record<string, unknown>) => {
+        sent = request;
+        return {
+          content: [{ type: "text", text: "ok" }],
+          usage: { input_tokens: 1, output_tokens: 1 },
+        };
+      },
+    },
+  });
+  await agent.chat(messages);
+  return { system: sent.system, messages: sent.messages };
+}
+
+const FIXTURE_DIR = path.join(__dirname, "fixtures", "adapter_requests");
+
+describe.each(Object.entries(ADAPTERS))("%s request", (provider, send) => {
+  const fixture: Fixture = JSON.parse(
+    fs.readFileSync(path.join(FIXTURE_DIR, `${provider}.json`), "utf8"),
+  );
+
+  it(fixture.description, async () => {
+    // JSON round trip drops the fields the adapter left undefined
+    const request = JSON.parse(JSON.stringify(await send(fixture.input)));
+    expect(request).toEqual(fixture.expected);
+  });
+});
@@ -0,0 +1,36 @@
+import { JsonSchema, validateJsonSchema } from "../json_schema";
+
+describe("validateJsonSchema", () => {
+  const schema: JsonSchema = {
+    type: "object",
+    properties: { name: { type: "string" } },
+    required: ["name", "toString"],
+    additionalProperties: false,
+  };
+
+  it("accepts an object that has its own required keys", () => {
+    expect(
+      validateJsonSchema(
+        { name: "Mira", toString: "x" },
+        {
+          required: ["name", "toString"],
+        },
+      ),
+    ).toEqual([]);
+  });
+
+  it("does not find required keys on Object.prototype", () => {
+    expect(validateJsonSchema({ name: "Mira" }, schema)).toEqual([
+      "$.toString: is required",
+    ]);
+  });
+
+  it("does not take Object.prototype members for property schemas", () => {
+    expect(
+      validateJsonSchema(
+        { name: "Mira", toString: "x", constructor: 1 },
+        schema,
+      ),
+    ).toEqual(["$.toString: is not allowed", "$.constructor: is not allowed"]);
+  });
+});
@@ -0,0 +1,112 @@
+import { ChatMessage, ModelConfig } from "../base_agent";
+import { LettaAgent } from "../letta_agent";
+import { LettaStubServer } from "../letta_stub_server";
+import { UsageRecord } from "../usage";
+
+const CONFIG: ModelConfig = {
+  modelName: "letta/letta-free",
+  temperature: 0,
+  maxTokens: 256,
+  apiKey: "",
+};
+
+describe("LettaAgent against LettaStubServer", () => {
+  let server: LettaStubServer;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    server = new LettaStubServer();
+    baseUrl = await server.listen();
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  function agentFor(
+    agentName: string,
+    options: { human?: string; onUsage?: (record: UsageRecord) => void } = {},
+  ): LettaAgent {
+    return new LettaAgent(
+      { ...CONFIG, baseUrl, onUsage: options.onUsage },
+      { agentName, human: options.human },
+    );
+  }
+
+  const conversation: ChatMessage[] = [
+    { role: "system", content: "You are Grok, a grumpy troll." },
+    { role: "user", content: "Can I cross the bridge?" },
+  ];
+
+  it("creates the server agent and writes the system prompt as its persona", async () => {
+    const agent = agentFor("grok");
+
+    const reply = await agent.chat(conversation);
+
+    expect(reply).toContain("Can I cross the bridge?");
+    expect(server.block("grok", "persona")).toBe(
+      "You are Grok, a grumpy troll.",
+    );
+    expect(server.block("grok", "human")).toBe(
+      "Nothing is known about them yet.",
+    );
+  });
+
+  it("attaches to an existing agent by name instead of creating another", async () => {
+    const first = agentFor("grok");
+    const second = agentFor("grok");
+
+    const id = await first.resolveAgentId();
+
+    expect(await second.resolveAgentId()).toBe(id);
+  });
+
+  it("syncs a changed persona and a given human block before sending", async () => {
+    const agent = agentFor("grok", { human: "A travelling bard." });
+    await agent.chat(conversation);
+
+    await agent.chat([
+      { role: "system", content: "You are Grok, a cheerful troll." },
+      { role: "user", content: "Hello again" },
+    ]);
+
+    expect(server.block("grok", "persona")).toBe(
+      "You are Grok, a cheerful troll.",
+    );
+    expect(server.block("grok", "human")).toBe("A travelling bard.");
+  });
+
+  it("streams the same reply it would have returned", async () => {
+    const usage: UsageRecord[] = [];
+    const agent = agentFor("grok", { onUsage: (record) => usage.push(record) });
+
+    let streamed = "";
+    for await (const chunk of agent.stream(conversation)) {
+      streamed += chunk;
+    }
+
+    expect(streamed).toBe(await agentFor("grok").chat(conversation));
+    expect(usage[0]).toMatchObject({ provider: "letta", estimated: false });
+    expect(usage[0].inputTokens).toBeGreaterThan(0);
+  });
+
+  it("refuses a call with no new message to reply to", async () => {
+    const agent = agentFor("grok");
+
+    await expect(
+      agent.chat([...conversation, { role: "assistant", content: "Pay." }]),
+    ).rejects.toThrow("needs a new message");
+  });
+
+  it("answers unknown agents and empty messages like the Letta API", async () => {
+    const missing = await fetch(`${baseUrl}/v1/agents/agent-missing`);
+    expect(missing.status).toBe(404);
+
+    const id = await agentFor("grok").resolveAgentId();
+    const empty = await fetch(`${baseUrl}/v1/agents/${id}/messages`, {
+      method: "POST",
+      body: JSON.stringify({ messages: [] }),
+    });
+    expect(empty.status).toBe(422);
+  });
+});
@@ -0,0 +1,94 @@
+import fs from "fs";
+import path from "path";
+import { ChatMessage } from "../base_agent";
+import {
+  ANTHROPIC_MESSAGE_RULES,
+  BEDROCK_MESSAGE_RULES,
+  COHERE_MESSAGE_RULES,
+  GEMINI_MESSAGE_RULES,
+  groupTurns,
+  MessageFormatRules,
+  MISTRAL_MESSAGE_RULES,
+  normalizeMessages,
+  OLLAMA_MESSAGE_RULES,
+  OPENAI_MESSAGE_RULES,
+  PALM_MESSAGE_RULES,
+  turnSide,
+} from "../message_format";
+
+interface Fixture {
+  description: string;
+  input: ChatMessage[];
+  expected: Record<
+    string,
+    { system: string; messages: ChatMessage[]; turns: string[][] }
+  >;
+}
+
+const PROVIDERS: Record<string, MessageFormatRules> = {
+  openai: OPENAI_MESSAGE_RULES,
+  anthropic: ANTHROPIC_MESSAGE_RULES,
+  gemini: GEMINI_MESSAGE_RULES,
+  mistral: MISTRAL_MESSAGE_RULES,
+  ollama: OLLAMA_MESSAGE_RULES,
+  cohere: COHERE_MESSAGE_RULES,
+  bedrock: BEDROCK_MESSAGE_RULES,
+  palm: PALM_MESSAGE_RULES,
+};
+
+const FIXTURE_DIR = path.join(__dirname, "fixtures", "message_format");
+
+const fixtures = fs
+  .readdirSync(FIXTURE_DIR)
+  .filter((file) => file.endsWith(".json"))
+  .map((file): [string, Fixture] => [
+    path.basename(file, ".json"),
+    JSON.parse(fs.readFileSync(path.join(FIXTURE_DIR, file), "utf8")),
+  ]);
+
+describe.each(fixtures)("%s", (_name, fixture) => {
+  it("covers every provider", () => {
+    expect(Object.keys(fixture.expected).sort()).toEqual(
+      Object.keys(PROVIDERS).sort(),
+    );
+  });
+
+  describe.each(Object.entries(PROVIDERS))("%s", (provider, rules) => {
+    const expected = fixture.expected[provider];
+
+    it("normalizes the conversation", () => {
+      const normalized = normalizeMessages(fixture.input, rules);
+      expect(normalized.system).toBe(expected.system);
+      expect(normalized.messages).toEqual(expected.messages);
+    });
+
+    it("groups provider turns", () => {
+      const { messages } = normalizeMessages(fixture.input, rules);
+      expect(
+        groupTurns(messages).map((turn) => turn.map((msg) => msg.role)),
+      ).toEqual(expected.turns);
+    });
+
+    it("satisfies the provider's role rules", () => {
+      const { messages } = normalizeMessages(fixture.input, rules);
+      const sides = groupTurns(messages).map((turn) => turnSide(turn[0]));
+      if (rules.system !== "inline") {
+        expect(
+          messages.filter((msg) => msg.role === "system").length,
+        ).toBeLessThanOrEqual(rules.system === "leading" ? 1 : 0);
+      }
+      if (rules.firstRole === "user") {
+        expect(sides[0]).toBe("user");
+      }
+      if (rules.alternate) {
+        sides.slice(1).forEach((side, i) => expect(side).not.toBe(sides[i]));
+      }
+    });
+
+    it("does not modify the caller's messages", () => {
+      const input = JSON.parse(JSON.stringify(fixture.input));
+      normalizeMessages(input, rules);
+      expect(input).toEqual(fixture.input);
+    });
+  });
+});
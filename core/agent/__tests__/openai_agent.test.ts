@@ -0,0 +1,28 @@
+import { ModelConfig } from "../base_agent";
+import { OpenAIAgent } from "../openai_agent";
+import { OpenAICompatibleAgent } from "../openai_compatible_agent";
+
+const CONFIG: ModelConfig = {
+  modelName: "test-model",
+  temperature: 0,
+  maxTokens: 16,
+  apiKey: "test-key",
+  baseUrl: "http://127.0.0.1:1/v1",
+};
+
+describe("OpenAIAgent capabilities", () => {
+  it("offers JSON mode and tools by default", () => {
+    const agent = new OpenAIAgent(CONFIG);
+
+    expect(agent.chatJson).toBeInstanceOf(Function);
+    expect(agent.chatWithTools).toBeInstanceOf(Function);
+  });
+
+  it("leaves out the methods a server does not support", () => {
+    const agent = new OpenAICompatibleAgent(CONFIG, "local", { tools: false });
+
+    expect(agent.chatJson).toBeUndefined();
+    expect(agent.chatWithTools).toBeUndefined();
+    expect(agent.streamEvents).toBeInstanceOf(Function);
+  });
+});
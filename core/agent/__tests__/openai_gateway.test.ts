@@ -0,0 +1,43 @@
+import { AgentFactory } from "../agent_factory";
+import { OpenAIGateway } from "../openai_gateway";
+
+describe("OpenAIGateway quota", () => {
+  let gateway: OpenAIGateway;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    gateway = new OpenAIGateway({
+      models: [{ alias: "npc", agent: { provider: "mock", model: "mock" } }],
+      keys: [{ key: "sk-test", quota: { requestsPerMinute: 1 } }],
+      port: 0,
+    });
+    const { host, port } = await gateway.listen();
+    baseUrl = `http://${host}:${port}`;
+  });
+
+  afterEach(async () => {
+    await gateway.close();
+    jest.restoreAllMocks();
+  });
+
+  function complete(temperature: number): Promise<Response> {
+    return fetch(`${baseUrl}/v1/chat/completions`, {
+      method: "POST",
+      headers: { Authorization: "Bearer sk-test" },
+      body: JSON.stringify({
+        model: "npc",
+        temperature,
+        messages: [{ role: "user", content: "Hello" }],
+      }),
+    });
+  }
+
+  it("turns a key over quota away before building an agent", async () => {
+    const fromConfig = jest.spyOn(AgentFactory, "fromConfig");
+
+    expect((await complete(0)).status).toBe(200);
+    // A new temperature would need a new agent
+    expect((await complete(1)).status).toBe(429);
+    expect(fromConfig).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,52 @@
+import { AgentCancelledError, AgentTimeoutError } from "../errors";
+import { PalmAgent } from "../palm_agent";
+
+// A gax call that never answers, recording whether it was cancelled
+function hangingClient() {
+  const cancel = jest.fn();
+  const client = {
+    generateMessage: () => Object.assign(new Promise(() => {}), { cancel }),
+  };
+  return { client, cancel };
+}
+
+function palmAgent(client: unknown): PalmAgent {
+  // PaLM takes service account credentials as its key
+  const agent = new PalmAgent({
+    modelName: "chat-bison",
+    temperature: 0,
+    maxTokens: 16,
+    apiKey: "{}",
+  });
+  return Object.assign(agent, { client });
+}
+
+describe("PalmAgent cancellation", () => {
+  const messages = [{ role: "user" as const, content: "Hello" }];
+
+  it("cancels the gRPC call when it times out", async () => {
+    const { client, cancel } = hangingClient();
+
+    await expect(
+      palmAgent(client).chat(messages, { timeoutMs: 10 }),
+    ).rejects.toBeInstanceOf(AgentTimeoutError);
+    expect(cancel).toHaveBeenCalledTimes(1);
+  });
+
+  it("cancels the gRPC call when the caller aborts a stream", async () => {
+    const { client, cancel } = hangingClient();
+    const controller = new AbortController();
+    const events = palmAgent(client).streamEvents(messages, {
+      signal: controller.signal,
+    });
+
+    const next = events.next();
+    controller.abort();
+
+    expect((await next).value).toEqual({
+      type: "error",
+      error: expect.any(AgentCancelledError),
+    });
+    expect(cancel).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,53 @@
+import { BaseAgent, ModelConfig } from "../base_agent";
+import { CircuitBreaker, ResilientAgent } from "../resilient_agent";
+
+const CONFIG: ModelConfig = {
+  modelName: "test-model",
+  temperature: 0,
+  maxTokens: 16,
+  apiKey: "",
+};
+
+// Fails its first chat with a 503, then answers; streams two chunks
+function flakyAgent(): BaseAgent {
+  let calls = 0;
+  return {
+    provider: "flaky",
+    ...CONFIG,
+    async chat() {
+      if (calls++ === 0) {
+        throw Object.assign(new Error("unavailable"), { status: 503 });
+      }
+      return "hello";
+    },
+    async *stream() {
+      yield "hel";
+      yield "lo";
+    },
+    getModelConfig: () => CONFIG,
+  };
+}
+
+describe("ResilientAgent.stream", () => {
+  it("closes a half-open circuit when the consumer stops reading early", async () => {
+    const agent = flakyAgent();
+    const breakers = new WeakMap<BaseAgent, CircuitBreaker>();
+    const resilient = new ResilientAgent(agent, {
+      breakers,
+      failureThreshold: 1,
+      resetTimeoutMs: 0,
+      maxRetries: 0,
+      sleep: async () => {},
+    });
+    await expect(resilient.chat([])).rejects.toThrow("All agents failed");
+    expect(resilient.getBreaker(agent).state).toBe("half-open");
+
+    for await (const chunk of resilient.stream([])) {
+      expect(chunk).toBe("hel");
+      break;
+    }
+
+    expect(resilient.getBreaker(agent).state).toBe("closed");
+    await expect(resilient.chat([])).resolves.toBe("hello");
+  });
+});
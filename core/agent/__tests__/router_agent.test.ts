@@ -0,0 +1,47 @@
+import { ModelConfig } from "../base_agent";
+import { MockAgent } from "../mock_agent";
+import { RouterAgent, RouteTarget } from "../router_agent";
+
+const CONFIG: ModelConfig = {
+  modelName: "mock",
+  temperature: 0,
+  maxTokens: 16,
+  apiKey: "",
+};
+
+function route(name: string, costPer1kTokens?: number): RouteTarget {
+  return {
+    name,
+    agent: new MockAgent(CONFIG, { fallback: name }),
+    costPer1kTokens,
+  };
+}
+
+describe("RouterAgent cost ceiling", () => {
+  const messages = [{ role: "user" as const, content: "Hello" }];
+
+  it("skips routes without a price", async () => {
+    const router = new RouterAgent([route("unknown"), route("cheap", 0.001)], {
+      costCeilingPer1kTokens: 0.01,
+    });
+
+    await expect(router.chat(messages)).resolves.toBe("cheap");
+  });
+
+  it("refuses to route when only unpriced routes are left", async () => {
+    const router = new RouterAgent([route("unknown"), route("pricey", 1)]);
+
+    await expect(
+      router.chat(messages, { maxCostPer1kTokens: 0.01 }),
+    ).rejects.toThrow("No route satisfies the cost rule");
+  });
+
+  it("lets unpriced routes through when allowed", async () => {
+    const router = new RouterAgent([route("unknown"), route("cheap", 0.001)], {
+      costCeilingPer1kTokens: 0.01,
+      allowUnpriced: true,
+    });
+
+    await expect(router.chat(messages)).resolves.toBe("unknown");
+  });
+});
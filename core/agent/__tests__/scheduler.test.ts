@@ -0,0 +1,55 @@
+import { BaseAgent, ChatOptions, ModelConfig } from "../base_agent";
+import { AgentTimeoutError } from "../errors";
+import { RequestScheduler, ScheduledAgent } from "../scheduler";
+
+const CONFIG: ModelConfig = {
+  modelName: "test-model",
+  temperature: 0,
+  maxTokens: 16,
+  apiKey: "",
+};
+
+// Answers after `delayMs`, remembering the options each call was given
+function slowAgent(delayMs: number, calls: Array<ChatOptions | undefined>) {
+  const agent: BaseAgent = {
+    ...CONFIG,
+    async chat(_messages, options) {
+      calls.push(options);
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+      return "done";
+    },
+    async *stream() {},
+    getModelConfig: () => CONFIG,
+  };
+  return agent;
+}
+
+describe("ScheduledAgent", () => {
+  function scheduled(agent: BaseAgent): ScheduledAgent {
+    const scheduler = new RequestScheduler();
+    scheduler.setLimits("slow", { maxConcurrency: 1 });
+    return new ScheduledAgent(agent, { provider: "slow", scheduler });
+  }
+
+  it("times out a call that waits too long for a slot", async () => {
+    const calls: Array<ChatOptions | undefined> = [];
+    const agent = scheduled(slowAgent(100, calls));
+
+    const first = agent.chat([]);
+    const second = agent.chat([], { timeoutMs: 20 });
+
+    await expect(second).rejects.toBeInstanceOf(AgentTimeoutError);
+    await expect(first).resolves.toBe("done");
+    expect(calls).toHaveLength(1);
+  });
+
+  it("gives the provider only the time left after queueing", async () => {
+    const calls: Array<ChatOptions | undefined> = [];
+    const agent = scheduled(slowAgent(50, calls));
+
+    await Promise.all([agent.chat([]), agent.chat([], { timeoutMs: 1000 })]);
+
+    expect(calls[1]?.timeoutMs).toBeLessThanOrEqual(960);
+    expect(calls[1]?.timeoutMs).toBeGreaterThan(0);
+  });
+});
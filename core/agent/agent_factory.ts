@@ -8,9 +8,20 @@ import { BedrockAgent } from "./bedrock_agent";
 import { CohereAgent } from "./cohere_agent";
 import { Claude3Agent } from "./claude3_agent";
 import { PalmAgent } from "./palm_agent";
+import { LettaAgent } from "./letta_agent";
+import { MockAgent } from "./mock_agent";
+import { openAICompatibleProvider } from "./openai_compatible_agent";
+import {
+  AgentConfig,
+  ProviderDefinition,
+  providerRegistry,
+} from "./provider_registry";
+import { ScheduledAgent, ScheduledAgentOptions } from "./scheduler";
+import { UsageListener } from "./usage";
 
 export type AgentType =
   | "openai"
+  | "openai-compatible"
   | "anthropic"
   | "gemini"
   | "mistral"
@@ -18,31 +29,186 @@ export type AgentType =
   | "bedrock"
   | "cohere"
   | "claude3"
-  | "palm";
+  | "palm"
+  | "letta"
+  | "mock";
 
+const BUILTIN_PROVIDERS: ProviderDefinition[] = [
+  {
+    name: "openai",
+    capabilities: {
+      streaming: true,
+      tools: true,
+      vision: true,
+      jsonMode: true,
+      streamUsage: true,
+    },
+    requiresApiKey: true,
+    apiKeyEnv: "OPENAI_API_KEY",
+    create: (config) => new OpenAIAgent(config),
+  },
+  openAICompatibleProvider("openai-compatible"),
+  {
+    name: "anthropic",
+    capabilities: {
+      streaming: true,
+      tools: true,
+      vision: true,
+      jsonMode: false,
+    },
+    requiresApiKey: true,
+    apiKeyEnv: "ANTHROPIC_API_KEY",
+    create: (config) => new AnthropicAgent(config),
+  },
+  {
+    name: "gemini",
+    capabilities: {
+      streaming: true,
+      tools: true,
+      vision: true,
+      jsonMode: true,
+    },
+    requiresApiKey: true,
+    apiKeyEnv: "GEMINI_API_KEY",
+    create: (config) => new GeminiAgent(config),
+  },
+  {
+    name: "mistral",
+    capabilities: {
+      streaming: true,
+      tools: true,
+      vision: false,
+      jsonMode: false,
+    },
+    requiresApiKey: true,
+    apiKeyEnv: "MISTRAL_API_KEY",
+    create: (config) => new MistralAgent(config),
+  },
+  {
+    name: "ollama",
+    capabilities: {
+      streaming: true,
+      tools: true,
+      vision: true,
+      jsonMode: true,
+    },
+    create: (config) => new OllamaAgent(config),
+  },
+  {
+    // Credentials come from the AWS SDK's own provider chain
+    name: "bedrock",
+    capabilities: {
+      streaming: true,
+      tools: true,
+      vision: true,
+      jsonMode: false,
+    },
+    create: (config) => new BedrockAgent(config),
+  },
+  {
+    name: "cohere",
+    capabilities: {
+      streaming: true,
+      tools: true,
+      vision: false,
+      jsonMode: false,
+    },
+    requiresApiKey: true,
+    apiKeyEnv: "COHERE_API_KEY",
+    create: (config) => new CohereAgent(config),
+  },
+  {
+    name: "claude3",
+    capabilities: {
+      streaming: true,
+      tools: true,
+      vision: true,
+      jsonMode: false,
+    },
+    requiresApiKey: true,
+    apiKeyEnv: "ANTHROPIC_API_KEY",
+    create: (config) => new Claude3Agent(config),
+  },
+  {
+    // The key is the service account JSON
+    name: "palm",
+    capabilities: {
+      streaming: true,
+      tools: false,
+      vision: false,
+      jsonMode: false,
+    },
+    requiresApiKey: true,
+    create: (config) => new PalmAgent(config),
+  },
+  {
+    // Self-hosted servers need no key; a key without a baseUrl means cloud
+    name: "letta",
+    capabilities: {
+      streaming: true,
+      tools: false,
+      vision: false,
+      jsonMode: false,
+    },
+    apiKeyEnv: "LETTA_API_KEY",
+    create: (config) => new LettaAgent(config),
+  },
+  {
+    name: "mock",
+    capabilities: {
+      streaming: true,
+      tools: true,
+      vision: true,
+      jsonMode: true,
+    },
+    create: (config) => new MockAgent(config),
+  },
+];
+
+for (const provider of BUILTIN_PROVIDERS) {
+  providerRegistry.register(provider);
+}
+
+export type ScheduleOptions = Omit<
+  ScheduledAgentOptions,
+  "provider" | "apiKey"
+>;
+
+/**
+ * Agents built here share a RequestScheduler, the process-wide one unless
+ * `schedule.scheduler` says otherwise, so limits set on it apply to them.
+ */
 export class AgentFactory {
-  static createAgent(type: AgentType, config: ModelConfig): BaseAgent {
-    switch (type) {
-      case "openai":
-        return new OpenAIAgent(config);
-      case "anthropic":
-        return new AnthropicAgent(config);
-      case "gemini":
-        return new GeminiAgent(config);
-      case "mistral":
-        return new MistralAgent(config);
-      case "ollama":
-        return new OllamaAgent(config);
-      case "bedrock":
-        return new BedrockAgent(config);
-      case "cohere":
-        return new CohereAgent(config);
-      case "claude3":
-        return new Claude3Agent(config);
-      case "palm":
-        return new PalmAgent(config);
-      default:
-        throw new Error(`Unknown agent type: ${type}`);
-    }
+  static createAgent(
+    type: AgentType | string,
+    config: ModelConfig,
+    schedule: ScheduleOptions = {},
+  ): BaseAgent {
+    const definition = providerRegistry.get(type);
+    return new ScheduledAgent(
+      definition.create(config, definition.capabilities),
+      {
+        ...schedule,
+        provider: type,
+        apiKey: config.apiKey,
+      },
+    );
+  }
+
+  /**
+   * Builds an agent from a declarative config. The config is validated
+   * against its provider's schema before any SDK client is constructed.
+   */
+  static fromConfig(
+    config: AgentConfig,
+    onUsage?: UsageListener,
+    schedule: ScheduleOptions = {},
+  ): BaseAgent {
+    const agent = providerRegistry.create(config, onUsage);
+    return new ScheduledAgent(agent, {
+      ...schedule,
+      provider: config.provider,
+      apiKey: agent.getModelConfig().apiKey,
+    });
   }
 }
@@ -0,0 +1,271 @@
+import {
+  ChatMessage,
+  ContentPart,
+  FinishReason,
+  StreamEvent,
+  ToolCall,
+  ToolDefinition,
+} from "./base_agent";
+import { asImage, imageData, messageText } from "./content_parts";
+import { UnsupportedContentError } from "./errors";
+import { ToolCallAccumulator } from "./stream_events";
+import { ReportedUsage, UsageTracking } from "./usage";
+import {
+  ANTHROPIC_MESSAGE_RULES,
+  groupTurns,
+  normalizeMessages,
+} from "./message_format";
+
+const ANTHROPIC_IMAGE_TYPES = [
+  "image/jpeg",
+  "image/png",
+  "image/gif",
+  "image/webp",
+] as const;
+
+export type AnthropicImageType = (typeof ANTHROPIC_IMAGE_TYPES)[number];
+
+export type AnthropicSource =
+  | { type: "base64"; media_type: AnthropicImageType; data: string }
+  | { type: "url"; url: string };
+
+export type AnthropicContentBlock =
+  | { type: "text"; text: string }
+  | { type: "image"; source: AnthropicSource }
+  | { type: "document"; source: { type: "url"; url: string } }
+  | {
+      type: "tool_use";
+      id: string;
+      name: string;
+      input: Record<string, unknown>;
+    }
+  | { type: "tool_result"; tool_use_id: string; content: string };
+
+export interface AnthropicMessage {
+  role: "user" | "assistant";
+  content: string | AnthropicContentBlock[];
+}
+
+export interface AnthropicTool {
+  name: string;
+  description: string;
+  input_schema: { type: "object"; [key: string]: unknown };
+}
+
+export function formatAnthropicTools(tools: ToolDefinition[]): AnthropicTool[] {
+  return tools.map((tool) => ({
+    name: tool.name,
+    description: tool.description,
+    input_schema: { ...tool.parameters, type: "object" },
+  }));
+}
+
+export function formatAnthropicRequest(messages: ChatMessage[]): {
+  system: string;
+  messages: AnthropicMessage[];
+} {
+  const normalized = normalizeMessages(messages, ANTHROPIC_MESSAGE_RULES);
+  return {
+    system: normalized.system,
+    messages: groupTurns(normalized.messages).map(formatAnthropicTurn),
+  };
+}
+
+function formatAnthropicTurn(turn: ChatMessage[]): AnthropicMessage {
+  const role = turn[0].role === "assistant" ? "assistant" : "user";
+  const [first] = turn;
+  if (
+    turn.length === 1 &&
+    typeof first.content === "string" &&
+    first.role !== "tool" &&
+    !first.toolCalls?.length
+  ) {
+    return { role, content: first.content };
+  }
+
+  const blocks: AnthropicContentBlock[] = [];
+  for (const msg of turn) {
+    if (msg.role === "tool") {
+      blocks.push({
+        type: "tool_result",
+        tool_use_id: msg.toolCallId || "",
+        content: messageText(msg.content),
+      });
+      continue;
+    }
+    if (typeof msg.content === "string") {
+      if (msg.content) {
+        blocks.push({ type: "text", text: msg.content });
+      }
+    } else {
+      blocks.push(...msg.content.map(formatAnthropicPart));
+    }
+    for (const call of msg.toolCalls || []) {
+      blocks.push({
+        type: "tool_use",
+        id: call.id,
+        name: call.name,
+        input: call.arguments,
+      });
+    }
+  }
+  return { role, content: blocks };
+}
+
+function formatAnthropicPart(part: ContentPart): AnthropicContentBlock {
+  if (part.type === "text") {
+    return { type: "text", text: part.text };
+  }
+  const image = asImage(part);
+  if (image) {
+    const inline = imageData(image);
+    if (inline && !isAnthropicImageType(inline.mimeType)) {
+      throw new UnsupportedContentError(
+        "anthropic",
+        part.type,
+        `${inline.mimeType} images are not supported`,
+      );
+    }
+    return {
+      type: "image",
+      source: inline
+        ? {
+            type: "base64",
+            media_type: inline.mimeType as AnthropicImageType,
+            data: inline.data,
+          }
+        : { type: "url", url: image.url || "" },
+    };
+  }
+  if (part.type === "file" && part.mimeType === "application/pdf") {
+    return { type: "document", source: { type: "url", url: part.uri } };
+  }
+  throw new UnsupportedContentError(
+    "anthropic",
+    part.type,
+    `${part.mimeType || "unknown"} files are not supported`,
+  );
+}
+
+function isAnthropicImageType(mimeType: string): boolean {
+  return (ANTHROPIC_IMAGE_TYPES as readonly string[]).includes(mimeType);
+}
+
+export function parseAnthropicContent(content: AnthropicContentBlock[]): {
+  content: string;
+  toolCalls: ToolCall[];
+} {
+  const toolCalls: ToolCall[] = [];
+  let text = "";
+  for (const block of content) {
+    if (block.type === "text") {
+      text += block.text;
+    } else if (block.type === "tool_use") {
+      toolCalls.push({
+        id: block.id,
+        name: block.name,
+        arguments: block.input,
+      });
+    }
+  }
+  return { content: text, toolCalls };
+}
+
+export function anthropicUsage(response: {
+  model: string;
+  usage: { input_tokens: number; output_tokens: number };
+}): ReportedUsage {
+  return {
+    inputTokens: response.usage.input_tokens,
+    outputTokens: response.usage.output_tokens,
+    model: response.model,
+  };
+}
+
+/** The streaming chunks both Anthropic adapters read */
+type AnthropicStreamChunk =
+  | {
+      type: "message_start";
+      message: { model: string; usage: { input_tokens: number } };
+    }
+  | {
+      type: "content_block_start";
+      index: number;
+      content_block: { type: string; id?: string; name?: string };
+    }
+  | {
+      type: "content_block_delta";
+      index: number;
+      delta: { type: string; text?: string; partial_json?: string };
+    }
+  | { type: "content_block_stop"; index: number }
+  | {
+      type: "message_delta";
+      delta: { stop_reason?: string | null };
+      usage: { output_tokens: number };
+    }
+  | { type: "message_stop" | "ping" };
+
+/**
+ * Turns a Messages API stream into StreamEvents. Tool use blocks become
+ * tool calls indexed by their content block, and the usage split across
+ * message_start and message_delta is reported once the stream ends.
+ */
+export async function* anthropicStreamEvents(
+  chunks: AsyncIterable<{ type: string }>,
+  usage: UsageTracking,
+): AsyncGenerator<StreamEvent> {
+  let content = "";
+  const reported: ReportedUsage = {};
+  let finishReason: FinishReason = "other";
+  const toolCalls = new ToolCallAccumulator();
+  for await (const raw of chunks) {
+    const chunk = raw as AnthropicStreamChunk;
+    if (chunk.type === "message_start") {
+      reported.inputTokens = chunk.message.usage.input_tokens;
+      reported.model = chunk.message.model;
+    } else if (chunk.type === "content_block_start") {
+      if (chunk.content_block.type === "tool_use") {
+        yield* toolCalls.add(chunk.index, {
+          id: chunk.content_block.id,
+          name: chunk.content_block.name,
+        });
+      }
+    } else if (chunk.type === "content_block_delta") {
+      if (chunk.delta.text) {
+        content += chunk.delta.text;
+        yield { type: "text", text: chunk.delta.text };
+      } else if (chunk.delta.partial_json) {
+        yield* toolCalls.add(chunk.index, {
+          arguments: chunk.delta.partial_json,
+        });
+      }
+    } else if (chunk.type === "content_block_stop") {
+      yield* toolCalls.end(chunk.index);
+    } else if (chunk.type === "message_delta") {
+      reported.outputTokens = chunk.usage.output_tokens;
+      if (chunk.delta.stop_reason) {
+        finishReason = anthropicFinishReason(chunk.delta.stop_reason);
+      }
+    }
+  }
+  yield* toolCalls.endAll();
+  yield { type: "usage", usage: usage.finish(reported, content) };
+  yield { type: "finish", reason: finishReason };
+}
+
+function anthropicFinishReason(reason: string): FinishReason {
+  switch (reason) {
+    case "end_turn":
+    case "stop_sequence":
+      return "stop";
+    case "max_tokens":
+      return "length";
+    case "tool_use":
+      return "tool_calls";
+    case "refusal":
+      return "content_filter";
+    default:
+      return "other";
+  }
+}
@@ -1,23 +1,131 @@
-import { ChatMessage, ModelConfig } from "../../utils/types";
+import { JsonSchema } from "./json_schema";
+import { UsageListener, UsageRecord } from "./usage";
 
 export interface BaseAgent {
+  /** Provider the agent was created for; wrappers label it by class otherwise */
+  readonly provider?: string;
   modelName: string;
   temperature: number;
   maxTokens: number;
 
-  chat(messages: ChatMessage[]): Promise<string>;
-  stream(messages: ChatMessage[]): AsyncGenerator<string>;
+  chat(messages: ChatMessage[], options?: ChatOptions): Promise<string>;
+  stream(
+    messages: ChatMessage[],
+    options?: ChatOptions,
+  ): AsyncGenerator<string>;
   getModelConfig(): ModelConfig;
+  chatWithTools?(
+    messages: ChatMessage[],
+    tools: ToolDefinition[],
+    options?: ChatOptions,
+  ): Promise<ToolChatResponse>;
+  /** Native JSON mode: returns raw JSON text constrained to the schema */
+  chatJson?(
+    messages: ChatMessage[],
+    schema: JsonSchema,
+    options?: ChatOptions,
+  ): Promise<string>;
+  /** Typed events for text, tool calls, usage and how the reply ended */
+  streamEvents?(
+    messages: ChatMessage[],
+    options?: StreamEventOptions,
+  ): AsyncGenerator<StreamEvent>;
 }
 
+/**
+ * Per-call controls; cancelled calls reject with AgentCancelledError and
+ * timed out ones with AgentTimeoutError
+ */
+export interface ChatOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+}
+
+/** Tools offered while streaming; calls arrive as tool_call_* events */
+export interface StreamEventOptions extends ChatOptions {
+  tools?: ToolDefinition[];
+}
+
+export interface TextPart {
+  type: "text";
+  text: string;
+}
+
+/** An image given either by URL or inline as base64 `data` */
+export interface ImagePart {
+  type: "image";
+  url?: string;
+  data?: string;
+  mimeType?: string;
+  detail?: "low" | "high" | "auto";
+}
+
+/** A reference to an uploaded file, such as a URL from `upload-file` */
+export interface FilePart {
+  type: "file";
+  uri: string;
+  mimeType?: string;
+  name?: string;
+}
+
+export type ContentPart = TextPart | ImagePart | FilePart;
+
+export type MessageContent = string | ContentPart[];
+
 export interface ChatMessage {
-  role: "system" | "user" | "assistant";
+  role: "system" | "user" | "assistant" | "tool";
+  content: MessageContent;
+  toolCalls?: ToolCall[];
+  toolCallId?: string;
+  name?: string;
+}
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: JsonSchema;
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+export interface ToolChatResponse {
   content: string;
+  toolCalls: ToolCall[];
 }
 
+/** Why the model stopped, mapped from each provider's own vocabulary */
+export type FinishReason =
+  | "stop"
+  | "length"
+  | "tool_calls"
+  | "content_filter"
+  | "other";
+
+/**
+ * One step of a streamed reply. Tool call arguments arrive as JSON text
+ * deltas and are parsed once on `tool_call_end`. A stream ends with
+ * `finish`, or with `error` if the call failed part way through.
+ */
+export type StreamEvent =
+  | { type: "text"; text: string }
+  | { type: "tool_call_start"; index: number; id: string; name: string }
+  | { type: "tool_call_delta"; index: number; argumentsDelta: string }
+  | { type: "tool_call_end"; index: number; toolCall: ToolCall }
+  | { type: "usage"; usage: UsageRecord }
+  | { type: "finish"; reason: FinishReason }
+  | { type: "error"; error: unknown };
+
 export interface ModelConfig {
   modelName: string;
   temperature: number;
   maxTokens: number;
   apiKey: string;
+  /** Endpoint override for self-hosted or OpenAI-compatible servers */
+  baseUrl?: string;
+  /** Receives token counts and latency for every call the agent makes */
+  onUsage?: UsageListener;
 }
@@ -1,14 +1,46 @@
 import {
   BedrockRuntimeClient,
-  InvokeModelCommand,
+  ContentBlock,
+  ConverseCommand,
+  ConverseStreamCommand,
+  ImageFormat,
+  Message,
+  SystemContentBlock,
+  TokenUsage,
+  ToolConfiguration,
+  ToolInputSchema,
+  ToolUseBlock,
 } from "@aws-sdk/client-bedrock-runtime";
-import { BaseAgent, ChatMessage, ModelConfig } from "./base_agent";
+import {
+  BaseAgent,
+  ChatMessage,
+  ChatOptions,
+  ContentPart,
+  FinishReason,
+  ModelConfig,
+  StreamEvent,
+  StreamEventOptions,
+  ToolCall,
+  ToolChatResponse,
+  ToolDefinition,
+} from "./base_agent";
+import { beginCall, iterateCancellable, runCancellable } from "./cancellation";
+import { asImage, imageData, messageText } from "./content_parts";
+import { UnsupportedContentError } from "./errors";
+import {
+  BEDROCK_MESSAGE_RULES,
+  groupTurns,
+  normalizeMessages,
+} from "./message_format";
+import { textFromEvents, ToolCallAccumulator } from "./stream_events";
+import { ReportedUsage, trackUsage, UsageListener } from "./usage";
 
 export class BedrockAgent implements BaseAgent {
   private client: BedrockRuntimeClient;
   modelName: string;
   temperature: number;
   maxTokens: number;
+  private onUsage?: UsageListener;
 
   constructor(config: ModelConfig) {
     this.client = new BedrockRuntimeClient({
@@ -21,50 +53,241 @@ export class BedrockAgent implements BaseAgent {
     this.modelName = config.modelName;
     this.temperature = config.temperature;
     this.maxTokens = config.maxTokens;
+    this.onUsage = config.onUsage;
   }
 
-  async chat(messages: ChatMessage[]): Promise<string> {
-    const command = new InvokeModelCommand({
-      modelId: this.modelName,
-      body: JSON.stringify({
-        prompt: this.formatMessages(messages),
-        max_tokens: this.maxTokens,
-        temperature: this.temperature,
-      }),
+  async chat(messages: ChatMessage[], options?: ChatOptions): Promise<string> {
+    return runCancellable("bedrock", options, async (call) => {
+      const usage = trackUsage(
+        "bedrock",
+        this.modelName,
+        messages,
+        this.onUsage,
+      );
+      const command = new ConverseCommand({
+        modelId: this.modelName,
+        ...this.formatRequest(messages),
+        inferenceConfig: this.getInferenceConfig(),
+      });
+
+      const response = await this.client.send(command, {
+        abortSignal: call.signal,
+      });
+      const content = (response.output?.message?.content || [])
+        .map((block) => block.text || "")
+        .join("");
+      usage.finish(this.usageOf(response.usage), content);
+      return content;
     });
+  }
 
-    const response = await this.client.send(command);
-    const responseBody = JSON.parse(new TextDecoder().decode(response.body));
-    return responseBody.completion;
+  async *stream(
+    messages: ChatMessage[],
+    options?: ChatOptions,
+  ): AsyncGenerator<string> {
+    yield* textFromEvents(this.streamEvents(messages, options));
   }
 
-  async *stream(messages: ChatMessage[]): AsyncGenerator<string> {
-    const command = new InvokeModelCommand({
-      modelId: this.modelName,
-      body: JSON.stringify({
-        prompt: this.formatMessages(messages),
-        max_tokens: this.maxTokens,
-        temperature: this.temperature,
-        stream: true,
-      }),
-    });
+  async *streamEvents(
+    messages: ChatMessage[],
+    options: StreamEventOptions = {},
+  ): AsyncGenerator<StreamEvent> {
+    const call = beginCall("bedrock", options);
+    try {
+      const usage = trackUsage(
+        "bedrock",
+        this.modelName,
+        messages,
+        this.onUsage,
+      );
+      const command = new ConverseStreamCommand({
+        modelId: this.modelName,
+        ...this.formatRequest(messages),
+        inferenceConfig: this.getInferenceConfig(),
+        ...(options.tools?.length
+          ? { toolConfig: this.formatToolConfig(options.tools) }
+          : {}),
+      });
 
-    const response = await this.client.send(command);
-    const reader = response.body.getReader();
+      const response = await this.client.send(command, {
+        abortSignal: call.signal,
+      });
+      let content = "";
+      let reported: ReportedUsage | undefined;
+      let finishReason: FinishReason = "other";
+      const toolCalls = new ToolCallAccumulator();
+      for await (const event of iterateCancellable(
+        response.stream || [],
+        call,
+      )) {
+        const toolStart = event.contentBlockStart?.start?.toolUse;
+        if (toolStart) {
+          yield* toolCalls.add(
+            event.contentBlockStart?.contentBlockIndex ?? 0,
+            {
+              id: toolStart.toolUseId,
+              name: toolStart.name,
+            },
+          );
+        } else if (event.contentBlockDelta?.delta?.text) {
+          content += event.contentBlockDelta.delta.text;
+          yield { type: "text", text: event.contentBlockDelta.delta.text };
+        } else if (event.contentBlockDelta?.delta?.toolUse) {
+          yield* toolCalls.add(event.contentBlockDelta.contentBlockIndex ?? 0, {
+            arguments: event.contentBlockDelta.delta.toolUse.input,
+          });
+        } else if (event.contentBlockStop) {
+          yield* toolCalls.end(event.contentBlockStop.contentBlockIndex ?? 0);
+        } else if (event.messageStop?.stopReason) {
+          finishReason = bedrockFinishReason(event.messageStop.stopReason);
+        } else if (event.metadata?.usage) {
+          reported = this.usageOf(event.metadata.usage);
+        }
+      }
+      yield* toolCalls.endAll();
+      yield { type: "usage", usage: usage.finish(reported, content) };
+      yield { type: "finish", reason: finishReason };
+    } catch (error) {
+      yield { type: "error", error: call.wrapError(error) };
+    } finally {
+      call.dispose();
+    }
+  }
 
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
+  async chatWithTools(
+    messages: ChatMessage[],
+    tools: ToolDefinition[],
+    options?: ChatOptions,
+  ): Promise<ToolChatResponse> {
+    return runCancellable("bedrock", options, async (call) => {
+      const usage = trackUsage(
+        "bedrock",
+        this.modelName,
+        messages,
+        this.onUsage,
+      );
+      const command = new ConverseCommand({
+        modelId: this.modelName,
+        ...this.formatRequest(messages),
+        inferenceConfig: this.getInferenceConfig(),
+        toolConfig: this.formatToolConfig(tools),
+      });
 
-      const chunk = JSON.parse(new TextDecoder().decode(value));
-      if (chunk.completion) {
-        yield chunk.completion;
+      const response = await this.client.send(command, {
+        abortSignal: call.signal,
+      });
+      const toolCalls: ToolCall[] = [];
+      let content = "";
+      for (const block of response.output?.message?.content || []) {
+        if (block.text) {
+          content += block.text;
+        } else if (block.toolUse) {
+          toolCalls.push({
+            id: block.toolUse.toolUseId || "",
+            name: block.toolUse.name || "",
+            arguments: (block.toolUse.input || {}) as Record<string, unknown>,
+          });
+        }
       }
+      usage.finish(this.usageOf(response.usage), content);
+      return { content, toolCalls };
+    });
+  }
+
+  private usageOf(tokens?: TokenUsage): ReportedUsage {
+    return {
+      inputTokens: tokens?.inputTokens,
+      outputTokens: tokens?.outputTokens,
+    };
+  }
+
+  private formatToolConfig(tools: ToolDefinition[]): ToolConfiguration {
+    return {
+      tools: tools.map((tool) => ({
+        toolSpec: {
+          name: tool.name,
+          description: tool.description,
+          inputSchema: { json: tool.parameters } as ToolInputSchema,
+        },
+      })),
+    };
+  }
+
+  private getInferenceConfig() {
+    return {
+      maxTokens: this.maxTokens,
+      temperature: this.temperature,
+    };
+  }
+
+  private formatRequest(messages: ChatMessage[]): {
+    system?: SystemContentBlock[];
+    messages: Message[];
+  } {
+    const normalized = normalizeMessages(messages, BEDROCK_MESSAGE_RULES);
+    return {
+      system: normalized.system ? [{ text: normalized.system }] : undefined,
+      messages: groupTurns(normalized.messages).map((turn) => ({
+        role: turn[0].role === "assistant" ? "assistant" : "user",
+        content: turn.flatMap((msg) => this.formatContent(msg)),
+      })),
+    };
+  }
+
+  private formatContent(msg: ChatMessage): ContentBlock[] {
+    if (msg.role === "tool") {
+      return [
+        {
+          toolResult: {
+            toolUseId: msg.toolCallId,
+            content: [{ text: messageText(msg.content) }],
+          },
+        },
+      ];
     }
+
+    const content: ContentBlock[] =
+      typeof msg.content === "string"
+        ? msg.content
+          ? [{ text: msg.content }]
+          : []
+        : msg.content.map((part) => this.formatPart(part));
+    for (const call of msg.toolCalls || []) {
+      content.push({
+        toolUse: {
+          toolUseId: call.id,
+          name: call.name,
+          input: call.arguments as ToolUseBlock["input"],
+        },
+      });
+    }
+    return content;
   }
 
-  private formatMessages(messages: ChatMessage[]): string {
-    return messages.map((msg) => `${msg.role}: ${msg.content}`).join("\n");
+  /**
+   * Converse only takes image bytes, so images must be inline base64.
+   */
+  private formatPart(part: ContentPart): ContentBlock {
+    if (part.type === "text") {
+      return { text: part.text };
+    }
+    const image = asImage(part);
+    const inline = image && imageData(image);
+    if (!inline) {
+      throw new UnsupportedContentError(
+        "bedrock",
+        part.type,
+        image ? "images must be inline base64" : "only images are supported",
+      );
+    }
+    return {
+      image: {
+        format: inline.mimeType
+          .split("/")[1]
+          .replace("jpg", "jpeg") as ImageFormat,
+        source: { bytes: Buffer.from(inline.data, "base64") },
+      },
+    };
   }
 
   getModelConfig(): ModelConfig {
@@ -76,3 +299,20 @@ export class BedrockAgent implements BaseAgent {
     };
   }
 }
+
+function bedrockFinishReason(reason: string): FinishReason {
+  switch (reason) {
+    case "end_turn":
+    case "stop_sequence":
+      return "stop";
+    case "max_tokens":
+      return "length";
+    case "tool_use":
+      return "tool_calls";
+    case "content_filtered":
+    case "guardrail_intervened":
+      return "content_filter";
+    default:
+      return "other";
+  }
+}
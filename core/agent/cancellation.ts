@@ -0,0 +1,126 @@
+import { ChatOptions } from "./base_agent";
+import { AgentCancelledError, AgentTimeoutError } from "./errors";
+
+/**
+ * One call's cancellation state: the caller's signal and the per-call
+ * timeout folded into a single signal to hand to the provider SDK.
+ */
+export interface CallScope {
+  signal: AbortSignal;
+  /** Throws the cancellation error if the call has been stopped */
+  throwIfCancelled(): void;
+  /** Swaps SDK abort errors for the cancellation error */
+  wrapError(error: unknown): unknown;
+  /** Rejects as soon as the call is cancelled, for SDKs without signals */
+  race<T>(promise: Promise<T>): Promise<T>;
+  dispose(): void;
+}
+
+export function beginCall(
+  provider: string,
+  options: ChatOptions = {},
+): CallScope {
+  const controller = new AbortController();
+  let reason: AgentCancelledError | AgentTimeoutError | undefined;
+  const cancel = (error: AgentCancelledError | AgentTimeoutError) => {
+    if (!reason) {
+      reason = error;
+      controller.abort(error);
+    }
+  };
+
+  const onAbort = () => cancel(new AgentCancelledError(provider));
+  if (options.signal?.aborted) {
+    onAbort();
+  } else {
+    options.signal?.addEventListener("abort", onAbort, { once: true });
+  }
+  const timer =
+    options.timeoutMs === undefined
+      ? undefined
+      : setTimeout(
+          () => cancel(new AgentTimeoutError(provider, options.timeoutMs!)),
+          options.timeoutMs,
+        );
+
+  return {
+    signal: controller.signal,
+    throwIfCancelled() {
+      if (reason) {
+        throw reason;
+      }
+    },
+    wrapError(error) {
+      return reason || error;
+    },
+    race(promise) {
+      if (reason) {
+        return Promise.reject(reason);
+      }
+      return new Promise((resolve, reject) => {
+        const onCancel = () => reject(reason);
+        controller.signal.addEventListener("abort", onCancel, { once: true });
+        promise.then(resolve, reject).finally(() => {
+          controller.signal.removeEventListener("abort", onCancel);
+        });
+      });
+    },
+    dispose() {
+      clearTimeout(timer);
+      options.signal?.removeEventListener("abort", onAbort);
+    },
+  };
+}
+
+/**
+ * Runs a provider call inside a CallScope, translating SDK abort errors and
+ * always clearing the timeout.
+ */
+export async function runCancellable<T>(
+  provider: string,
+  options: ChatOptions | undefined,
+  call: (scope: CallScope) => Promise<T>,
+): Promise<T> {
+  const scope = beginCall(provider, options);
+  try {
+    scope.throwIfCancelled();
+    return await call(scope);
+  } catch (error) {
+    throw scope.wrapError(error);
+  } finally {
+    scope.dispose();
+  }
+}
+
+/**
+ * Iterates a provider stream until it ends or the call is cancelled. On
+ * cancellation the pending read is abandoned and the iterator is closed,
+ * which releases the underlying reader or HTTP response.
+ */
+export async function* iterateCancellable<T>(
+  source: AsyncIterable<T> | Iterable<T>,
+  scope: CallScope,
+  onCancel?: () => void,
+): AsyncGenerator<T> {
+  const iterator =
+    Symbol.asyncIterator in source
+      ? source[Symbol.asyncIterator]()
+      : source[Symbol.iterator]();
+  let done = false;
+  try {
+    while (true) {
+      const result = await scope.race(Promise.resolve(iterator.next()));
+      if (result.done) {
+        done = true;
+        return;
+      }
+      yield result.value;
+    }
+  } finally {
+    if (!done) {
+      onCancel?.();
+      // Not awaited: a stuck read must not keep the caller waiting
+      void Promise.resolve(iterator.return?.()).catch(() => undefined);
+    }
+  }
+}
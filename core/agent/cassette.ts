@@ -0,0 +1,43 @@
+import fs from "fs";
+import path from "path";
+import { ToolCall } from "./base_agent";
+import { NormalizedRequest } from "./request_key";
+
+export interface CassetteChunk {
+  text: string;
+  /** Time since the previous chunk (or the request) when it was recorded */
+  delayMs: number;
+}
+
+export interface CassetteEntry {
+  key: string;
+  request: NormalizedRequest;
+  response: {
+    content: string;
+    toolCalls?: ToolCall[];
+    chunks?: CassetteChunk[];
+  };
+  latencyMs: number;
+  recordedAt: string;
+}
+
+export interface Cassette {
+  version: 1;
+  entries: CassetteEntry[];
+}
+
+export function loadCassette(filePath: string): Cassette {
+  if (!fs.existsSync(filePath)) {
+    return { version: 1, entries: [] };
+  }
+  const cassette = JSON.parse(fs.readFileSync(filePath, "utf8")) as Cassette;
+  if (cassette.version !== 1 || !Array.isArray(cassette.entries)) {
+    throw new Error(`Unsupported cassette format: ${filePath}`);
+  }
+  return cassette;
+}
+
+export function saveCassette(filePath: string, cassette: Cassette): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(cassette, null, 2), "utf8");
+}
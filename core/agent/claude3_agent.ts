@@ -1,53 +1,140 @@
 import { Anthropic } from "@anthropic-ai/sdk";
-import { BaseAgent, ChatMessage, ModelConfig } from "./base_agent";
+import {
+  BaseAgent,
+  ChatMessage,
+  ChatOptions,
+  ModelConfig,
+  StreamEvent,
+  StreamEventOptions,
+  ToolChatResponse,
+  ToolDefinition,
+} from "./base_agent";
+import { beginCall, iterateCancellable, runCancellable } from "./cancellation";
+import {
+  AnthropicContentBlock,
+  anthropicStreamEvents,
+  anthropicUsage,
+  formatAnthropicRequest,
+  formatAnthropicTools,
+  parseAnthropicContent,
+} from "./anthropic_messages";
+import { textFromEvents } from "./stream_events";
+import { trackUsage, UsageListener } from "./usage";
 
 export class Claude3Agent implements BaseAgent {
   private client: Anthropic;
   modelName: string;
   temperature: number;
   maxTokens: number;
+  private onUsage?: UsageListener;
 
   constructor(config: ModelConfig) {
     this.client = new Anthropic({ apiKey: config.apiKey });
     this.modelName = config.modelName || "claude-3-opus-20240229";
     this.temperature = config.temperature;
     this.maxTokens = config.maxTokens;
+    this.onUsage = config.onUsage;
   }
 
-  async chat(messages: ChatMessage[]): Promise<string> {
-    const response = await this.client.messages.create({
-      model: this.modelName,
-      messages: this.formatMessages(messages),
-      temperature: this.temperature,
-      max_tokens: this.maxTokens,
+  async chat(messages: ChatMessage[], options?: ChatOptions): Promise<string> {
+    return runCancellable("claude3", options, async (call) => {
+      const usage = trackUsage(
+        "claude3",
+        this.modelName,
+        messages,
+        this.onUsage,
+      );
+      const request = formatAnthropicRequest(messages);
+      const response = await this.client.messages.create(
+        {
+          model: this.modelName,
+          system: request.system || undefined,
+          messages: request.messages,
+          temperature: this.temperature,
+          max_tokens: this.maxTokens,
+        },
+        { signal: call.signal },
+      );
+      const { content } = parseAnthropicContent(
+        response.content as AnthropicContentBlock[],
+      );
+      usage.finish(anthropicUsage(response), content);
+      return content;
     });
-    return response.content[0].text;
   }
 
-  async *stream(messages: ChatMessage[]): AsyncGenerator<string> {
-    const stream = await this.client.messages.create({
-      model: this.modelName,
-      messages: this.formatMessages(messages),
-      temperature: this.temperature,
-      max_tokens: this.maxTokens,
-      stream: true,
-    });
+  async *stream(
+    messages: ChatMessage[],
+    options?: ChatOptions,
+  ): AsyncGenerator<string> {
+    yield* textFromEvents(this.streamEvents(messages, options));
+  }
 
-    for await (const chunk of stream) {
-      if (chunk.type === "content_block_delta") {
-        yield chunk.delta.text;
-      }
+  async *streamEvents(
+    messages: ChatMessage[],
+    options: StreamEventOptions = {},
+  ): AsyncGenerator<StreamEvent> {
+    const call = beginCall("claude3", options);
+    try {
+      const usage = trackUsage(
+        "claude3",
+        this.modelName,
+        messages,
+        this.onUsage,
+      );
+      const request = formatAnthropicRequest(messages);
+      const stream = await this.client.messages.create(
+        {
+          model: this.modelName,
+          system: request.system || undefined,
+          messages: request.messages,
+          ...(options.tools?.length
+            ? { tools: formatAnthropicTools(options.tools) }
+            : {}),
+          temperature: this.temperature,
+          max_tokens: this.maxTokens,
+          stream: true,
+        },
+        { signal: call.signal },
+      );
+      yield* anthropicStreamEvents(iterateCancellable(stream, call), usage);
+    } catch (error) {
+      yield { type: "error", error: call.wrapError(error) };
+    } finally {
+      call.dispose();
     }
   }
 
-  private formatMessages(messages: ChatMessage[]): Array<{
-    role: "assistant" | "user";
-    content: string;
-  }> {
-    return messages.map((msg) => ({
-      role: msg.role === "assistant" ? "assistant" : "user",
-      content: msg.content,
-    }));
+  async chatWithTools(
+    messages: ChatMessage[],
+    tools: ToolDefinition[],
+    options?: ChatOptions,
+  ): Promise<ToolChatResponse> {
+    return runCancellable("claude3", options, async (call) => {
+      const usage = trackUsage(
+        "claude3",
+        this.modelName,
+        messages,
+        this.onUsage,
+      );
+      const request = formatAnthropicRequest(messages);
+      const response = await this.client.messages.create(
+        {
+          model: this.modelName,
+          system: request.system || undefined,
+          messages: request.messages,
+          tools: formatAnthropicTools(tools),
+          temperature: this.temperature,
+          max_tokens: this.maxTokens,
+        },
+        { signal: call.signal },
+      );
+      const result = parseAnthropicContent(
+        response.content as AnthropicContentBlock[],
+      );
+      usage.finish(anthropicUsage(response), result.content);
+      return result;
+    });
   }
 
   getModelConfig(): ModelConfig {
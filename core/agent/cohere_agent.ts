@@ -1,47 +1,298 @@
-import { CohereClient } from "cohere-ai";
-import { BaseAgent, ChatMessage, ModelConfig } from "./base_agent";
+import { Cohere, CohereClient } from "cohere-ai";
+import {
+  BaseAgent,
+  ChatMessage,
+  ChatOptions,
+  FinishReason,
+  ModelConfig,
+  StreamEvent,
+  StreamEventOptions,
+  ToolCall,
+  ToolChatResponse,
+  ToolDefinition,
+} from "./base_agent";
+import { beginCall, iterateCancellable, runCancellable } from "./cancellation";
+import { assertTextOnly, messageText } from "./content_parts";
+import { JsonSchema } from "./json_schema";
+import { COHERE_MESSAGE_RULES, normalizeMessages } from "./message_format";
+import { textFromEvents, ToolCallAccumulator } from "./stream_events";
+import { ReportedUsage, trackUsage, UsageListener } from "./usage";
+
+const COHERE_PARAMETER_TYPES: Record<string, string> = {
+  string: "str",
+  number: "float",
+  integer: "int",
+  boolean: "bool",
+  array: "list",
+  object: "dict",
+};
 
 export class CohereAgent implements BaseAgent {
   private client: CohereClient;
   modelName: string;
   temperature: number;
   maxTokens: number;
+  private onUsage?: UsageListener;
 
   constructor(config: ModelConfig) {
-    this.client = new CohereClient({ apiKey: config.apiKey });
+    this.client = new CohereClient({ token: config.apiKey });
     this.modelName = config.modelName;
     this.temperature = config.temperature;
     this.maxTokens = config.maxTokens;
+    this.onUsage = config.onUsage;
   }
 
-  async chat(messages: ChatMessage[]): Promise<string> {
-    const response = await this.client.chat({
-      model: this.modelName,
-      message: this.formatMessages(messages),
-      temperature: this.temperature,
-      max_tokens: this.maxTokens,
+  async chat(messages: ChatMessage[], options?: ChatOptions): Promise<string> {
+    return runCancellable("cohere", options, async (call) => {
+      const usage = trackUsage(
+        "cohere",
+        this.modelName,
+        messages,
+        this.onUsage,
+      );
+      const response = await this.client.chat(
+        {
+          model: this.modelName,
+          ...this.formatRequest(messages),
+          temperature: this.temperature,
+          maxTokens: this.maxTokens,
+        },
+        { abortSignal: call.signal },
+      );
+      usage.finish(this.usageOf(response), response.text);
+      return response.text;
     });
-    return response.text;
   }
 
-  async *stream(messages: ChatMessage[]): AsyncGenerator<string> {
-    const stream = await this.client.chat({
-      model: this.modelName,
-      message: this.formatMessages(messages),
-      temperature: this.temperature,
-      max_tokens: this.maxTokens,
-      stream: true,
-    });
+  async *stream(
+    messages: ChatMessage[],
+    options?: ChatOptions,
+  ): AsyncGenerator<string> {
+    yield* textFromEvents(this.streamEvents(messages, options));
+  }
+
+  async *streamEvents(
+    messages: ChatMessage[],
+    options: StreamEventOptions = {},
+  ): AsyncGenerator<StreamEvent> {
+    const call = beginCall("cohere", options);
+    try {
+      const usage = trackUsage(
+        "cohere",
+        this.modelName,
+        messages,
+        this.onUsage,
+      );
+      const stream = await this.client.chatStream(
+        {
+          model: this.modelName,
+          ...this.formatRequest(messages),
+          ...(options.tools?.length
+            ? { tools: options.tools.map((tool) => this.formatTool(tool)) }
+            : {}),
+          temperature: this.temperature,
+          maxTokens: this.maxTokens,
+        },
+        { abortSignal: call.signal },
+      );
 
-    for await (const chunk of stream) {
-      if (chunk.text) {
-        yield chunk.text;
+      let content = "";
+      let reported: ReportedUsage | undefined;
+      let finishReason: FinishReason = "other";
+      const toolCalls = new ToolCallAccumulator();
+      for await (const chunk of iterateCancellable(stream, call)) {
+        if (chunk.eventType === "text-generation") {
+          content += chunk.text;
+          yield { type: "text", text: chunk.text };
+        } else if (chunk.eventType === "tool-calls-generation") {
+          // Sent once with every call whole; the preceding
+          // tool-calls-chunk events repeat the same calls in pieces
+          for (const toolCall of chunk.toolCalls) {
+            const index = toolCalls.size;
+            yield* toolCalls.complete(index, {
+              id: `${toolCall.name}-${index}`,
+              name: toolCall.name,
+              arguments: toolCall.parameters,
+            });
+          }
+        } else if (chunk.eventType === "stream-end") {
+          reported = this.usageOf(chunk.response);
+          finishReason = cohereFinishReason(chunk.finishReason);
+        }
       }
+      yield { type: "usage", usage: usage.finish(reported, content) };
+      yield {
+        type: "finish",
+        reason:
+          toolCalls.size && finishReason === "stop"
+            ? "tool_calls"
+            : finishReason,
+      };
+    } catch (error) {
+      yield { type: "error", error: call.wrapError(error) };
+    } finally {
+      call.dispose();
     }
   }
 
-  private formatMessages(messages: ChatMessage[]): string {
-    return messages.map((msg) => msg.content).join("\n");
+  async chatWithTools(
+    messages: ChatMessage[],
+    tools: ToolDefinition[],
+    options?: ChatOptions,
+  ): Promise<ToolChatResponse> {
+    return runCancellable("cohere", options, async (call) => {
+      const usage = trackUsage(
+        "cohere",
+        this.modelName,
+        messages,
+        this.onUsage,
+      );
+      const response = await this.client.chat(
+        {
+          model: this.modelName,
+          ...this.formatRequest(messages),
+          tools: tools.map((tool) => this.formatTool(tool)),
+          temperature: this.temperature,
+          maxTokens: this.maxTokens,
+        },
+        { abortSignal: call.signal },
+      );
+
+      usage.finish(this.usageOf(response), response.text);
+      return {
+        content: response.text,
+        toolCalls: (response.toolCalls || []).map((call, index) => ({
+          id: `${call.name}-${index}`,
+          name: call.name,
+          arguments: call.parameters,
+        })),
+      };
+    });
+  }
+
+  private usageOf(response: Cohere.NonStreamedChatResponse): ReportedUsage {
+    return {
+      inputTokens: response.meta?.billedUnits?.inputTokens,
+      outputTokens: response.meta?.billedUnits?.outputTokens,
+    };
+  }
+
+  /**
+   * Cohere takes the newest user turn as `message`, or results for pending
+   * tool calls as `toolResults`, with everything before it as history.
+   */
+  private formatRequest(
+    messages: ChatMessage[],
+  ): Pick<
+    Cohere.ChatRequest,
+    "message" | "preamble" | "chatHistory" | "toolResults"
+  > {
+    assertTextOnly(messages, "cohere");
+    const normalized = normalizeMessages(messages, COHERE_MESSAGE_RULES);
+    const conversation = normalized.messages;
+
+    let split = conversation.length;
+    while (split > 0 && conversation[split - 1].role === "tool") {
+      split--;
+    }
+    const pendingResults = conversation.slice(split);
+    let history = conversation.slice(0, split);
+    let message = "";
+    if (
+      pendingResults.length === 0 &&
+      history[history.length - 1]?.role === "user"
+    ) {
+      message = messageText(history[history.length - 1].content);
+      history = history.slice(0, -1);
+    }
+
+    return {
+      message,
+      preamble: normalized.system || undefined,
+      chatHistory: this.formatHistory(history, conversation),
+      toolResults: pendingResults.length
+        ? pendingResults.map((msg) => this.formatToolResult(msg, conversation))
+        : undefined,
+    };
+  }
+
+  private formatTool(tool: ToolDefinition): Cohere.Tool {
+    const required = new Set(tool.parameters.required || []);
+    const parameterDefinitions: Record<
+      string,
+      Cohere.ToolParameterDefinitionsValue
+    > = {};
+    for (const [name, schema] of Object.entries(
+      tool.parameters.properties || {},
+    )) {
+      parameterDefinitions[name] = {
+        description: schema.description,
+        type: this.formatParameterType(schema),
+        required: required.has(name),
+      };
+    }
+    return {
+      name: tool.name,
+      description: tool.description,
+      parameterDefinitions,
+    };
+  }
+
+  private formatParameterType(schema: JsonSchema): string {
+    const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+    return COHERE_PARAMETER_TYPES[type || "string"] || "str";
+  }
+
+  private formatHistory(
+    history: ChatMessage[],
+    conversation: ChatMessage[],
+  ): Cohere.Message[] {
+    return history.map((msg): Cohere.Message => {
+      if (msg.role === "tool") {
+        return {
+          role: "TOOL",
+          toolResults: [this.formatToolResult(msg, conversation)],
+        };
+      }
+      if (msg.role === "assistant") {
+        return {
+          role: "CHATBOT",
+          message: messageText(msg.content),
+          toolCalls: msg.toolCalls?.map((call) => ({
+            name: call.name,
+            parameters: call.arguments,
+          })),
+        };
+      }
+      return { role: "USER", message: messageText(msg.content) };
+    });
+  }
+
+  private formatToolResult(
+    msg: ChatMessage,
+    conversation: ChatMessage[],
+  ): Cohere.ToolResult {
+    const call = this.findToolCall(msg.toolCallId, conversation);
+    return {
+      call: {
+        name: call?.name || msg.name || "",
+        parameters: call?.arguments || {},
+      },
+      outputs: [{ result: messageText(msg.content) }],
+    };
+  }
+
+  private findToolCall(
+    id: string | undefined,
+    conversation: ChatMessage[],
+  ): ToolCall | undefined {
+    for (const msg of conversation) {
+      const call = msg.toolCalls?.find((c) => c.id === id);
+      if (call) {
+        return call;
+      }
+    }
+    return undefined;
   }
 
   getModelConfig(): ModelConfig {
@@ -53,3 +304,16 @@ export class CohereAgent implements BaseAgent {
     };
   }
 }
+
+function cohereFinishReason(reason: string): FinishReason {
+  switch (reason) {
+    case "COMPLETE":
+      return "stop";
+    case "MAX_TOKENS":
+      return "length";
+    case "ERROR_TOXIC":
+      return "content_filter";
+    default:
+      return "other";
+  }
+}
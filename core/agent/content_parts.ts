@@ -0,0 +1,126 @@
+import {
+  ChatMessage,
+  ContentPart,
+  FilePart,
+  ImagePart,
+  MessageContent,
+} from "./base_agent";
+import { UnsupportedContentError } from "./errors";
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+};
+
+export function toContentParts(content: MessageContent): ContentPart[] {
+  if (typeof content !== "string") {
+    return content;
+  }
+  return content ? [{ type: "text", text: content }] : [];
+}
+
+/** The text of a message, with any media parts left out */
+export function messageText(content: MessageContent): string {
+  if (typeof content === "string") {
+    return content;
+  }
+  return content
+    .filter((part) => part.type === "text")
+    .map((part) => (part.type === "text" ? part.text : ""))
+    .join("\n\n");
+}
+
+export function hasMedia(content: MessageContent): boolean {
+  return (
+    typeof content !== "string" && content.some((part) => part.type !== "text")
+  );
+}
+
+export function isEmptyContent(content: MessageContent): boolean {
+  return toContentParts(content).length === 0;
+}
+
+/**
+ * Joins two contents the way consecutive messages are merged: plain text
+ * stays a string, anything with media becomes a list of parts.
+ */
+export function mergeContent(
+  first: MessageContent,
+  second: MessageContent,
+): MessageContent {
+  if (!hasMedia(first) && !hasMedia(second)) {
+    return [messageText(first), messageText(second)]
+      .filter(Boolean)
+      .join("\n\n");
+  }
+  return [...toContentParts(first), ...toContentParts(second)];
+}
+
+/**
+ * Media type of a part, falling back to the file extension for images.
+ */
+export function mediaMimeType(part: ImagePart | FilePart): string | undefined {
+  if (part.mimeType) {
+    return part.mimeType;
+  }
+  const source = part.type === "image" ? part.url : part.uri;
+  const extension = source?.split(/[?#]/)[0].split(".").pop()?.toLowerCase();
+  return extension ? IMAGE_EXTENSIONS[extension] : undefined;
+}
+
+/**
+ * File references to images are sent as images by every vision provider.
+ */
+export function asImage(part: ImagePart | FilePart): ImagePart | undefined {
+  if (part.type === "image") {
+    return part;
+  }
+  const mimeType = mediaMimeType(part);
+  return mimeType?.startsWith("image/")
+    ? { type: "image", url: part.uri, mimeType }
+    : undefined;
+}
+
+/** A URL for the image, inlining base64 data as a data: URL */
+export function imageUrl(part: ImagePart): string {
+  if (part.url) {
+    return part.url;
+  }
+  return `data:${part.mimeType || "image/png"};base64,${part.data || ""}`;
+}
+
+/**
+ * Base64 data for an image, decoding data: URLs. Returns undefined for
+ * images that are only available at a remote URL.
+ */
+export function imageData(
+  part: ImagePart,
+): { data: string; mimeType: string } | undefined {
+  if (part.data) {
+    return { data: part.data, mimeType: part.mimeType || "image/png" };
+  }
+  const match = part.url?.match(/^data:([^;]+);base64,(.*)$/);
+  return match ? { data: match[2], mimeType: match[1] } : undefined;
+}
+
+/**
+ * Adapters for text-only models call this so a media part fails loudly
+ * instead of being silently dropped from the prompt.
+ */
+export function assertTextOnly(
+  messages: ChatMessage[],
+  provider: string,
+): void {
+  for (const msg of messages) {
+    if (typeof msg.content === "string") {
+      continue;
+    }
+    const media = msg.content.find((part) => part.type !== "text");
+    if (media) {
+      throw new UnsupportedContentError(provider, media.type, "text only");
+    }
+  }
+}
@@ -0,0 +1,357 @@
+import {
+  BaseAgent,
+  ChatMessage,
+  ChatOptions,
+  ModelConfig,
+  ToolChatResponse,
+  ToolDefinition,
+} from "./base_agent";
+import { messageText } from "./content_parts";
+import { JsonSchema } from "./json_schema";
+import { findByModel } from "./model_lookup";
+import { stableStringify } from "./request_key";
+import { estimateMessageTokens, estimateTokens } from "./usage";
+
+/**
+ * Context window sizes in tokens, looked up by model family the same way
+ * as MODEL_PRICING.
+ */
+export const MODEL_CONTEXT_LIMITS: Record<string, number> = {
+  // OpenAI
+  "gpt-4o": 128_000,
+  "gpt-4-turbo": 128_000,
+  "gpt-4": 8_192,
+  "gpt-3.5-turbo": 16_385,
+  o1: 200_000,
+  "o1-mini": 128_000,
+  // Anthropic
+  "claude-3": 200_000,
+  "claude-2": 100_000,
+  "claude-instant": 100_000,
+  // Google
+  "gemini-1.5-pro": 2_000_000,
+  "gemini-1.5-flash": 1_000_000,
+  "gemini-1.0-pro": 32_760,
+  "gemini-pro": 32_760,
+  "chat-bison": 8_192,
+  // Mistral
+  "mistral-large": 128_000,
+  "mistral-medium": 32_000,
+  "mistral-small": 32_000,
+  "mistral-tiny": 32_000,
+  "open-mistral-7b": 32_000,
+  "open-mixtral-8x7b": 32_000,
+  // Cohere
+  "command-r": 128_000,
+  command: 4_096,
+  // Bedrock ids carry a vendor prefix
+  "anthropic.claude-3": 200_000,
+  "anthropic.claude-v2": 100_000,
+  "meta.llama3": 8_192,
+  "amazon.titan-text-express": 8_192,
+  // Ollama
+  llama3: 8_192,
+  "llama3.1": 128_000,
+  mistral: 32_000,
+};
+
+// Used for models missing from the table, small enough to be safe anywhere
+const DEFAULT_CONTEXT_LIMIT = 8_192;
+
+export function findContextLimit(
+  model: string,
+  limits: Record<string, number> = MODEL_CONTEXT_LIMITS,
+): number | undefined {
+  return findByModel(model, limits);
+}
+
+/**
+ * What to do when a request does not fit: "drop-oldest" drops the oldest
+ * messages whatever they are, "keep-pinned" never drops pinned messages and
+ * "summarize" also keeps them but replaces the dropped turns with a summary.
+ */
+export type ContextPolicy = "drop-oldest" | "keep-pinned" | "summarize";
+
+export interface ContextWindowOptions {
+  policy?: ContextPolicy;
+  /** Overrides the model's entry in MODEL_CONTEXT_LIMITS */
+  contextLimit?: number;
+  /** Tokens held back on top of the agent's maxTokens completion allowance */
+  reserveTokens?: number;
+  /** Messages that survive trimming; system and persona messages by default */
+  isPinned?: (message: ChatMessage) => boolean;
+  countTokens?: (message: ChatMessage) => number;
+  /** Writes the summaries for "summarize"; a cheaper model than the agent's */
+  summarizer?: BaseAgent;
+  /** Called whenever a request had to be trimmed */
+  onTrim?: (report: ContextReport) => void;
+}
+
+export interface ContextReport {
+  policy: ContextPolicy;
+  budgetTokens: number;
+  tokensBefore: number;
+  tokensAfter: number;
+  /** Messages left out of the request, oldest first */
+  elided: ChatMessage[];
+  /** Set when the elided messages were replaced by a summary */
+  summary?: string;
+  /** Trimming could not make the request fit, e.g. one huge message */
+  overBudget: boolean;
+}
+
+export interface FittedContext {
+  messages: ChatMessage[];
+  report: ContextReport;
+}
+
+const SUMMARY_PREFIX = "Summary of the earlier conversation:\n";
+
+/**
+ * Keeps requests inside the model's context window. Each call's history is
+ * measured against the window minus the completion allowance and trimmed
+ * by the configured policy; the latest turn is always sent.
+ */
+export class ContextManagedAgent implements BaseAgent {
+  modelName: string;
+  temperature: number;
+  maxTokens: number;
+  chatWithTools?: (
+    messages: ChatMessage[],
+    tools: ToolDefinition[],
+    options?: ChatOptions,
+  ) => Promise<ToolChatResponse>;
+  chatJson?: (
+    messages: ChatMessage[],
+    schema: JsonSchema,
+    options?: ChatOptions,
+  ) => Promise<string>;
+
+  private agent: BaseAgent;
+  private policy: ContextPolicy;
+  private contextLimit: number;
+  private reserveTokens: number;
+  private isPinned: (message: ChatMessage) => boolean;
+  private countTokens: (message: ChatMessage) => number;
+  private summarizer: BaseAgent;
+  private onTrim?: (report: ContextReport) => void;
+  private lastReport?: ContextReport;
+  // The most recent summary and the messages it covers, extended in place
+  // as more history scrolls out instead of being rewritten from scratch
+  private rolling?: { covered: string[]; summary: string };
+
+  constructor(agent: BaseAgent, options: ContextWindowOptions = {}) {
+    this.agent = agent;
+    this.policy = options.policy || "keep-pinned";
+    this.contextLimit =
+      options.contextLimit ??
+      findContextLimit(agent.modelName) ??
+      DEFAULT_CONTEXT_LIMIT;
+    this.reserveTokens = options.reserveTokens ?? 0;
+    this.isPinned =
+      options.isPinned || ((message) => message.role === "system");
+    this.countTokens =
+      options.countTokens || ((message) => estimateMessageTokens([message]));
+    this.summarizer = options.summarizer || agent;
+    this.onTrim = options.onTrim;
+    this.modelName = agent.modelName;
+    this.temperature = agent.temperature;
+    this.maxTokens = agent.maxTokens;
+
+    const { chatWithTools, chatJson } = agent;
+    if (chatWithTools) {
+      this.chatWithTools = async (messages, tools, options) => {
+        const fitted = await this.fit(
+          messages,
+          options,
+          estimateTokens(JSON.stringify(tools)),
+        );
+        return chatWithTools.call(agent, fitted.messages, tools, options);
+      };
+    }
+    if (chatJson) {
+      this.chatJson = async (messages, schema, options) => {
+        const fitted = await this.fit(
+          messages,
+          options,
+          estimateTokens(JSON.stringify(schema)),
+        );
+        return chatJson.call(agent, fitted.messages, schema, options);
+      };
+    }
+  }
+
+  async chat(messages: ChatMessage[], options?: ChatOptions): Promise<string> {
+    const fitted = await this.fit(messages, options);
+    return this.agent.chat(fitted.messages, options);
+  }
+
+  async *stream(
+    messages: ChatMessage[],
+    options?: ChatOptions,
+  ): AsyncGenerator<string> {
+    const fitted = await this.fit(messages, options);
+    yield* this.agent.stream(fitted.messages, options);
+  }
+
+  getModelConfig(): ModelConfig {
+    return this.agent.getModelConfig();
+  }
+
+  getLastReport(): ContextReport | undefined {
+    return this.lastReport;
+  }
+
+  /**
+   * Trims `messages` to the window without calling the agent. `extraTokens`
+   * accounts for request parts outside the messages, such as tool schemas.
+   */
+  async fit(
+    messages: ChatMessage[],
+    options?: ChatOptions,
+    extraTokens = 0,
+  ): Promise<FittedContext> {
+    const budgetTokens =
+      this.contextLimit - this.maxTokens - this.reserveTokens - extraTokens;
+    const counts = messages.map((message) => this.countTokens(message));
+    const tokensBefore = sum(counts);
+    const report: ContextReport = {
+      policy: this.policy,
+      budgetTokens,
+      tokensBefore,
+      tokensAfter: tokensBefore,
+      elided: [],
+      overBudget: false,
+    };
+    if (tokensBefore <= budgetTokens) {
+      this.lastReport = report;
+      return { messages, report };
+    }
+
+    const units = groupToolExchanges(messages);
+    const latest = units[units.length - 1];
+    const droppable = units.filter(
+      (unit) =>
+        unit !== latest &&
+        (this.policy === "drop-oldest" ||
+          !unit.some((index) => this.isPinned(messages[index]))),
+    );
+    // Room for the summary has to be made before it is written
+    const summaryReserve =
+      this.policy === "summarize" ? this.summarizer.maxTokens : 0;
+
+    const elided = new Set<number>();
+    let remaining = tokensBefore + summaryReserve;
+    for (const unit of droppable) {
+      if (remaining <= budgetTokens) {
+        break;
+      }
+      for (const index of unit) {
+        elided.add(index);
+        remaining -= counts[index];
+      }
+    }
+
+    const kept: ChatMessage[] = [];
+    let summaryAt = -1;
+    messages.forEach((message, index) => {
+      if (!elided.has(index)) {
+        kept.push(message);
+      } else if (summaryAt < 0) {
+        summaryAt = kept.length;
+      }
+    });
+    report.elided = messages.filter((_, index) => elided.has(index));
+
+    if (this.policy === "summarize" && report.elided.length) {
+      report.summary = await this.summarize(report.elided, options);
+      kept.splice(summaryAt, 0, {
+        role: "system",
+        content: SUMMARY_PREFIX + report.summary,
+      });
+    }
+
+    report.tokensAfter = sum(kept.map((message) => this.countTokens(message)));
+    report.overBudget = report.tokensAfter > budgetTokens;
+    this.lastReport = report;
+    if (report.elided.length) {
+      this.onTrim?.(report);
+    }
+    return { messages: kept, report };
+  }
+
+  private async summarize(
+    elided: ChatMessage[],
+    options?: ChatOptions,
+  ): Promise<string> {
+    const keys = elided.map((message) => stableStringify(message));
+    const previous = this.rolling;
+    const extendsPrevious =
+      previous &&
+      previous.covered.length <= keys.length &&
+      previous.covered.every((key, index) => key === keys[index]);
+    if (extendsPrevious && previous.covered.length === keys.length) {
+      return previous.summary;
+    }
+
+    const fresh = extendsPrevious
+      ? elided.slice(previous.covered.length)
+      : elided;
+    const transcript = fresh.map(describeMessage).join("\n");
+    const summary = await this.summarizer.chat(
+      [
+        {
+          role: "system",
+          content:
+            "Summarize the earlier part of a conversation so it can continue without it. Keep names, facts, decisions, promises and open questions. Reply with the summary only.",
+        },
+        {
+          role: "user",
+          content: extendsPrevious
+            ? `Summary so far:\n${previous.summary}\n\nLater messages:\n${transcript}`
+            : transcript,
+        },
+      ],
+      options,
+    );
+    this.rolling = { covered: keys, summary: summary.trim() };
+    return this.rolling.summary;
+  }
+}
+
+/**
+ * Splits a conversation into units that can be dropped independently: an
+ * assistant tool call stays with the tool results that answer it, since
+ * providers reject either half on its own.
+ */
+function groupToolExchanges(messages: ChatMessage[]): number[][] {
+  const units: number[][] = [];
+  messages.forEach((message, index) => {
+    const current = units[units.length - 1];
+    const previous = current && messages[current[0]];
+    if (message.role === "tool" && previous?.toolCalls?.length) {
+      current.push(index);
+    } else {
+      units.push([index]);
+    }
+  });
+  return units;
+}
+
+function describeMessage(message: ChatMessage): string {
+  const text = messageText(message.content);
+  if (message.toolCalls?.length) {
+    const calls = message.toolCalls
+      .map((call) => `${call.name}(${JSON.stringify(call.arguments)})`)
+      .join(", ");
+    return `${message.role}: ${text ? `${text} ` : ""}[called ${calls}]`;
+  }
+  if (message.role === "tool") {
+    return `tool ${message.name || ""}: ${text}`;
+  }
+  return `${message.role}: ${text}`;
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
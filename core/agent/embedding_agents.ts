@@ -0,0 +1,502 @@
+import crypto from "crypto";
+import {
+  BedrockRuntimeClient,
+  InvokeModelCommand,
+} from "@aws-sdk/client-bedrock-runtime";
+import { GoogleGenerativeAI, TaskType } from "@google/generative-ai";
+import MistralClient from "@mistralai/mistralai";
+import { CohereClient } from "cohere-ai";
+import { Ollama } from "ollama";
+import { OpenAI } from "openai";
+import { runCancellable } from "./cancellation";
+import {
+  EmbeddingAgent,
+  EmbeddingConfig,
+  embedInBatches,
+  EmbeddingOptions,
+  EmbeddingResult,
+  findEmbeddingDimensions,
+  toEmbeddingResult,
+  trackEmbeddingUsage,
+} from "./embeddings";
+import { AgentConfigError } from "./errors";
+import { UsageListener } from "./usage";
+
+export type EmbeddingProvider =
+  | "openai"
+  | "cohere"
+  | "gemini"
+  | "mistral"
+  | "bedrock"
+  | "ollama"
+  | "mock";
+
+interface EmbeddingDefaults {
+  provider: EmbeddingProvider;
+  model: string;
+  batchSize: number;
+  /** The provider's own limit on texts per request */
+  maxBatchSize?: number;
+  /** Whether the model can shorten its vectors to `config.dimensions` */
+  resizable?: (model: string) => boolean;
+}
+
+/**
+ * Config handling and result packaging shared by the provider adapters. A
+ * `dimensions` the model cannot produce is rejected up front when the
+ * model's size is known, and on the first response otherwise.
+ */
+export abstract class ProviderEmbeddingAgent implements EmbeddingAgent {
+  modelName: string;
+  dimensions?: number;
+  protected provider: EmbeddingProvider;
+  protected normalize: boolean;
+  protected batchSize: number;
+  protected onUsage?: UsageListener;
+  private fixedDimensions?: number;
+
+  constructor(config: EmbeddingConfig, defaults: EmbeddingDefaults) {
+    this.provider = defaults.provider;
+    this.modelName = config.modelName || defaults.model;
+    const known = findEmbeddingDimensions(this.modelName);
+    if (
+      config.dimensions !== undefined &&
+      !defaults.resizable?.(this.modelName)
+    ) {
+      if (known !== undefined && known !== config.dimensions) {
+        throw new AgentConfigError(this.provider, [
+          `$.dimensions: ${this.modelName} always returns ${known} dimensions, not ${config.dimensions}`,
+        ]);
+      }
+      this.fixedDimensions = config.dimensions;
+    }
+    this.dimensions = config.dimensions ?? known;
+    this.normalize = config.normalize ?? false;
+    this.batchSize = Math.min(
+      config.batchSize ?? defaults.batchSize,
+      defaults.maxBatchSize ?? Infinity,
+    );
+    this.onUsage = config.onUsage;
+  }
+
+  abstract embed(
+    texts: string[],
+    options?: EmbeddingOptions,
+  ): Promise<EmbeddingResult>;
+
+  protected result(vectors: number[][]): EmbeddingResult {
+    const result = toEmbeddingResult(this.modelName, vectors, this.normalize);
+    if (
+      this.fixedDimensions !== undefined &&
+      result.dimensions &&
+      result.dimensions !== this.fixedDimensions
+    ) {
+      throw new AgentConfigError(this.provider, [
+        `$.dimensions: ${this.modelName} returned ${result.dimensions} dimensions, not ${this.fixedDimensions}`,
+      ]);
+    }
+    this.dimensions = result.dimensions || this.dimensions;
+    return result;
+  }
+}
+
+export class OpenAIEmbeddingAgent extends ProviderEmbeddingAgent {
+  private client: OpenAI;
+
+  constructor(config: EmbeddingConfig) {
+    super(config, {
+      provider: "openai",
+      model: "text-embedding-3-small",
+      batchSize: 2048,
+      maxBatchSize: 2048,
+      resizable: isOpenAIResizable,
+    });
+    this.client = new OpenAI({
+      apiKey: config.apiKey,
+      baseURL: config.baseUrl,
+    });
+  }
+
+  async embed(
+    texts: string[],
+    options?: EmbeddingOptions,
+  ): Promise<EmbeddingResult> {
+    return runCancellable("openai", options, async (call) => {
+      const usage = trackEmbeddingUsage(
+        "openai",
+        this.modelName,
+        texts,
+        this.onUsage,
+      );
+      let inputTokens = 0;
+      const vectors = await embedInBatches(
+        texts,
+        this.batchSize,
+        async (batch) => {
+          const response = await this.client.embeddings.create(
+            {
+              model: this.modelName,
+              input: batch,
+              ...(isOpenAIResizable(this.modelName)
+                ? { dimensions: this.dimensions }
+                : {}),
+            },
+            { signal: call.signal },
+          );
+          inputTokens += response.usage.prompt_tokens;
+          return [...response.data]
+            .sort((a, b) => a.index - b.index)
+            .map((item) => item.embedding);
+        },
+      );
+      usage.finish(inputTokens);
+      return this.result(vectors);
+    });
+  }
+}
+
+export class CohereEmbeddingAgent extends ProviderEmbeddingAgent {
+  private client: CohereClient;
+
+  constructor(config: EmbeddingConfig) {
+    super(config, {
+      provider: "cohere",
+      model: "embed-english-v3.0",
+      batchSize: 96,
+      maxBatchSize: 96,
+    });
+    this.client = new CohereClient({ token: config.apiKey });
+  }
+
+  async embed(
+    texts: string[],
+    options?: EmbeddingOptions,
+  ): Promise<EmbeddingResult> {
+    return runCancellable("cohere", options, async (call) => {
+      const usage = trackEmbeddingUsage(
+        "cohere",
+        this.modelName,
+        texts,
+        this.onUsage,
+      );
+      let inputTokens = 0;
+      const vectors = await embedInBatches(
+        texts,
+        this.batchSize,
+        async (batch) => {
+          const response = await this.client.embed(
+            {
+              texts: batch,
+              model: this.modelName,
+              // v3 models refuse requests without an input type
+              inputType:
+                options?.inputType === "query"
+                  ? "search_query"
+                  : "search_document",
+              embeddingTypes: ["float"],
+            },
+            { abortSignal: call.signal },
+          );
+          inputTokens += response.meta?.billedUnits?.inputTokens ?? 0;
+          return response.responseType === "embeddings_floats"
+            ? response.embeddings
+            : response.embeddings.float || [];
+        },
+      );
+      usage.finish(inputTokens || undefined);
+      return this.result(vectors);
+    });
+  }
+}
+
+export class GeminiEmbeddingAgent extends ProviderEmbeddingAgent {
+  private client: GoogleGenerativeAI;
+
+  constructor(config: EmbeddingConfig) {
+    super(config, {
+      provider: "gemini",
+      model: "text-embedding-004",
+      batchSize: 100,
+      maxBatchSize: 100,
+    });
+    this.client = new GoogleGenerativeAI(config.apiKey);
+  }
+
+  async embed(
+    texts: string[],
+    options?: EmbeddingOptions,
+  ): Promise<EmbeddingResult> {
+    return runCancellable("gemini", options, async (call) => {
+      const usage = trackEmbeddingUsage(
+        "gemini",
+        this.modelName,
+        texts,
+        this.onUsage,
+      );
+      const model = this.client.getGenerativeModel({ model: this.modelName });
+      const taskType =
+        options?.inputType === "query"
+          ? TaskType.RETRIEVAL_QUERY
+          : options?.inputType === "document"
+            ? TaskType.RETRIEVAL_DOCUMENT
+            : undefined;
+      const vectors = await embedInBatches(
+        texts,
+        this.batchSize,
+        async (batch) => {
+          const response = await model.batchEmbedContents(
+            {
+              requests: batch.map((text) => ({
+                content: { role: "user", parts: [{ text }] },
+                taskType,
+              })),
+            },
+            { signal: call.signal },
+          );
+          return response.embeddings.map((embedding) => embedding.values);
+        },
+      );
+      usage.finish();
+      return this.result(vectors);
+    });
+  }
+}
+
+export class MistralEmbeddingAgent extends ProviderEmbeddingAgent {
+  private client: MistralClient;
+
+  constructor(config: EmbeddingConfig) {
+    super(config, {
+      provider: "mistral",
+      model: "mistral-embed",
+      batchSize: 128,
+    });
+    this.client = new MistralClient(config.apiKey);
+  }
+
+  async embed(
+    texts: string[],
+    options?: EmbeddingOptions,
+  ): Promise<EmbeddingResult> {
+    return runCancellable("mistral", options, async (call) => {
+      const usage = trackEmbeddingUsage(
+        "mistral",
+        this.modelName,
+        texts,
+        this.onUsage,
+      );
+      let inputTokens = 0;
+      const vectors = await embedInBatches(
+        texts,
+        this.batchSize,
+        async (batch) => {
+          // The Mistral SDK takes no signal, so cancellation races the call
+          const response = await call.race(
+            this.client.embeddings({ model: this.modelName, input: batch }),
+          );
+          inputTokens += response.usage.prompt_tokens;
+          return response.data.map((item) => item.embedding);
+        },
+      );
+      usage.finish(inputTokens);
+      return this.result(vectors);
+    });
+  }
+}
+
+/**
+ * Titan models embed one text per request and can shorten and normalize
+ * their vectors themselves; Cohere models on Bedrock take batches.
+ */
+export class BedrockEmbeddingAgent extends ProviderEmbeddingAgent {
+  private client: BedrockRuntimeClient;
+
+  constructor(config: EmbeddingConfig) {
+    super(config, {
+      provider: "bedrock",
+      model: "amazon.titan-embed-text-v2:0",
+      batchSize: 96,
+      maxBatchSize: 96,
+      resizable: isTitanV2,
+    });
+    // Titan takes one text per request
+    if (!this.isCohere()) {
+      this.batchSize = 1;
+    }
+    this.client = new BedrockRuntimeClient({
+      credentials: {
+        accessKeyId: process.env.AWS_ACCESS_KEY_ID || "",
+        secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY || "",
+      },
+      region: process.env.AWS_REGION || "us-east-1",
+    });
+  }
+
+  async embed(
+    texts: string[],
+    options?: EmbeddingOptions,
+  ): Promise<EmbeddingResult> {
+    return runCancellable("bedrock", options, async (call) => {
+      const usage = trackEmbeddingUsage(
+        "bedrock",
+        this.modelName,
+        texts,
+        this.onUsage,
+      );
+      let inputTokens = 0;
+      const vectors = await embedInBatches(
+        texts,
+        this.batchSize,
+        async (batch) => {
+          const body = this.isCohere()
+            ? {
+                texts: batch,
+                input_type:
+                  options?.inputType === "query"
+                    ? "search_query"
+                    : "search_document",
+              }
+            : {
+                inputText: batch[0],
+                ...(isTitanV2(this.modelName)
+                  ? { dimensions: this.dimensions, normalize: this.normalize }
+                  : {}),
+              };
+          const response = await this.client.send(
+            new InvokeModelCommand({
+              modelId: this.modelName,
+              contentType: "application/json",
+              accept: "application/json",
+              body: JSON.stringify(body),
+            }),
+            { abortSignal: call.signal },
+          );
+          const parsed = JSON.parse(new TextDecoder().decode(response.body));
+          inputTokens += parsed.inputTextTokenCount ?? 0;
+          return this.isCohere() ? parsed.embeddings : [parsed.embedding];
+        },
+      );
+      usage.finish(inputTokens || undefined);
+      return this.result(vectors);
+    });
+  }
+
+  private isCohere(): boolean {
+    return this.modelName.startsWith("cohere.");
+  }
+}
+
+/** Local embeddings; mxbai-embed-large is what the memory system expects */
+export class OllamaEmbeddingAgent extends ProviderEmbeddingAgent {
+  private client: Ollama;
+
+  constructor(config: EmbeddingConfig) {
+    super(config, {
+      provider: "ollama",
+      model: "mxbai-embed-large",
+      batchSize: 256,
+    });
+    this.client = new Ollama({ host: config.baseUrl });
+  }
+
+  async embed(
+    texts: string[],
+    options?: EmbeddingOptions,
+  ): Promise<EmbeddingResult> {
+    return runCancellable("ollama", options, async (call) => {
+      const usage = trackEmbeddingUsage(
+        "ollama",
+        this.modelName,
+        texts,
+        this.onUsage,
+      );
+      let inputTokens = 0;
+      const vectors = await embedInBatches(
+        texts,
+        this.batchSize,
+        async (batch) => {
+          const response = await call.race(
+            this.client.embed({ model: this.modelName, input: batch }),
+          );
+          inputTokens += response.prompt_eval_count ?? 0;
+          return response.embeddings;
+        },
+      );
+      usage.finish(inputTokens || undefined);
+      return this.result(vectors);
+    });
+  }
+}
+
+/**
+ * Offline embeddings from hashed word counts: texts sharing words get
+ * similar vectors, which is enough to exercise retrieval without a model.
+ */
+export class MockEmbeddingAgent implements EmbeddingAgent {
+  modelName: string;
+  dimensions: number;
+  private normalize: boolean;
+
+  constructor(config: Partial<EmbeddingConfig> = {}) {
+    this.modelName = config.modelName || "mock-embed";
+    this.dimensions = config.dimensions ?? 256;
+    this.normalize = config.normalize ?? true;
+  }
+
+  async embed(
+    texts: string[],
+    options?: EmbeddingOptions,
+  ): Promise<EmbeddingResult> {
+    return runCancellable("mock", options, async () =>
+      toEmbeddingResult(
+        this.modelName,
+        texts.map((text) => this.vectorFor(text)),
+        this.normalize,
+      ),
+    );
+  }
+
+  private vectorFor(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []) {
+      const hash = crypto.createHash("md5").update(word).digest();
+      vector[hash.readUInt32LE(0) % this.dimensions] += 1;
+    }
+    return vector;
+  }
+}
+
+// Only the text-embedding-3 models accept a size
+function isOpenAIResizable(model: string): boolean {
+  return model.startsWith("text-embedding-3");
+}
+
+function isTitanV2(model: string): boolean {
+  return model.startsWith("amazon.titan-embed-text-v2");
+}
+
+export class EmbeddingFactory {
+  static createEmbeddingAgent(
+    type: EmbeddingProvider,
+    config: EmbeddingConfig,
+  ): EmbeddingAgent {
+    switch (type) {
+      case "openai":
+        return new OpenAIEmbeddingAgent(config);
+      case "cohere":
+        return new CohereEmbeddingAgent(config);
+      case "gemini":
+        return new GeminiEmbeddingAgent(config);
+      case "mistral":
+        return new MistralEmbeddingAgent(config);
+      case "bedrock":
+        return new BedrockEmbeddingAgent(config);
+      case "ollama":
+        return new OllamaEmbeddingAgent(config);
+      case "mock":
+        return new MockEmbeddingAgent(config);
+      default:
+        throw new Error(`Unknown embedding provider: ${type}`);
+    }
+  }
+}
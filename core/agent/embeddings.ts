@@ -0,0 +1,168 @@
+import { ChatOptions } from "./base_agent";
+import { findByModel } from "./model_lookup";
+import { trackUsage, UsageListener } from "./usage";
+
+/**
+ * Retrieval models embed questions and stored passages differently; use
+ * "query" for search text and "document" for what is being searched.
+ */
+export type EmbeddingInputType = "query" | "document";
+
+export interface EmbeddingOptions extends ChatOptions {
+  inputType?: EmbeddingInputType;
+}
+
+export interface EmbeddingConfig {
+  modelName: string;
+  apiKey: string;
+  baseUrl?: string;
+  /**
+   * Requested vector size. Models that cannot shorten their output reject
+   * any size other than their own.
+   */
+  dimensions?: number;
+  /** Scale vectors to unit length, so a dot product is cosine similarity */
+  normalize?: boolean;
+  /** Texts per provider request; capped at the provider's own limit */
+  batchSize?: number;
+  onUsage?: UsageListener;
+}
+
+export interface EmbeddingResult {
+  vectors: number[][];
+  model: string;
+  dimensions: number;
+  normalized: boolean;
+}
+
+export interface EmbeddingAgent {
+  modelName: string;
+  /** Vector size, known up front for listed models and after the first call otherwise */
+  dimensions?: number;
+  embed(texts: string[], options?: EmbeddingOptions): Promise<EmbeddingResult>;
+}
+
+/**
+ * Output sizes of common embedding models, looked up by model family like
+ * MODEL_PRICING.
+ */
+export const EMBEDDING_DIMENSIONS: Record<string, number> = {
+  // OpenAI
+  "text-embedding-3-small": 1536,
+  "text-embedding-3-large": 3072,
+  "text-embedding-ada-002": 1536,
+  // Cohere
+  "embed-english-v3.0": 1024,
+  "embed-multilingual-v3.0": 1024,
+  "embed-english-light-v3.0": 384,
+  "embed-multilingual-light-v3.0": 384,
+  // Google
+  "text-embedding-004": 768,
+  "embedding-001": 768,
+  // Mistral
+  "mistral-embed": 1024,
+  // Bedrock
+  "amazon.titan-embed-text-v2": 1024,
+  "amazon.titan-embed-text-v1": 1536,
+  "cohere.embed-english-v3": 1024,
+  "cohere.embed-multilingual-v3": 1024,
+  // Ollama
+  "mxbai-embed-large": 1024,
+  "nomic-embed-text": 768,
+  "all-minilm": 384,
+};
+
+export function findEmbeddingDimensions(
+  model: string,
+  dimensions: Record<string, number> = EMBEDDING_DIMENSIONS,
+): number | undefined {
+  return findByModel(model, dimensions);
+}
+
+export function normalizeVector(vector: number[]): number[] {
+  const length = Math.sqrt(vector.reduce((sum, x) => sum + x * x, 0));
+  return length ? vector.map((x) => x / length) : vector;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) {
+    throw new Error(
+      `Cannot compare vectors of ${a.length} and ${b.length} dimensions`,
+    );
+  }
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Splits `texts` into provider-sized requests run one after another, then
+ * checks the vectors line up with the input and share one size.
+ */
+export async function embedInBatches(
+  texts: string[],
+  batchSize: number,
+  request: (batch: string[]) => Promise<number[][]>,
+): Promise<number[][]> {
+  const vectors: number[][] = [];
+  for (let start = 0; start < texts.length; start += batchSize) {
+    const batch = texts.slice(start, start + batchSize);
+    const batchVectors = await request(batch);
+    if (batchVectors.length !== batch.length) {
+      throw new Error(
+        `Expected ${batch.length} embeddings, received ${batchVectors.length}`,
+      );
+    }
+    vectors.push(...batchVectors);
+  }
+  const sizes = new Set(vectors.map((vector) => vector.length));
+  if (sizes.size > 1) {
+    throw new Error(`Embeddings have mixed sizes: ${[...sizes].join(", ")}`);
+  }
+  return vectors;
+}
+
+/** Normalizes if asked and packages vectors with their metadata */
+export function toEmbeddingResult(
+  model: string,
+  vectors: number[][],
+  normalize: boolean,
+): EmbeddingResult {
+  return {
+    vectors: normalize ? vectors.map(normalizeVector) : vectors,
+    model,
+    dimensions: vectors[0]?.length ?? 0,
+    normalized: normalize,
+  };
+}
+
+/** Usage tracking for an embedding call, which has no output tokens */
+export function trackEmbeddingUsage(
+  provider: string,
+  model: string,
+  texts: string[],
+  listener: UsageListener | undefined,
+): { finish(inputTokens?: number): void } {
+  const usage = trackUsage(
+    provider,
+    model,
+    texts.map((text) => ({ role: "user", content: text })),
+    listener,
+  );
+  return {
+    finish(inputTokens) {
+      usage.finish(
+        inputTokens === undefined
+          ? undefined
+          : { inputTokens, outputTokens: 0 },
+        "",
+      );
+    },
+  };
+}
@@ -0,0 +1,348 @@
+import { BaseAgent, ChatMessage, ChatOptions, ModelConfig } from "./base_agent";
+import { runCancellable } from "./cancellation";
+import { messageText } from "./content_parts";
+import { AgentTimeoutError, errorMessage } from "./errors";
+import { JsonSchema } from "./json_schema";
+import { stableStringify } from "./request_key";
+import { chatStructured, extractJson } from "./structured_output";
+
+export type EnsembleStrategy = "vote" | "judge" | "synthesize";
+
+export interface EnsembleMember {
+  name: string;
+  agent: BaseAgent;
+  /** Counts this many votes under majority vote */
+  weight?: number;
+}
+
+export interface EnsembleCandidate {
+  member: string;
+  content?: string;
+  error?: string;
+  timedOut: boolean;
+  latencyMs: number;
+}
+
+export interface EnsembleResult {
+  strategy: EnsembleStrategy;
+  /** Winning member, or "synthesis" when the answer was merged */
+  winner: string;
+  content: string;
+  candidates: EnsembleCandidate[];
+  votes?: Record<string, number>;
+  reason?: string;
+  timestamp: Date;
+}
+
+export interface EnsembleOptions {
+  strategy?: EnsembleStrategy;
+  /** Picks the best candidate ("judge") or merges them ("synthesize") */
+  judge?: BaseAgent;
+  memberTimeoutMs?: number;
+  maxResultLog?: number;
+  onResult?: (result: EnsembleResult) => void;
+}
+
+const JUDGE_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    choice: { type: "integer", description: "Number of the best candidate" },
+    reason: { type: "string" },
+  },
+  required: ["choice", "reason"],
+};
+
+/**
+ * DAMN ensembling: fans each request out to several agents and combines
+ * their answers by majority vote, a judge's pick or a synthesized merge.
+ */
+export class EnsembleAgent implements BaseAgent {
+  modelName: string;
+  temperature: number;
+  maxTokens: number;
+
+  private members: EnsembleMember[];
+  private strategy: EnsembleStrategy;
+  private judge?: BaseAgent;
+  private memberTimeoutMs: number;
+  private maxResultLog: number;
+  private onResult?: (result: EnsembleResult) => void;
+  private results: EnsembleResult[] = [];
+
+  constructor(members: EnsembleMember[], options: EnsembleOptions = {}) {
+    if (members.length === 0) {
+      throw new Error("EnsembleAgent requires at least one member");
+    }
+    this.members = members;
+    this.strategy = options.strategy || "vote";
+    this.judge = options.judge;
+    if (this.strategy !== "vote" && !this.judge) {
+      throw new Error(`The ${this.strategy} strategy requires a judge agent`);
+    }
+    this.memberTimeoutMs = options.memberTimeoutMs ?? 30_000;
+    this.maxResultLog = options.maxResultLog ?? 100;
+    this.onResult = options.onResult;
+
+    this.modelName = "ensemble";
+    this.temperature = members[0].agent.temperature;
+    this.maxTokens = members[0].agent.maxTokens;
+  }
+
+  async chat(messages: ChatMessage[], options?: ChatOptions): Promise<string> {
+    return runCancellable("ensemble", options, async ({ signal }) => {
+      const candidates = await this.fanOut(signal, (agent, memberOptions) =>
+        agent.chat(messages, memberOptions),
+      );
+      return (await this.combine(messages, candidates, signal)).content;
+    });
+  }
+
+  /**
+   * Answers cannot be combined before every member has finished, so the
+   * combined answer arrives as a single chunk.
+   */
+  async *stream(
+    messages: ChatMessage[],
+    options?: ChatOptions,
+  ): AsyncGenerator<string> {
+    yield await this.chat(messages, options);
+  }
+
+  /** Members answer through structured output, so votes compare values */
+  async chatJson(
+    messages: ChatMessage[],
+    schema: JsonSchema,
+    options?: ChatOptions,
+  ): Promise<string> {
+    return runCancellable("ensemble", options, async ({ signal }) => {
+      const candidates = await this.fanOut(
+        signal,
+        async (agent, memberOptions) =>
+          JSON.stringify(
+            await chatStructured(agent, messages, schema, memberOptions),
+          ),
+      );
+      return (await this.combine(messages, candidates, signal)).content;
+    });
+  }
+
+  getModelConfig(): ModelConfig {
+    return {
+      modelName: this.modelName,
+      temperature: this.temperature,
+      maxTokens: this.maxTokens,
+      apiKey: "",
+    };
+  }
+
+  getResults(): EnsembleResult[] {
+    return [...this.results];
+  }
+
+  /**
+   * Cancelling the ensemble cancels every member; a member running past its
+   * own timeout is recorded as timed out and the others still count.
+   */
+  private async fanOut(
+    signal: AbortSignal,
+    call: (agent: BaseAgent, options: ChatOptions) => Promise<string>,
+  ): Promise<EnsembleCandidate[]> {
+    return Promise.all(
+      this.members.map(async (member) => {
+        const startedAt = Date.now();
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        const timeout = new Promise<never>((_, reject) => {
+          timer = setTimeout(
+            () => reject(new MemberTimeout()),
+            this.memberTimeoutMs,
+          );
+        });
+        try {
+          const content = await Promise.race([
+            call(member.agent, { signal, timeoutMs: this.memberTimeoutMs }),
+            timeout,
+          ]);
+          return {
+            member: member.name,
+            content,
+            timedOut: false,
+            latencyMs: Date.now() - startedAt,
+          };
+        } catch (error) {
+          if (signal.aborted) {
+            throw error;
+          }
+          const timedOut =
+            error instanceof MemberTimeout ||
+            error instanceof AgentTimeoutError;
+          return {
+            member: member.name,
+            error: timedOut
+              ? `timed out after ${this.memberTimeoutMs}ms`
+              : errorMessage(error),
+            timedOut,
+            latencyMs: Date.now() - startedAt,
+          };
+        } finally {
+          clearTimeout(timer);
+        }
+      }),
+    );
+  }
+
+  private async combine(
+    messages: ChatMessage[],
+    candidates: EnsembleCandidate[],
+    signal: AbortSignal,
+  ): Promise<EnsembleResult> {
+    const answered = candidates.filter((c) => c.content !== undefined);
+    if (answered.length === 0) {
+      throw new Error(
+        `No ensemble member answered: ${candidates
+          .map((c) => `${c.member}: ${c.error}`)
+          .join("; ")}`,
+      );
+    }
+
+    let result: Omit<EnsembleResult, "strategy" | "candidates" | "timestamp">;
+    if (answered.length === 1) {
+      result = {
+        winner: answered[0].member,
+        content: answered[0].content!,
+        reason: "only one member answered",
+      };
+    } else if (this.strategy === "judge") {
+      result = await this.judgeBest(messages, answered, signal);
+    } else if (this.strategy === "synthesize") {
+      result = await this.synthesize(messages, answered, signal);
+    } else {
+      result = this.majorityVote(answered);
+    }
+
+    const record: EnsembleResult = {
+      strategy: this.strategy,
+      candidates,
+      timestamp: new Date(),
+      ...result,
+    };
+    this.results.push(record);
+    if (this.results.length > this.maxResultLog) {
+      this.results.shift();
+    }
+    this.onResult?.(record);
+    return record;
+  }
+
+  /**
+   * Groups equivalent answers (equal JSON values, or equal text ignoring
+   * case and whitespace) and picks the group with the most weight. Ties go
+   * to the member listed first.
+   */
+  private majorityVote(answered: EnsembleCandidate[]) {
+    const groups = new Map<string, EnsembleCandidate[]>();
+    for (const candidate of answered) {
+      const key = voteKey(candidate.content!);
+      groups.set(key, [...(groups.get(key) || []), candidate]);
+    }
+
+    const weightOf = (candidate: EnsembleCandidate) =>
+      this.members.find((m) => m.name === candidate.member)?.weight ?? 1;
+    const votes: Record<string, number> = {};
+    let best: EnsembleCandidate[] = [];
+    let bestVotes = -1;
+    for (const group of groups.values()) {
+      const total = group.reduce((sum, c) => sum + weightOf(c), 0);
+      for (const candidate of group) {
+        votes[candidate.member] = total;
+      }
+      if (total > bestVotes) {
+        best = group;
+        bestVotes = total;
+      }
+    }
+
+    return {
+      winner: best[0].member,
+      content: best[0].content!,
+      votes,
+      reason: `${bestVotes} vote(s) for the answer from ${best
+        .map((c) => c.member)
+        .join(", ")}`,
+    };
+  }
+
+  private async judgeBest(
+    messages: ChatMessage[],
+    answered: EnsembleCandidate[],
+    signal: AbortSignal,
+  ) {
+    const verdict = await chatStructured<{ choice: number; reason: string }>(
+      this.judge!,
+      [
+        {
+          role: "system",
+          content:
+            "You are judging candidate answers to the conversation below. Pick the candidate that best answers the last message.",
+        },
+        { role: "user", content: describeRequest(messages, answered) },
+      ],
+      JUDGE_SCHEMA,
+      { signal },
+    );
+    const index = verdict.choice - 1;
+    if (index < 0 || index >= answered.length) {
+      throw new Error(`Judge picked unknown candidate ${verdict.choice}`);
+    }
+    return {
+      winner: answered[index].member,
+      content: answered[index].content!,
+      reason: verdict.reason,
+    };
+  }
+
+  private async synthesize(
+    messages: ChatMessage[],
+    answered: EnsembleCandidate[],
+    signal: AbortSignal,
+  ) {
+    const content = await this.judge!.chat(
+      [
+        {
+          role: "system",
+          content:
+            "Merge the candidate answers below into one answer to the last message of the conversation. Keep what they agree on, resolve conflicts, and reply with the merged answer only.",
+        },
+        { role: "user", content: describeRequest(messages, answered) },
+      ],
+      { signal },
+    );
+    return {
+      winner: "synthesis",
+      content,
+      reason: `merged ${answered.length} candidates`,
+    };
+  }
+}
+
+class MemberTimeout extends Error {}
+
+function voteKey(content: string): string {
+  try {
+    return stableStringify(JSON.parse(extractJson(content)));
+  } catch {
+    return content.replace(/\s+/g, " ").trim().toLowerCase();
+  }
+}
+
+function describeRequest(
+  messages: ChatMessage[],
+  answered: EnsembleCandidate[],
+): string {
+  const conversation = messages
+    .map((msg) => `${msg.role}: ${messageText(msg.content)}`)
+    .join("\n");
+  const candidates = answered
+    .map((c, i) => `Candidate ${i + 1}:\n${c.content}`)
+    .join("\n\n");
+  return `Conversation:\n${conversation}\n\n${candidates}`;
+}
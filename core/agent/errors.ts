@@ -0,0 +1,200 @@
+export class AgentError extends Error {
+  readonly cause?: unknown;
+
+  constructor(message: string, cause?: unknown) {
+    super(message);
+    this.name = new.target.name;
+    this.cause = cause;
+  }
+}
+
+/**
+ * Raised when a stream fails after some chunks were already delivered, so
+ * the caller knows the text it holds is incomplete.
+ */
+export class StreamInterruptedError extends AgentError {
+  readonly partialText: string;
+  readonly chunksReceived: number;
+  readonly provider: string;
+
+  constructor(
+    provider: string,
+    partialText: string,
+    chunksReceived: number,
+    cause: unknown,
+  ) {
+    super(
+      `Stream from ${provider} failed after ${chunksReceived} chunk(s): ${errorMessage(cause)}`,
+      cause,
+    );
+    this.provider = provider;
+    this.partialText = partialText;
+    this.chunksReceived = chunksReceived;
+  }
+}
+
+export class CircuitOpenError extends AgentError {
+  readonly provider: string;
+  readonly retryAt: Date;
+
+  constructor(provider: string, retryAt: Date) {
+    super(`Circuit for ${provider} is open until ${retryAt.toISOString()}`);
+    this.provider = provider;
+    this.retryAt = retryAt;
+  }
+}
+
+export class AllAgentsFailedError extends AgentError {
+  readonly failures: Array<{ provider: string; error: unknown }>;
+
+  constructor(failures: Array<{ provider: string; error: unknown }>) {
+    super(
+      `All agents failed: ${failures
+        .map((f) => `${f.provider}: ${errorMessage(f.error)}`)
+        .join("; ")}`,
+      failures[failures.length - 1]?.error,
+    );
+    this.failures = failures;
+  }
+}
+
+export function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Raised when a structured response could not be parsed or did not match
+ * its schema, even after repair attempts.
+ */
+export class StructuredOutputError extends AgentError {
+  readonly kind: "parse" | "validation";
+  readonly issues: string[];
+  readonly rawOutput: string;
+  readonly attempts: number;
+
+  constructor(
+    kind: "parse" | "validation",
+    issues: string[],
+    rawOutput: string,
+    attempts: number,
+  ) {
+    super(
+      `Structured output ${kind} failed after ${attempts} attempt(s): ${issues.join("; ")}`,
+    );
+    this.kind = kind;
+    this.issues = issues;
+    this.rawOutput = rawOutput;
+    this.attempts = attempts;
+  }
+}
+
+/**
+ * Raised before a call is sent when the agent, session or world it is
+ * charged to has used up its configured budget.
+ */
+export class BudgetExceededError extends AgentError {
+  readonly scope: string;
+  readonly limit: string;
+
+  constructor(scope: string, limit: string) {
+    super(`Budget for ${scope} exhausted: ${limit}`);
+    this.scope = scope;
+    this.limit = limit;
+  }
+}
+
+export class CassetteMissError extends AgentError {
+  readonly method: string;
+  readonly key: string;
+
+  constructor(method: string, key: string, detail: string) {
+    super(`No recorded ${method} call matches request ${key}: ${detail}`);
+    this.method = method;
+    this.key = key;
+  }
+}
+
+/**
+ * Raised before a request is sent when a message carries content the
+ * provider (or this adapter for it) cannot deliver, such as an image sent to
+ * a text-only model.
+ */
+export class UnsupportedContentError extends AgentError {
+  readonly provider: string;
+  readonly partType: string;
+
+  constructor(provider: string, partType: string, detail?: string) {
+    super(
+      `${provider} does not support ${partType} content${detail ? ` (${detail})` : ""}`,
+    );
+    this.provider = provider;
+    this.partType = partType;
+  }
+}
+
+/**
+ * Raised when a call is stopped through its abort signal, in place of
+ * whatever abort error the provider SDK threw.
+ */
+export class AgentCancelledError extends AgentError {
+  readonly provider: string;
+
+  constructor(provider: string, message?: string, cause?: unknown) {
+    super(message || `Call to ${provider} was cancelled`, cause);
+    this.provider = provider;
+  }
+}
+
+/**
+ * Raised when a call runs past its `timeoutMs`. Unlike a cancellation the
+ * caller still wants an answer, so wrappers may fail over to another agent.
+ */
+export class AgentTimeoutError extends AgentError {
+  readonly provider: string;
+  readonly timeoutMs: number;
+
+  constructor(provider: string, timeoutMs: number) {
+    super(`Call to ${provider} timed out after ${timeoutMs}ms`);
+    this.provider = provider;
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+export class UnknownProviderError extends AgentError {
+  readonly provider: string;
+
+  constructor(provider: string, known: string[]) {
+    super(
+      `Unknown agent provider "${provider}" (registered: ${known.join(", ") || "none"})`,
+    );
+    this.provider = provider;
+  }
+}
+
+/**
+ * Raised when a declarative agent config fails validation, before any SDK
+ * client has been constructed.
+ */
+export class AgentConfigError extends AgentError {
+  readonly provider: string;
+  readonly issues: string[];
+
+  constructor(provider: string, issues: string[]) {
+    super(`Invalid config for ${provider} agent: ${issues.join("; ")}`);
+    this.provider = provider;
+    this.issues = issues;
+  }
+}
+
+/**
+ * Raised when a required routing rule, such as a cost ceiling or latency
+ * budget, rules out every route for a request.
+ */
+export class NoRouteError extends AgentError {
+  readonly rule: string;
+
+  constructor(rule: string, reason: string) {
+    super(`No route satisfies the ${rule} rule: ${reason}`);
+    this.rule = rule;
+  }
+}
@@ -1,51 +1,355 @@
-import { GoogleGenerativeAI } from "@google/generative-ai";
-import { BaseAgent, ChatMessage, ModelConfig } from "./base_agent";
+import {
+  FunctionDeclarationSchema,
+  GoogleGenerativeAI,
+  Schema,
+  SchemaType,
+} from "@google/generative-ai";
+import {
+  BaseAgent,
+  ChatMessage,
+  ChatOptions,
+  ContentPart,
+  FinishReason,
+  ModelConfig,
+  StreamEvent,
+  StreamEventOptions,
+  ToolCall,
+  ToolChatResponse,
+  ToolDefinition,
+} from "./base_agent";
+import { beginCall, iterateCancellable, runCancellable } from "./cancellation";
+import { imageData, mediaMimeType, messageText } from "./content_parts";
+import { UnsupportedContentError } from "./errors";
+import { JsonSchema } from "./json_schema";
+import {
+  GEMINI_MESSAGE_RULES,
+  groupTurns,
+  normalizeMessages,
+} from "./message_format";
+import { textFromEvents, ToolCallAccumulator } from "./stream_events";
+import { ReportedUsage, trackUsage, UsageListener } from "./usage";
+
+type GeminiPart =
+  | { text: string }
+  | { inlineData: { mimeType: string; data: string } }
+  | { fileData: { mimeType: string; fileUri: string } }
+  | { functionCall: { name: string; args: Record<string, unknown> } }
+  | {
+      functionResponse: { name: string; response: Record<string, unknown> };
+    };
+
+interface GeminiTool {
+  functionDeclarations: Array<{
+    name: string;
+    description: string;
+    parameters: FunctionDeclarationSchema;
+  }>;
+}
+
+interface GeminiContent {
+  role: "user" | "model" | "function";
+  parts: GeminiPart[];
+}
 
 export class GeminiAgent implements BaseAgent {
   private client: GoogleGenerativeAI;
   modelName: string;
   temperature: number;
   maxTokens: number;
+  private onUsage?: UsageListener;
 
   constructor(config: ModelConfig) {
     this.client = new GoogleGenerativeAI(config.apiKey);
     this.modelName = config.modelName;
     this.temperature = config.temperature;
     this.maxTokens = config.maxTokens;
+    this.onUsage = config.onUsage;
   }
 
-  async chat(messages: ChatMessage[]): Promise<string> {
-    const model = this.client.getGenerativeModel({ model: this.modelName });
-    const chat = model.startChat({
-      generationConfig: {
-        temperature: this.temperature,
-        maxOutputTokens: this.maxTokens,
-      },
+  async chat(messages: ChatMessage[], options?: ChatOptions): Promise<string> {
+    return runCancellable("gemini", options, async (call) => {
+      const usage = trackUsage(
+        "gemini",
+        this.modelName,
+        messages,
+        this.onUsage,
+      );
+      const request = this.formatRequest(messages);
+      const result = await this.getModel(request.system).generateContent(
+        {
+          contents: request.contents,
+          generationConfig: this.getGenerationConfig(),
+        },
+        { signal: call.signal },
+      );
+      const content = result.response.text();
+      usage.finish(this.usageOf(result.response), content);
+      return content;
     });
+  }
 
-    const result = await chat.sendMessage(this.formatMessages(messages));
-    return result.response.text();
+  async *stream(
+    messages: ChatMessage[],
+    options?: ChatOptions,
+  ): AsyncGenerator<string> {
+    yield* textFromEvents(this.streamEvents(messages, options));
   }
 
-  async *stream(messages: ChatMessage[]): AsyncGenerator<string> {
-    const model = this.client.getGenerativeModel({ model: this.modelName });
-    const chat = model.startChat({
-      generationConfig: {
-        temperature: this.temperature,
-        maxOutputTokens: this.maxTokens,
-      },
+  async *streamEvents(
+    messages: ChatMessage[],
+    options: StreamEventOptions = {},
+  ): AsyncGenerator<StreamEvent> {
+    const call = beginCall("gemini", options);
+    try {
+      const usage = trackUsage(
+        "gemini",
+        this.modelName,
+        messages,
+        this.onUsage,
+      );
+      const request = this.formatRequest(messages);
+      const model = this.getModel(
+        request.system,
+        options.tools?.length ? this.formatTools(options.tools) : undefined,
+      );
+      const result = await model.generateContentStream(
+        {
+          contents: request.contents,
+          generationConfig: this.getGenerationConfig(),
+        },
+        { signal: call.signal },
+      );
+      let content = "";
+      let reported: ReportedUsage | undefined;
+      let finishReason: FinishReason = "other";
+      const toolCalls = new ToolCallAccumulator();
+      for await (const chunk of iterateCancellable(result.stream, call)) {
+        if (chunk.usageMetadata) {
+          reported = this.usageOf(chunk);
+        }
+        const candidate = chunk.candidates?.[0];
+        for (const part of (candidate?.content?.parts || []) as GeminiPart[]) {
+          if ("text" in part) {
+            content += part.text;
+            yield { type: "text", text: part.text };
+          } else if ("functionCall" in part) {
+            const index = toolCalls.size;
+            yield* toolCalls.complete(index, {
+              id: `${part.functionCall.name}-${index}`,
+              name: part.functionCall.name,
+              arguments: part.functionCall.args || {},
+            });
+          }
+        }
+        if (candidate?.finishReason) {
+          finishReason = geminiFinishReason(candidate.finishReason);
+        }
+      }
+      yield { type: "usage", usage: usage.finish(reported, content) };
+      // Gemini reports STOP even when the reply is a function call
+      yield {
+        type: "finish",
+        reason:
+          toolCalls.size && finishReason === "stop"
+            ? "tool_calls"
+            : finishReason,
+      };
+    } catch (error) {
+      yield { type: "error", error: call.wrapError(error) };
+    } finally {
+      call.dispose();
+    }
+  }
+
+  async chatWithTools(
+    messages: ChatMessage[],
+    tools: ToolDefinition[],
+    options?: ChatOptions,
+  ): Promise<ToolChatResponse> {
+    return runCancellable("gemini", options, async (call) => {
+      const usage = trackUsage(
+        "gemini",
+        this.modelName,
+        messages,
+        this.onUsage,
+      );
+      const request = this.formatRequest(messages);
+      const model = this.getModel(request.system, this.formatTools(tools));
+
+      const result = await model.generateContent(
+        {
+          contents: request.contents,
+          generationConfig: this.getGenerationConfig(),
+        },
+        { signal: call.signal },
+      );
+
+      const parts = (result.response.candidates?.[0]?.content?.parts ||
+        []) as GeminiPart[];
+      const toolCalls: ToolCall[] = [];
+      let content = "";
+      for (const part of parts) {
+        if ("text" in part) {
+          content += part.text;
+        } else if ("functionCall" in part) {
+          toolCalls.push({
+            id: `${part.functionCall.name}-${toolCalls.length}`,
+            name: part.functionCall.name,
+            arguments: part.functionCall.args || {},
+          });
+        }
+      }
+      usage.finish(this.usageOf(result.response), content);
+      return { content, toolCalls };
     });
+  }
 
-    const result = await chat.sendMessage(this.formatMessages(messages), {
-      stream: true,
+  async chatJson(
+    messages: ChatMessage[],
+    schema: JsonSchema,
+    options?: ChatOptions,
+  ): Promise<string> {
+    return runCancellable("gemini", options, async (call) => {
+      const usage = trackUsage(
+        "gemini",
+        this.modelName,
+        messages,
+        this.onUsage,
+      );
+      const request = this.formatRequest(messages);
+      const result = await this.getModel(request.system).generateContent(
+        {
+          contents: request.contents,
+          generationConfig: {
+            ...this.getGenerationConfig(),
+            responseMimeType: "application/json",
+            responseSchema: geminiSchema(schema),
+          },
+        },
+        { signal: call.signal },
+      );
+      const content = result.response.text();
+      usage.finish(this.usageOf(result.response), content);
+      return content;
     });
-    for await (const chunk of result.stream) {
-      yield chunk.text();
+  }
+
+  private usageOf(response: {
+    usageMetadata?: {
+      promptTokenCount?: number;
+      candidatesTokenCount?: number;
+    };
+  }): ReportedUsage {
+    return {
+      inputTokens: response.usageMetadata?.promptTokenCount,
+      outputTokens: response.usageMetadata?.candidatesTokenCount,
+    };
+  }
+
+  private formatTools(tools: ToolDefinition[]): GeminiTool[] {
+    return [
+      {
+        functionDeclarations: tools.map((tool) => {
+          const parameters = geminiSchema(tool.parameters);
+          return {
+            name: tool.name,
+            description: tool.description,
+            parameters: {
+              ...parameters,
+              type: SchemaType.OBJECT,
+              properties: parameters.properties || {},
+            },
+          };
+        }),
+      },
+    ];
+  }
+
+  private getModel(system: string, tools?: GeminiTool[]) {
+    return this.client.getGenerativeModel({
+      model: this.modelName,
+      systemInstruction: system || undefined,
+      tools,
+    });
+  }
+
+  private getGenerationConfig() {
+    return {
+      temperature: this.temperature,
+      maxOutputTokens: this.maxTokens,
+    };
+  }
+
+  private formatRequest(messages: ChatMessage[]): {
+    system: string;
+    contents: GeminiContent[];
+  } {
+    const normalized = normalizeMessages(messages, GEMINI_MESSAGE_RULES);
+    return {
+      system: normalized.system,
+      contents: groupTurns(normalized.messages).map((turn) =>
+        this.formatTurn(turn),
+      ),
+    };
+  }
+
+  private formatTurn(turn: ChatMessage[]): GeminiContent {
+    const parts: GeminiPart[] = [];
+    for (const msg of turn) {
+      if (msg.role === "tool") {
+        parts.push({
+          functionResponse: {
+            name: msg.name || "",
+            response: { content: messageText(msg.content) },
+          },
+        });
+        continue;
+      }
+      if (typeof msg.content === "string") {
+        if (msg.content) {
+          parts.push({ text: msg.content });
+        }
+      } else {
+        parts.push(...msg.content.map((part) => this.formatPart(part)));
+      }
+      for (const call of msg.toolCalls || []) {
+        parts.push({ functionCall: { name: call.name, args: call.arguments } });
+      }
     }
+
+    if (turn[0].role === "assistant") {
+      return { role: "model", parts };
+    }
+    return {
+      role: turn.every((msg) => msg.role === "tool") ? "function" : "user",
+      parts,
+    };
   }
 
-  private formatMessages(messages: ChatMessage[]): string {
-    return messages.map((msg) => msg.content).join("\n");
+  /**
+   * Inline images are sent as data; URLs and file references go by URI,
+   * which Gemini accepts for gs:// and File API uploads.
+   */
+  private formatPart(part: ContentPart): GeminiPart {
+    if (part.type === "text") {
+      return { text: part.text };
+    }
+    if (part.type === "image") {
+      const inline = imageData(part);
+      if (inline) {
+        return { inlineData: inline };
+      }
+    }
+    const fileUri = part.type === "image" ? part.url : part.uri;
+    const mimeType = mediaMimeType(part);
+    if (!fileUri || !mimeType) {
+      throw new UnsupportedContentError(
+        "gemini",
+        part.type,
+        "a mimeType is required for file references",
+      );
+    }
+    return { fileData: { mimeType, fileUri } };
   }
 
   getModelConfig(): ModelConfig {
@@ -57,3 +361,53 @@ export class GeminiAgent implements BaseAgent {
     };
   }
 }
+
+/**
+ * Gemini takes an OpenAPI-style subset of JSON Schema: one type per node,
+ * `nullable` instead of a "null" type, string enums only, and no
+ * additionalProperties.
+ */
+function geminiSchema(schema: JsonSchema): Schema {
+  const types = Array.isArray(schema.type)
+    ? schema.type
+    : schema.type
+      ? [schema.type]
+      : [];
+  const type = types.find((option) => option !== "null");
+  return {
+    ...(type && { type: type as SchemaType }),
+    ...(types.includes("null") && { nullable: true }),
+    ...(schema.description && { description: schema.description }),
+    ...(schema.enum &&
+      type === "string" && {
+        enum: schema.enum.filter((option) => option !== null).map(String),
+      }),
+    ...(schema.properties && {
+      properties: Object.fromEntries(
+        Object.entries(schema.properties).map(([key, property]) => [
+          key,
+          geminiSchema(property),
+        ]),
+      ),
+    }),
+    ...(schema.required && { required: schema.required }),
+    ...(schema.items && { items: geminiSchema(schema.items) }),
+  };
+}
+
+function geminiFinishReason(reason: string): FinishReason {
+  switch (reason) {
+    case "STOP":
+      return "stop";
+    case "MAX_TOKENS":
+      return "length";
+    case "SAFETY":
+    case "RECITATION":
+    case "BLOCKLIST":
+    case "PROHIBITED_CONTENT":
+    case "SPII":
+      return "content_filter";
+    default:
+      return "other";
+  }
+}
@@ -0,0 +1,112 @@
+export type JsonSchemaType =
+  | "string"
+  | "number"
+  | "integer"
+  | "boolean"
+  | "object"
+  | "array"
+  | "null";
+
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: Array<string | number | boolean | null>;
+  additionalProperties?: boolean | JsonSchema;
+}
+
+/**
+ * Validates a value against the subset of JSON Schema used for tool
+ * parameters and structured output, returning one message per violation.
+ */
+export function validateJsonSchema(
+  value: unknown,
+  schema: JsonSchema,
+  path = "$",
+): string[] {
+  const errors: string[] = [];
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      return [`${path}: expected ${types.join(" | ")}, got ${typeOf(value)}`];
+    }
+  }
+
+  if (schema.enum && !schema.enum.some((option) => option === value)) {
+    errors.push(
+      `${path}: must be one of ${schema.enum.map((o) => JSON.stringify(o)).join(", ")}`,
+    );
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => {
+      errors.push(
+        ...validateJsonSchema(item, schema.items!, `${path}[${index}]`),
+      );
+    });
+  }
+
+  if (isPlainObject(value)) {
+    for (const key of schema.required || []) {
+      if (!hasOwn(value, key)) {
+        errors.push(`${path}.${key}: is required`);
+      }
+    }
+    for (const [key, child] of Object.entries(value)) {
+      const propertySchema =
+        schema.properties && hasOwn(schema.properties, key)
+          ? schema.properties[key]
+          : undefined;
+      if (propertySchema) {
+        errors.push(
+          ...validateJsonSchema(child, propertySchema, `${path}.${key}`),
+        );
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key}: is not allowed`);
+      } else if (typeof schema.additionalProperties === "object") {
+        errors.push(
+          ...validateJsonSchema(
+            child,
+            schema.additionalProperties,
+            `${path}.${key}`,
+          ),
+        );
+      }
+    }
+  }
+
+  return errors;
+}
+
+function matchesType(value: unknown, type: JsonSchemaType): boolean {
+  switch (type) {
+    case "integer":
+      return Number.isInteger(value);
+    case "object":
+      return isPlainObject(value);
+    default:
+      return typeOf(value) === type;
+  }
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) {
+    return "null";
+  }
+  if (Array.isArray(value)) {
+    return "array";
+  }
+  return typeof value;
+}
+
+// Keys like "toString" must not be found on Object.prototype
+function hasOwn(object: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(object, key);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeOf(value) === "object";
+}
@@ -0,0 +1,289 @@
+import { Letta, LettaClient, LettaEnvironment } from "@letta-ai/letta-client";
+import {
+  BaseAgent,
+  ChatMessage,
+  ChatOptions,
+  ModelConfig,
+  StreamEvent,
+  StreamEventOptions,
+} from "./base_agent";
+import { beginCall, iterateCancellable, runCancellable } from "./cancellation";
+import { assertTextOnly, messageText } from "./content_parts";
+import { textFromEvents } from "./stream_events";
+import { ReportedUsage, trackUsage, UsageListener } from "./usage";
+
+export interface LettaAgentOptions {
+  /** Name of the server-side agent to attach to, created if missing */
+  agentName?: string;
+  /** Attach to this agent id instead of looking one up by name */
+  agentId?: string;
+  /** Persona core memory; the leading system messages when omitted */
+  persona?: string;
+  /**
+   * Human core memory: what the agent knows about who it talks to. Letta
+   * agents edit this block themselves, so it is only written when given.
+   */
+  human?: string;
+  /** Embedding handle for new agents, e.g. "openai/text-embedding-3-small" */
+  embedding?: string;
+  tags?: string[];
+  /** Replaces the client built from the config's baseUrl and apiKey */
+  client?: LettaClient;
+}
+
+/** Core memory block labels MemGPT agents are created with */
+export type LettaBlockLabel = "persona" | "human";
+
+const DEFAULT_AGENT_NAME = "default";
+const DEFAULT_EMBEDDING = "letta/letta-free";
+const DEFAULT_HUMAN = "Nothing is known about them yet.";
+
+/**
+ * Client for a Letta server: an explicit baseUrl means self-hosted, a key
+ * without one means Letta Cloud, and neither means a local server on the
+ * default port.
+ */
+export function lettaClient(config: { apiKey?: string; baseUrl?: string }) {
+  return new LettaClient({
+    baseUrl:
+      config.baseUrl ||
+      (config.apiKey
+        ? LettaEnvironment.LettaCloud
+        : LettaEnvironment.SelfHosted),
+    token: config.apiKey || undefined,
+  });
+}
+
+/**
+ * A stateful MemGPT agent on a Letta server. The server keeps the history
+ * and core memory, so each call sends only the messages after the latest
+ * assistant reply, and the persona and human blocks are synced before
+ * sending whenever they changed. Model, temperature and token limits live
+ * in the server-side agent's own config; `modelName` only picks the model
+ * handle for agents this adapter creates.
+ */
+export class LettaAgent implements BaseAgent {
+  private client: LettaClient;
+  modelName: string;
+  temperature: number;
+  maxTokens: number;
+  private onUsage?: UsageListener;
+  private agentName: string;
+  private agentId?: string;
+  private persona?: string;
+  private human?: string;
+  private embedding: string;
+  private tags?: string[];
+  private attaching?: Promise<string>;
+  // Block values as last read from or written to the server
+  private synced = new Map<LettaBlockLabel, string>();
+
+  constructor(config: ModelConfig, options: LettaAgentOptions = {}) {
+    this.client = options.client || lettaClient(config);
+    this.modelName = config.modelName;
+    this.temperature = config.temperature;
+    this.maxTokens = config.maxTokens;
+    this.onUsage = config.onUsage;
+    this.agentName = options.agentName || DEFAULT_AGENT_NAME;
+    this.agentId = options.agentId;
+    this.persona = options.persona;
+    this.human = options.human;
+    this.embedding = options.embedding || DEFAULT_EMBEDDING;
+    this.tags = options.tags;
+  }
+
+  async chat(messages: ChatMessage[], options?: ChatOptions): Promise<string> {
+    return runCancellable("letta", options, async (call) => {
+      const usage = trackUsage("letta", this.modelName, messages, this.onUsage);
+      const agentId = await call.race(this.prepare(messages, call.signal));
+      const response = await call.race(
+        this.client.agents.messages.create(
+          agentId,
+          { messages: this.formatMessages(messages) },
+          { abortSignal: call.signal },
+        ),
+      );
+      const content = response.messages
+        .filter(
+          (
+            message,
+          ): message is Letta.LettaResponseMessagesItem.AssistantMessage =>
+            message.messageType === "assistant_message",
+        )
+        .map((message) => message.assistantMessage)
+        .join("\n");
+      usage.finish(this.usageOf(response.usage), content);
+      return content;
+    });
+  }
+
+  async *stream(
+    messages: ChatMessage[],
+    options?: ChatOptions,
+  ): AsyncGenerator<string> {
+    yield* textFromEvents(this.streamEvents(messages, options));
+  }
+
+  /** Letta runs its own tools server-side, so `options.tools` is ignored */
+  async *streamEvents(
+    messages: ChatMessage[],
+    options: StreamEventOptions = {},
+  ): AsyncGenerator<StreamEvent> {
+    const call = beginCall("letta", options);
+    try {
+      const usage = trackUsage("letta", this.modelName, messages, this.onUsage);
+      const agentId = await call.race(this.prepare(messages, call.signal));
+      const stream = await call.race(
+        this.client.agents.messages.stream(
+          agentId,
+          { messages: this.formatMessages(messages), streamTokens: true },
+          { abortSignal: call.signal },
+        ),
+      );
+
+      let content = "";
+      let reported: ReportedUsage | undefined;
+      for await (const chunk of iterateCancellable(stream, call)) {
+        if (chunk.messageType === "assistant_message") {
+          content += chunk.assistantMessage;
+          yield { type: "text", text: chunk.assistantMessage };
+        } else if (chunk.messageType === "usage_statistics") {
+          reported = this.usageOf(chunk);
+        }
+      }
+      yield { type: "usage", usage: usage.finish(reported, content) };
+      yield { type: "finish", reason: "stop" };
+    } catch (error) {
+      yield { type: "error", error: call.wrapError(error) };
+    } finally {
+      call.dispose();
+    }
+  }
+
+  /** Id of the server-side agent, creating it on first use if needed */
+  async resolveAgentId(signal?: AbortSignal): Promise<string> {
+    if (this.agentId) {
+      return this.agentId;
+    }
+    this.attaching ??= this.attach(signal).catch((error) => {
+      this.attaching = undefined;
+      throw error;
+    });
+    this.agentId = await this.attaching;
+    return this.agentId;
+  }
+
+  /** Writes a core memory block if the server holds a different value */
+  async syncBlock(
+    label: LettaBlockLabel,
+    value: string,
+    signal?: AbortSignal,
+  ): Promise<void> {
+    if (this.synced.get(label) === value) {
+      return;
+    }
+    const agentId = await this.resolveAgentId(signal);
+    if (!this.synced.has(label)) {
+      const block = await this.client.agents.coreMemory.getBlock(
+        agentId,
+        label,
+        { abortSignal: signal },
+      );
+      this.synced.set(label, block.value);
+      if (block.value === value) {
+        return;
+      }
+    }
+    await this.client.agents.coreMemory.updateBlock(
+      agentId,
+      label,
+      { value },
+      { abortSignal: signal },
+    );
+    this.synced.set(label, value);
+  }
+
+  getModelConfig(): ModelConfig {
+    return {
+      modelName: this.modelName,
+      temperature: this.temperature,
+      maxTokens: this.maxTokens,
+      apiKey: "",
+    };
+  }
+
+  private async attach(signal?: AbortSignal): Promise<string> {
+    const [existing] = await this.client.agents.list(
+      { name: this.agentName, limit: 1 },
+      { abortSignal: signal },
+    );
+    if (existing) {
+      return existing.id;
+    }
+    const created = await this.client.agents.create(
+      {
+        name: this.agentName,
+        llm: this.modelName,
+        embedding: this.embedding,
+        tags: this.tags,
+        memoryBlocks: [
+          { label: "persona", value: this.persona || "" },
+          { label: "human", value: this.human ?? DEFAULT_HUMAN },
+        ],
+      },
+      { abortSignal: signal },
+    );
+    this.synced.set("persona", this.persona || "");
+    this.synced.set("human", this.human ?? DEFAULT_HUMAN);
+    return created.id;
+  }
+
+  private async prepare(
+    messages: ChatMessage[],
+    signal: AbortSignal,
+  ): Promise<string> {
+    const agentId = await this.resolveAgentId(signal);
+    const persona = this.persona ?? systemPrompt(messages);
+    if (persona) {
+      await this.syncBlock("persona", persona, signal);
+    }
+    if (this.human !== undefined) {
+      await this.syncBlock("human", this.human, signal);
+    }
+    return agentId;
+  }
+
+  private formatMessages(messages: ChatMessage[]): Letta.MessageCreate[] {
+    assertTextOnly(messages, "letta");
+    const lastReply = messages.map((msg) => msg.role).lastIndexOf("assistant");
+    const leading = messages.findIndex((msg) => msg.role !== "system");
+    // Leading system messages became the persona block; history before the
+    // last reply is already on the server
+    const pending = messages.slice(
+      Math.max(lastReply + 1, leading < 0 ? 0 : leading),
+    );
+    if (!pending.length) {
+      throw new Error("letta agent needs a new message to reply to");
+    }
+    return pending.map((msg) => ({
+      role: msg.role === "system" ? "system" : "user",
+      text: messageText(msg.content),
+      ...(msg.name && { name: msg.name }),
+    }));
+  }
+
+  private usageOf(usage: Letta.LettaUsageStatistics): ReportedUsage {
+    return {
+      inputTokens: usage.promptTokens,
+      outputTokens: usage.completionTokens,
+    };
+  }
+}
+
+function systemPrompt(messages: ChatMessage[]): string {
+  const leading = messages.findIndex((msg) => msg.role !== "system");
+  return messages
+    .slice(0, leading < 0 ? messages.length : leading)
+    .map((msg) => messageText(msg.content))
+    .join("\n\n");
+}
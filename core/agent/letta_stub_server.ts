@@ -0,0 +1,316 @@
+import crypto from "crypto";
+import http from "http";
+import { BaseAgent, ChatMessage } from "./base_agent";
+import { errorMessage } from "./errors";
+import { MockAgent } from "./mock_agent";
+import { estimateMessageTokens, estimateTokens } from "./usage";
+
+export interface LettaStubOptions {
+  /** Writes the replies; a MockAgent following MOCK_AGENT_SCRIPT by default */
+  agent?: BaseAgent;
+  host?: string;
+  /** 0 picks a free port */
+  port?: number;
+}
+
+interface StubBlock {
+  id: string;
+  label: string;
+  value: string;
+  limit: number;
+}
+
+interface StubAgent {
+  id: string;
+  name: string;
+  tags: string[];
+  llm?: string;
+  embedding?: string;
+  blocks: StubBlock[];
+  history: ChatMessage[];
+}
+
+interface MessageRequest {
+  messages?: { role?: string; text?: string; name?: string }[];
+}
+
+class StubHttpError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const DEFAULT_BLOCK_LIMIT = 5000;
+
+/**
+ * In-memory stand-in for the parts of the Letta REST API LettaAgent uses:
+ * listing and creating agents, reading and writing core memory blocks, and
+ * sending messages with or without streaming. Replies come from a local
+ * agent prompted with the core memory, so tests and offline runs need no
+ * Letta server or model.
+ */
+export class LettaStubServer {
+  private agent: BaseAgent;
+  private agents = new Map<string, StubAgent>();
+  private host: string;
+  private port: number;
+  private server?: http.Server;
+
+  constructor(options: LettaStubOptions = {}) {
+    this.agent =
+      options.agent ||
+      new MockAgent({
+        modelName: "mock",
+        temperature: 0,
+        maxTokens: 256,
+        apiKey: "",
+      });
+    this.host = options.host || "127.0.0.1";
+    this.port = options.port ?? 0;
+  }
+
+  /** Starts listening; returns the base URL to give LettaAgent */
+  async listen(): Promise<string> {
+    const server = http.createServer((req, res) => {
+      void this.handle(req, res);
+    });
+    this.server = server;
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(this.port, this.host, () => resolve());
+    });
+    const address = server.address();
+    const port = typeof address === "object" && address ? address.port : 0;
+    return `http://${this.host}:${port}`;
+  }
+
+  async close(): Promise<void> {
+    const server = this.server;
+    this.server = undefined;
+    if (server) {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  }
+
+  /** Current value of an agent's core memory block, for assertions */
+  block(agentName: string, label: string): string | undefined {
+    return [...this.agents.values()]
+      .find((agent) => agent.name === agentName)
+      ?.blocks.find((block) => block.label === label)?.value;
+  }
+
+  async handle(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+  ): Promise<void> {
+    try {
+      const url = new URL(req.url || "/", "http://stub");
+      const path = url.pathname.replace(/\/+$/, "");
+      const agentPath = path.match(/^\/v1\/agents\/([^/]+)(\/.*)?$/);
+      const agentId = agentPath ? decodeURIComponent(agentPath[1]) : "";
+      const resource = agentPath?.[2] || "";
+      const blockLabel = resource.match(/^\/memory\/block\/([^/]+)$/)?.[1];
+
+      if (path === "/v1/agents" && req.method === "GET") {
+        this.sendJson(res, 200, this.listAgents(url.searchParams));
+      } else if (path === "/v1/agents" && req.method === "POST") {
+        this.sendJson(res, 200, this.createAgent(await this.readJson(req)));
+      } else if (agentPath && !resource && req.method === "GET") {
+        this.sendJson(res, 200, agentState(this.find(agentId)));
+      } else if (blockLabel && req.method === "GET") {
+        this.sendJson(
+          res,
+          200,
+          this.findBlock(agentId, decodeURIComponent(blockLabel)),
+        );
+      } else if (blockLabel && req.method === "PATCH") {
+        const block = this.findBlock(agentId, decodeURIComponent(blockLabel));
+        const update = (await this.readJson(req)) as { value?: string };
+        if (typeof update.value === "string") {
+          block.value = update.value;
+        }
+        this.sendJson(res, 200, block);
+      } else if (resource === "/messages" && req.method === "POST") {
+        const request = (await this.readJson(req)) as MessageRequest;
+        this.sendJson(res, 200, await this.reply(this.find(agentId), request));
+      } else if (resource === "/messages/stream" && req.method === "POST") {
+        const request = (await this.readJson(req)) as MessageRequest;
+        await this.streamReply(res, this.find(agentId), request);
+      } else {
+        throw new StubHttpError(404, `Unknown endpoint ${req.method} ${path}`);
+      }
+    } catch (error) {
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+      this.sendJson(res, error instanceof StubHttpError ? error.status : 500, {
+        detail: errorMessage(error),
+      });
+    }
+  }
+
+  private listAgents(query: URLSearchParams) {
+    const name = query.get("name");
+    const limit = Number(query.get("limit") || Infinity);
+    return [...this.agents.values()]
+      .filter((agent) => !name || agent.name === name)
+      .slice(0, limit)
+      .map(agentState);
+  }
+
+  private createAgent(body: unknown) {
+    const request = body as {
+      name?: string;
+      tags?: string[];
+      llm?: string;
+      embedding?: string;
+      memory_blocks?: { label: string; value: string; limit?: number }[];
+    };
+    const agent: StubAgent = {
+      id: `agent-${crypto.randomUUID()}`,
+      name: request.name || `agent-${this.agents.size + 1}`,
+      tags: request.tags || [],
+      llm: request.llm,
+      embedding: request.embedding,
+      blocks: (request.memory_blocks || []).map((block) => ({
+        id: `block-${crypto.randomUUID()}`,
+        label: block.label,
+        value: block.value,
+        limit: block.limit ?? DEFAULT_BLOCK_LIMIT,
+      })),
+      history: [],
+    };
+    this.agents.set(agent.id, agent);
+    return agentState(agent);
+  }
+
+  private find(agentId: string): StubAgent {
+    const agent = this.agents.get(agentId);
+    if (!agent) {
+      throw new StubHttpError(404, `Agent ${agentId} not found`);
+    }
+    return agent;
+  }
+
+  private findBlock(agentId: string, label: string): StubBlock {
+    const block = this.find(agentId).blocks.find(
+      (block) => block.label === label,
+    );
+    if (!block) {
+      throw new StubHttpError(404, `Block ${label} not found`);
+    }
+    return block;
+  }
+
+  private async reply(agent: StubAgent, request: MessageRequest) {
+    const prompt = this.prompt(agent, request);
+    const content = await this.agent.chat(prompt);
+    agent.history.push({ role: "assistant", content });
+    return {
+      messages: [assistantMessage(content)],
+      usage: usageStatistics(prompt, content),
+    };
+  }
+
+  private async streamReply(
+    res: http.ServerResponse,
+    agent: StubAgent,
+    request: MessageRequest,
+  ): Promise<void> {
+    const prompt = this.prompt(agent, request);
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+    });
+    const id = `message-${crypto.randomUUID()}`;
+    let content = "";
+    for await (const chunk of this.agent.stream(prompt)) {
+      content += chunk;
+      this.sendEvent(res, assistantMessage(chunk, id));
+    }
+    agent.history.push({ role: "assistant", content });
+    this.sendEvent(res, {
+      message_type: "usage_statistics",
+      ...usageStatistics(prompt, content),
+    });
+    res.end("data: [DONE]\n\n");
+  }
+
+  /** Core memory as the system prompt, then the whole conversation */
+  private prompt(agent: StubAgent, request: MessageRequest): ChatMessage[] {
+    if (!request.messages?.length) {
+      throw new StubHttpError(422, "messages must be a non-empty array");
+    }
+    for (const message of request.messages) {
+      agent.history.push({
+        role: message.role === "system" ? "system" : "user",
+        content: message.text || "",
+        ...(message.name && { name: message.name }),
+      });
+    }
+    const memory = agent.blocks
+      .map((block) => `<${block.label}>\n${block.value}\n</${block.label}>`)
+      .join("\n");
+    return [{ role: "system", content: memory }, ...agent.history];
+  }
+
+  private async readJson(req: http.IncomingMessage): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer);
+    }
+    try {
+      return JSON.parse(Buffer.concat(chunks).toString("utf8") || "{}");
+    } catch {
+      throw new StubHttpError(400, "Body is not JSON");
+    }
+  }
+
+  private sendJson(res: http.ServerResponse, status: number, body: unknown) {
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(body));
+  }
+
+  private sendEvent(res: http.ServerResponse, body: unknown) {
+    res.write(`data: ${JSON.stringify(body)}\n\n`);
+  }
+}
+
+function agentState(agent: StubAgent) {
+  return {
+    id: agent.id,
+    name: agent.name,
+    system: "",
+    agent_type: "memgpt_agent",
+    tags: agent.tags,
+    tools: [],
+    sources: [],
+    llm_config: { model: agent.llm },
+    embedding_config: { embedding_model: agent.embedding },
+    memory: { blocks: agent.blocks },
+  };
+}
+
+function assistantMessage(text: string, id = `message-${crypto.randomUUID()}`) {
+  return {
+    id,
+    date: new Date().toISOString(),
+    message_type: "assistant_message",
+    assistant_message: text,
+  };
+}
+
+function usageStatistics(prompt: ChatMessage[], content: string) {
+  const promptTokens = estimateMessageTokens(prompt);
+  const completionTokens = estimateTokens(content);
+  return {
+    prompt_tokens: promptTokens,
+    completion_tokens: completionTokens,
+    total_tokens: promptTokens + completionTokens,
+    step_count: 1,
+  };
+}
@@ -0,0 +1,197 @@
+import { ChatMessage } from "./base_agent";
+import { mergeContent, messageText } from "./content_parts";
+
+export interface MessageFormatRules {
+  /**
+   * "inline" keeps system messages where they are, "leading" merges them into
+   * a single first message and "separate" lifts them out of the conversation
+   * for providers with a dedicated system/preamble field.
+   */
+  system: "inline" | "leading" | "separate";
+  /** Join consecutive plain messages from the same role */
+  mergeConsecutive: boolean;
+  /** Require strictly alternating user/assistant turns */
+  alternate: boolean;
+  /** Role the first conversational turn must have */
+  firstRole: "user" | "any";
+}
+
+export interface NormalizedConversation {
+  system: string;
+  messages: ChatMessage[];
+}
+
+export const OPENAI_MESSAGE_RULES: MessageFormatRules = {
+  system: "inline",
+  mergeConsecutive: false,
+  alternate: false,
+  firstRole: "any",
+};
+
+export const ANTHROPIC_MESSAGE_RULES: MessageFormatRules = {
+  system: "separate",
+  mergeConsecutive: true,
+  alternate: true,
+  firstRole: "user",
+};
+
+export const GEMINI_MESSAGE_RULES: MessageFormatRules = {
+  system: "separate",
+  mergeConsecutive: true,
+  alternate: true,
+  firstRole: "user",
+};
+
+export const MISTRAL_MESSAGE_RULES: MessageFormatRules = {
+  system: "leading",
+  mergeConsecutive: true,
+  alternate: false,
+  firstRole: "any",
+};
+
+export const OLLAMA_MESSAGE_RULES: MessageFormatRules = {
+  system: "inline",
+  mergeConsecutive: false,
+  alternate: false,
+  firstRole: "any",
+};
+
+export const COHERE_MESSAGE_RULES: MessageFormatRules = {
+  system: "separate",
+  mergeConsecutive: true,
+  alternate: false,
+  firstRole: "any",
+};
+
+export const BEDROCK_MESSAGE_RULES: MessageFormatRules = {
+  system: "separate",
+  mergeConsecutive: true,
+  alternate: true,
+  firstRole: "user",
+};
+
+export const PALM_MESSAGE_RULES: MessageFormatRules = {
+  system: "separate",
+  mergeConsecutive: true,
+  alternate: true,
+  firstRole: "user",
+};
+
+// Stands in for a missing user turn when a provider requires one
+export const CONVERSATION_START_PLACEHOLDER = "(conversation start)";
+
+/**
+ * Rewrites a conversation so it satisfies a provider's role rules while
+ * keeping every system prompt and turn that the caller supplied.
+ */
+export function normalizeMessages(
+  messages: ChatMessage[],
+  rules: MessageFormatRules,
+): NormalizedConversation {
+  const systemPrompts = messages
+    .map((msg) => (msg.role === "system" ? messageText(msg.content) : ""))
+    .filter(Boolean);
+  let conversation =
+    rules.system === "inline"
+      ? messages.map((msg) => ({ ...msg }))
+      : messages
+          .filter((msg) => msg.role !== "system")
+          .map((msg) => ({ ...msg }));
+
+  if (rules.mergeConsecutive) {
+    conversation = mergeConsecutiveMessages(conversation);
+  }
+
+  if (rules.alternate) {
+    conversation = enforceAlternation(conversation);
+  }
+
+  if (rules.firstRole === "user" && turnSide(conversation[0]) !== "user") {
+    conversation.unshift({
+      role: "user",
+      content: CONVERSATION_START_PLACEHOLDER,
+    });
+  }
+
+  const system = systemPrompts.join("\n\n");
+  if (rules.system === "leading" && system) {
+    conversation.unshift({ role: "system", content: system });
+  }
+
+  return {
+    system: rules.system === "separate" ? system : "",
+    messages: conversation,
+  };
+}
+
+/**
+ * Tool results are delivered on the user side of the conversation by every
+ * provider that enforces turn alternation.
+ */
+export function turnSide(
+  message: ChatMessage | undefined,
+): "system" | "user" | "assistant" | undefined {
+  if (!message) {
+    return undefined;
+  }
+  return message.role === "tool" ? "user" : message.role;
+}
+
+function isPlainMessage(message: ChatMessage): boolean {
+  return message.role !== "tool" && !message.toolCalls?.length;
+}
+
+function mergeConsecutiveMessages(messages: ChatMessage[]): ChatMessage[] {
+  const merged: ChatMessage[] = [];
+  for (const msg of messages) {
+    const previous = merged[merged.length - 1];
+    if (
+      previous &&
+      previous.role === msg.role &&
+      isPlainMessage(previous) &&
+      isPlainMessage(msg)
+    ) {
+      previous.content = mergeContent(previous.content, msg.content);
+    } else {
+      merged.push(msg);
+    }
+  }
+  return merged;
+}
+
+function enforceAlternation(messages: ChatMessage[]): ChatMessage[] {
+  const alternated: ChatMessage[] = [];
+  for (const msg of messages) {
+    const previous = alternated[alternated.length - 1];
+    if (previous?.role === "assistant" && msg.role === "assistant") {
+      // Assistant turns can carry text and tool calls together
+      previous.content = mergeContent(previous.content, msg.content);
+      const toolCalls = [
+        ...(previous.toolCalls || []),
+        ...(msg.toolCalls || []),
+      ];
+      previous.toolCalls = toolCalls.length ? toolCalls : undefined;
+    } else {
+      alternated.push(msg);
+    }
+  }
+  return alternated;
+}
+
+/**
+ * Groups consecutive messages that belong to the same side of the
+ * conversation, e.g. tool results followed by a user follow-up, so adapters
+ * can emit them as a single provider turn.
+ */
+export function groupTurns(messages: ChatMessage[]): ChatMessage[][] {
+  const turns: ChatMessage[][] = [];
+  for (const msg of messages) {
+    const current = turns[turns.length - 1];
+    if (current && turnSide(current[0]) === turnSide(msg)) {
+      current.push(msg);
+    } else {
+      turns.push([msg]);
+    }
+  }
+  return turns;
+}
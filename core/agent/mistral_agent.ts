@@ -1,51 +1,228 @@
-import MistralClient from "@mistralai/mistralai";
-import { BaseAgent, ChatMessage, ModelConfig } from "./base_agent";
+import MistralClient, {
+  Function as MistralFunction,
+  TokenUsage,
+  ToolCalls,
+} from "@mistralai/mistralai";
+import {
+  BaseAgent,
+  ChatMessage,
+  ChatOptions,
+  FinishReason,
+  ModelConfig,
+  StreamEvent,
+  StreamEventOptions,
+  ToolChatResponse,
+  ToolDefinition,
+} from "./base_agent";
+import { beginCall, iterateCancellable, runCancellable } from "./cancellation";
+import { assertTextOnly, messageText } from "./content_parts";
+import { normalizeMessages, MISTRAL_MESSAGE_RULES } from "./message_format";
+import { textFromEvents, ToolCallAccumulator } from "./stream_events";
+import { parseToolArguments } from "./tool_loop";
+import { ReportedUsage, trackUsage, UsageListener } from "./usage";
+
+interface MistralToolCall {
+  id: string;
+  function: { name: string; arguments: string };
+}
 
 export class MistralAgent implements BaseAgent {
   private client: MistralClient;
   modelName: string;
   temperature: number;
   maxTokens: number;
+  private onUsage?: UsageListener;
 
   constructor(config: ModelConfig) {
     this.client = new MistralClient(config.apiKey);
     this.modelName = config.modelName;
     this.temperature = config.temperature;
     this.maxTokens = config.maxTokens;
+    this.onUsage = config.onUsage;
   }
 
-  async chat(messages: ChatMessage[]): Promise<string> {
-    const response = await this.client.chat({
-      model: this.modelName,
-      messages: this.formatMessages(messages),
-      temperature: this.temperature,
-      maxTokens: this.maxTokens,
+  async chat(messages: ChatMessage[], options?: ChatOptions): Promise<string> {
+    return runCancellable("mistral", options, async (call) => {
+      const usage = trackUsage(
+        "mistral",
+        this.modelName,
+        messages,
+        this.onUsage,
+      );
+      const response = await call.race(
+        this.client.chat({
+          model: this.modelName,
+          messages: this.formatMessages(messages),
+          temperature: this.temperature,
+          maxTokens: this.maxTokens,
+        }),
+      );
+      const content = response.choices[0].message.content;
+      usage.finish(this.usageOf(response), content);
+      return content;
     });
-    return response.choices[0].message.content;
   }
 
-  async *stream(messages: ChatMessage[]): AsyncGenerator<string> {
-    const stream = await this.client.chatStream({
-      model: this.modelName,
-      messages: this.formatMessages(messages),
-      temperature: this.temperature,
-      maxTokens: this.maxTokens,
-    });
+  async *stream(
+    messages: ChatMessage[],
+    options?: ChatOptions,
+  ): AsyncGenerator<string> {
+    yield* textFromEvents(this.streamEvents(messages, options));
+  }
+
+  async *streamEvents(
+    messages: ChatMessage[],
+    options: StreamEventOptions = {},
+  ): AsyncGenerator<StreamEvent> {
+    const call = beginCall("mistral", options);
+    try {
+      const usage = trackUsage(
+        "mistral",
+        this.modelName,
+        messages,
+        this.onUsage,
+      );
+      const stream = await this.client.chatStream({
+        model: this.modelName,
+        messages: this.formatMessages(messages),
+        ...(options.tools?.length
+          ? { tools: this.formatTools(options.tools) }
+          : {}),
+        temperature: this.temperature,
+        maxTokens: this.maxTokens,
+      });
 
-    for await (const chunk of stream) {
-      if (chunk.choices[0]?.delta?.content) {
-        yield chunk.choices[0].delta.content;
+      let content = "";
+      let reported: ReportedUsage | undefined;
+      let finishReason: FinishReason = "other";
+      const toolCalls = new ToolCallAccumulator();
+      for await (const chunk of iterateCancellable(stream, call)) {
+        // The final chunk carries usage, although the SDK types omit it
+        const chunkUsage = (chunk as { usage?: TokenUsage }).usage;
+        if (chunkUsage) {
+          reported = this.usageOf({ model: chunk.model, usage: chunkUsage });
+        }
+        const choice = chunk.choices[0];
+        if (choice?.delta?.content) {
+          content += choice.delta.content;
+          yield { type: "text", text: choice.delta.content };
+        }
+        // Mistral sends each tool call whole rather than in fragments
+        const deltaCalls = (choice?.delta?.tool_calls ||
+          []) as unknown as MistralToolCall[];
+        for (const toolCall of deltaCalls) {
+          yield* toolCalls.complete(toolCalls.size, {
+            id: toolCall.id,
+            name: toolCall.function.name,
+            arguments: parseToolArguments(toolCall.function.arguments),
+          });
+        }
+        if (choice?.finish_reason) {
+          finishReason = mistralFinishReason(choice.finish_reason);
+        }
       }
+      yield { type: "usage", usage: usage.finish(reported, content) };
+      yield { type: "finish", reason: finishReason };
+    } catch (error) {
+      yield { type: "error", error: call.wrapError(error) };
+    } finally {
+      call.dispose();
     }
   }
 
+  async chatWithTools(
+    messages: ChatMessage[],
+    tools: ToolDefinition[],
+    options?: ChatOptions,
+  ): Promise<ToolChatResponse> {
+    return runCancellable("mistral", options, async (call) => {
+      const usage = trackUsage(
+        "mistral",
+        this.modelName,
+        messages,
+        this.onUsage,
+      );
+      const response = await call.race(
+        this.client.chat({
+          model: this.modelName,
+          messages: this.formatMessages(messages),
+          tools: this.formatTools(tools),
+          temperature: this.temperature,
+          maxTokens: this.maxTokens,
+        }),
+      );
+
+      const message = response.choices[0].message as {
+        content: string;
+        tool_calls?: MistralToolCall[];
+      };
+      usage.finish(this.usageOf(response), message.content || "");
+      return {
+        content: message.content || "",
+        toolCalls: (message.tool_calls || []).map((call) => ({
+          id: call.id,
+          name: call.function.name,
+          arguments: parseToolArguments(call.function.arguments),
+        })),
+      };
+    });
+  }
+
+  private usageOf(response: {
+    model: string;
+    usage?: TokenUsage;
+  }): ReportedUsage {
+    return {
+      inputTokens: response.usage?.prompt_tokens,
+      outputTokens: response.usage?.completion_tokens,
+      model: response.model,
+    };
+  }
+
+  private formatTools(
+    tools: ToolDefinition[],
+  ): { type: string; function: MistralFunction }[] {
+    return tools.map((tool) => ({
+      type: "function",
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.parameters,
+      },
+    }));
+  }
+
   private formatMessages(messages: ChatMessage[]): {
     role: string;
     content: string;
+    name?: string;
+    tool_call_id?: string;
+    tool_calls?: ToolCalls[];
   }[] {
-    return messages.map((msg) => ({
+    // The SDK only sends text content
+    assertTextOnly(messages, "mistral");
+    const { messages: normalized } = normalizeMessages(
+      messages,
+      MISTRAL_MESSAGE_RULES,
+    );
+    return normalized.map((msg) => ({
       role: msg.role,
-      content: msg.content,
+      content: messageText(msg.content),
+      ...(msg.role === "tool" && {
+        name: msg.name,
+        tool_call_id: msg.toolCallId,
+      }),
+      ...(msg.toolCalls?.length && {
+        // The SDK types tool call ids as the literal "null"
+        tool_calls: msg.toolCalls.map((call) => ({
+          id: call.id,
+          type: "function",
+          function: {
+            name: call.name,
+            arguments: JSON.stringify(call.arguments),
+          },
+        })) as unknown as ToolCalls[],
+      }),
     }));
   }
 
@@ -58,3 +235,16 @@ export class MistralAgent implements BaseAgent {
     };
   }
 }
+
+function mistralFinishReason(reason: string): FinishReason {
+  switch (reason) {
+    case "stop":
+    case "tool_calls":
+      return reason;
+    case "length":
+    case "model_length":
+      return "length";
+    default:
+      return "other";
+  }
+}
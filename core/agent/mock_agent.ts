@@ -0,0 +1,223 @@
+import fs from "fs";
+import {
+  BaseAgent,
+  ChatMessage,
+  ChatOptions,
+  ModelConfig,
+  StreamEvent,
+  StreamEventOptions,
+  ToolCall,
+  ToolChatResponse,
+  ToolDefinition,
+} from "./base_agent";
+import { beginCall, iterateCancellable, runCancellable } from "./cancellation";
+import { messageText } from "./content_parts";
+import { JsonSchema } from "./json_schema";
+import { textFromEvents, ToolCallAccumulator } from "./stream_events";
+import { trackUsage, UsageListener } from "./usage";
+
+export interface MockRule {
+  /** Case-insensitive regular expression tested against the last user message */
+  match: string;
+  reply?: string;
+  /** Returned from chatWithTools when every named tool was offered */
+  toolCalls?: ToolCall[];
+}
+
+export interface MockScript {
+  rules?: MockRule[];
+  /** Replies used in order, cycling, when no rule matches */
+  responses?: string[];
+  fallback?: string;
+}
+
+/**
+ * Deterministic offline agent. Replies come from a script passed in code or
+ * loaded from the JSON file named by MOCK_AGENT_SCRIPT, so CI can run whole
+ * simulations through AgentFactory with type "mock".
+ */
+export class MockAgent implements BaseAgent {
+  modelName: string;
+  temperature: number;
+  maxTokens: number;
+  private script: MockScript;
+  private responseIndex = 0;
+  private onUsage?: UsageListener;
+
+  constructor(config: ModelConfig, script?: MockScript) {
+    this.modelName = config.modelName || "mock";
+    this.temperature = config.temperature;
+    this.maxTokens = config.maxTokens;
+    this.onUsage = config.onUsage;
+    this.script = script || MockAgent.loadScript();
+  }
+
+  static loadScript(filePath = process.env.MOCK_AGENT_SCRIPT): MockScript {
+    if (!filePath) {
+      return {};
+    }
+    return JSON.parse(fs.readFileSync(filePath, "utf8")) as MockScript;
+  }
+
+  async chat(messages: ChatMessage[], options?: ChatOptions): Promise<string> {
+    return runCancellable("mock", options, async () => {
+      const usage = trackUsage("mock", this.modelName, messages, this.onUsage);
+      const content = this.reply(messages);
+      usage.finish(undefined, content);
+      return content;
+    });
+  }
+
+  async *stream(
+    messages: ChatMessage[],
+    options?: ChatOptions,
+  ): AsyncGenerator<string> {
+    yield* textFromEvents(this.streamEvents(messages, options));
+  }
+
+  async *streamEvents(
+    messages: ChatMessage[],
+    options: StreamEventOptions = {},
+  ): AsyncGenerator<StreamEvent> {
+    const call = beginCall("mock", options);
+    try {
+      call.throwIfCancelled();
+      const usage = trackUsage("mock", this.modelName, messages, this.onUsage);
+      const response = this.respond(messages, options.tools || []);
+      // Word-sized chunks, so consumers see more than one chunk
+      const chunks = response.content.match(/\S+\s*/g) || [response.content];
+      for await (const chunk of iterateCancellable(chunks, call)) {
+        if (chunk) {
+          yield { type: "text", text: chunk };
+        }
+      }
+      const toolCalls = new ToolCallAccumulator();
+      for (const [index, toolCall] of response.toolCalls.entries()) {
+        yield* toolCalls.complete(index, toolCall);
+      }
+      yield { type: "usage", usage: usage.finish(undefined, response.content) };
+      yield {
+        type: "finish",
+        reason: response.toolCalls.length ? "tool_calls" : "stop",
+      };
+    } catch (error) {
+      yield { type: "error", error: call.wrapError(error) };
+    } finally {
+      call.dispose();
+    }
+  }
+
+  async chatWithTools(
+    messages: ChatMessage[],
+    tools: ToolDefinition[],
+    options?: ChatOptions,
+  ): Promise<ToolChatResponse> {
+    return runCancellable("mock", options, async () => {
+      const usage = trackUsage("mock", this.modelName, messages, this.onUsage);
+      const response = this.respond(messages, tools);
+      usage.finish(undefined, response.content);
+      return response;
+    });
+  }
+
+  async chatJson(
+    messages: ChatMessage[],
+    schema: JsonSchema,
+    options?: ChatOptions,
+  ): Promise<string> {
+    return runCancellable("mock", options, async () => {
+      const usage = trackUsage("mock", this.modelName, messages, this.onUsage);
+      const scripted =
+        this.findRule(messages)?.reply !== undefined ||
+        !!this.script.responses?.length ||
+        this.script.fallback !== undefined;
+      const content = scripted
+        ? this.reply(messages)
+        : JSON.stringify(sampleFromSchema(schema), null, 2);
+      usage.finish(undefined, content);
+      return content;
+    });
+  }
+
+  getModelConfig(): ModelConfig {
+    return {
+      modelName: this.modelName,
+      temperature: this.temperature,
+      maxTokens: this.maxTokens,
+      apiKey: "",
+    };
+  }
+
+  private findRule(messages: ChatMessage[]): MockRule | undefined {
+    const lastUser = [...messages].reverse().find((m) => m.role === "user");
+    const text = messageText(lastUser?.content || "");
+    return this.script.rules?.find((rule) =>
+      new RegExp(rule.match, "i").test(text),
+    );
+  }
+
+  private respond(
+    messages: ChatMessage[],
+    tools: ToolDefinition[],
+  ): ToolChatResponse {
+    const offered = new Set(tools.map((tool) => tool.name));
+    const rule = this.findRule(messages);
+    // After a tool result the script answers in text, ending the tool loop
+    const lastRole = messages[messages.length - 1]?.role;
+    if (
+      rule?.toolCalls &&
+      lastRole !== "tool" &&
+      rule.toolCalls.every((call) => offered.has(call.name))
+    ) {
+      return { content: rule.reply || "", toolCalls: rule.toolCalls };
+    }
+    return { content: this.reply(messages), toolCalls: [] };
+  }
+
+  private reply(messages: ChatMessage[]): string {
+    const rule = this.findRule(messages);
+    if (rule?.reply !== undefined) {
+      return rule.reply;
+    }
+    const responses = this.script.responses || [];
+    if (responses.length) {
+      return responses[this.responseIndex++ % responses.length];
+    }
+    if (this.script.fallback !== undefined) {
+      return this.script.fallback;
+    }
+    const lastUser = [...messages].reverse().find((m) => m.role === "user");
+    return `Mock reply to: ${messageText(lastUser?.content || "")}`;
+  }
+}
+
+/**
+ * The simplest value that satisfies a schema, used when the script has no
+ * reply for a structured request.
+ */
+export function sampleFromSchema(schema: JsonSchema): unknown {
+  if (schema.enum?.length) {
+    return schema.enum[0];
+  }
+  const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+  switch (type) {
+    case "object":
+      return Object.fromEntries(
+        Object.entries(schema.properties || {}).map(([key, property]) => [
+          key,
+          sampleFromSchema(property),
+        ]),
+      );
+    case "array":
+      return [];
+    case "string":
+      return "";
+    case "number":
+    case "integer":
+      return 0;
+    case "boolean":
+      return false;
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,24 @@
+// Characters that end a model family name: "gpt-4-0613", "llama3:8b",
+// "claude-3-5-sonnet@20240620". A dot does not, so "gpt-4.1" is not "gpt-4".
+const FAMILY_BOUNDARY = /^[-:@/]/;
+
+/**
+ * Looks a model up in a table keyed by model id: an exact entry first,
+ * otherwise the longest key the id extends at a family boundary, so dated
+ * snapshots ("gpt-4o-2024-08-06") share their family's entry.
+ */
+export function findByModel<T>(
+  model: string,
+  table: Record<string, T>,
+): T | undefined {
+  if (Object.prototype.hasOwnProperty.call(table, model)) {
+    return table[model];
+  }
+  const family = Object.keys(table)
+    .filter(
+      (key) =>
+        model.startsWith(key) && FAMILY_BOUNDARY.test(model.slice(key.length)),
+    )
+    .sort((a, b) => b.length - a.length)[0];
+  return family === undefined ? undefined : table[family];
+}
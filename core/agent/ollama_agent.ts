@@ -1,9 +1,46 @@
-import { Ollama } from "ollama";
-import { BaseAgent, ChatMessage, ModelConfig } from "./base_agent";
+import { Ollama, Tool } from "ollama";
+import {
+  BaseAgent,
+  ChatMessage,
+  ChatOptions,
+  FinishReason,
+  MessageContent,
+  ModelConfig,
+  StreamEvent,
+  StreamEventOptions,
+  ToolChatResponse,
+  ToolDefinition,
+} from "./base_agent";
+import { beginCall, iterateCancellable, runCancellable } from "./cancellation";
+import {
+  asImage,
+  hasMedia,
+  imageData,
+  messageText,
+  toContentParts,
+} from "./content_parts";
+import { UnsupportedContentError } from "./errors";
+import { JsonSchema } from "./json_schema";
+import { normalizeMessages, OLLAMA_MESSAGE_RULES } from "./message_format";
+import { textFromEvents, ToolCallAccumulator } from "./stream_events";
+import { ReportedUsage, trackUsage, UsageListener } from "./usage";
+
+interface OllamaToolCall {
+  function: { name: string; arguments: Record<string, unknown> };
+}
+
+interface OllamaUsage {
+  model?: string;
+  prompt_eval_count?: number;
+  eval_count?: number;
+}
 
 interface OllamaMessage {
   role: string;
   content: string;
+  /** Base64 images for multimodal models such as llava */
+  images?: string[];
+  tool_calls?: OllamaToolCall[];
 }
 
 export class OllamaAgent implements BaseAgent {
@@ -11,51 +48,235 @@ export class OllamaAgent implements BaseAgent {
   modelName: string;
   temperature: number;
   maxTokens: number;
+  private onUsage?: UsageListener;
 
   constructor(config: ModelConfig) {
-    this.client = new Ollama();
+    this.client = new Ollama({ host: config.baseUrl });
     this.modelName = config.modelName;
     this.temperature = config.temperature;
     this.maxTokens = config.maxTokens;
+    this.onUsage = config.onUsage;
   }
 
-  async chat(messages: ChatMessage[]): Promise<string> {
-    const response = await this.client.chat({
-      model: this.modelName,
-      messages: this.formatMessages(messages),
-      options: {
-        temperature: this.temperature,
-        num_predict: this.maxTokens,
-      },
+  async chat(messages: ChatMessage[], options?: ChatOptions): Promise<string> {
+    return runCancellable("ollama", options, async (call) => {
+      const usage = trackUsage(
+        "ollama",
+        this.modelName,
+        messages,
+        this.onUsage,
+      );
+      const response = await call.race(
+        this.client.chat({
+          model: this.modelName,
+          messages: this.formatMessages(messages),
+          options: {
+            temperature: this.temperature,
+            num_predict: this.maxTokens,
+          },
+        }),
+      );
+      usage.finish(this.usageOf(response), response.message.content);
+      return response.message.content;
     });
-    return response.message.content;
   }
 
-  async *stream(messages: ChatMessage[]): AsyncGenerator<string> {
-    const stream = await this.client.chat({
-      model: this.modelName,
-      messages: this.formatMessages(messages),
-      options: {
-        temperature: this.temperature,
-        num_predict: this.maxTokens,
-      },
-      stream: true,
-    });
+  async *stream(
+    messages: ChatMessage[],
+    options?: ChatOptions,
+  ): AsyncGenerator<string> {
+    yield* textFromEvents(this.streamEvents(messages, options));
+  }
 
-    for await (const chunk of stream) {
-      if (chunk.message?.content) {
-        yield chunk.message.content;
+  async *streamEvents(
+    messages: ChatMessage[],
+    options: StreamEventOptions = {},
+  ): AsyncGenerator<StreamEvent> {
+    const call = beginCall("ollama", options);
+    try {
+      const usage = trackUsage(
+        "ollama",
+        this.modelName,
+        messages,
+        this.onUsage,
+      );
+      const stream = await call.race(
+        this.client.chat({
+          model: this.modelName,
+          messages: this.formatMessages(messages),
+          ...(options.tools?.length
+            ? { tools: this.formatTools(options.tools) }
+            : {}),
+          options: {
+            temperature: this.temperature,
+            num_predict: this.maxTokens,
+          },
+          stream: true,
+        }),
+      );
+
+      let content = "";
+      let reported: ReportedUsage | undefined;
+      let finishReason: FinishReason = "other";
+      const toolCalls = new ToolCallAccumulator();
+      // Aborting the iterator also cancels Ollama's generation
+      for await (const chunk of iterateCancellable(stream, call, () =>
+        stream.abort(),
+      )) {
+        if (chunk.done) {
+          reported = this.usageOf(chunk);
+          finishReason = chunk.done_reason === "length" ? "length" : "stop";
+        }
+        if (chunk.message?.content) {
+          content += chunk.message.content;
+          yield { type: "text", text: chunk.message.content };
+        }
+        for (const toolCall of chunk.message?.tool_calls || []) {
+          const index = toolCalls.size;
+          yield* toolCalls.complete(index, {
+            id: `${toolCall.function.name}-${index}`,
+            name: toolCall.function.name,
+            arguments: toolCall.function.arguments || {},
+          });
+        }
       }
+      yield { type: "usage", usage: usage.finish(reported, content) };
+      yield {
+        type: "finish",
+        reason:
+          toolCalls.size && finishReason === "stop"
+            ? "tool_calls"
+            : finishReason,
+      };
+    } catch (error) {
+      yield { type: "error", error: call.wrapError(error) };
+    } finally {
+      call.dispose();
     }
   }
 
+  async chatWithTools(
+    messages: ChatMessage[],
+    tools: ToolDefinition[],
+    options?: ChatOptions,
+  ): Promise<ToolChatResponse> {
+    return runCancellable("ollama", options, async (call) => {
+      const usage = trackUsage(
+        "ollama",
+        this.modelName,
+        messages,
+        this.onUsage,
+      );
+      const response = await call.race(
+        this.client.chat({
+          model: this.modelName,
+          messages: this.formatMessages(messages),
+          tools: this.formatTools(tools),
+          options: {
+            temperature: this.temperature,
+            num_predict: this.maxTokens,
+          },
+        }),
+      );
+
+      const { message } = response;
+      usage.finish(this.usageOf(response), message.content || "");
+      return {
+        content: message.content || "",
+        toolCalls: (message.tool_calls || []).map((call, index) => ({
+          id: `${call.function.name}-${index}`,
+          name: call.function.name,
+          arguments: call.function.arguments || {},
+        })),
+      };
+    });
+  }
+
+  async chatJson(
+    messages: ChatMessage[],
+    schema: JsonSchema,
+    options?: ChatOptions,
+  ): Promise<string> {
+    return runCancellable("ollama", options, async (call) => {
+      const usage = trackUsage(
+        "ollama",
+        this.modelName,
+        messages,
+        this.onUsage,
+      );
+      const response = await call.race(
+        this.client.chat({
+          model: this.modelName,
+          messages: this.formatMessages(messages),
+          format: schema,
+          options: {
+            temperature: this.temperature,
+            num_predict: this.maxTokens,
+          },
+        }),
+      );
+      usage.finish(this.usageOf(response), response.message.content);
+      return response.message.content;
+    });
+  }
+
+  private usageOf(response: OllamaUsage): ReportedUsage {
+    return {
+      inputTokens: response.prompt_eval_count,
+      outputTokens: response.eval_count,
+      model: response.model,
+    };
+  }
+
+  private formatTools(tools: ToolDefinition[]): Tool[] {
+    return tools.map((tool) => ({
+      type: "function",
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: { ...tool.parameters, type: "object" },
+      },
+    }));
+  }
+
   private formatMessages(messages: ChatMessage[]): OllamaMessage[] {
-    return messages.map((msg) => ({
+    const { messages: normalized } = normalizeMessages(
+      messages,
+      OLLAMA_MESSAGE_RULES,
+    );
+    return normalized.map((msg) => ({
       role: msg.role,
-      content: msg.content,
+      content: messageText(msg.content),
+      ...(hasMedia(msg.content) && { images: this.formatImages(msg.content) }),
+      ...(msg.toolCalls?.length && {
+        tool_calls: msg.toolCalls.map((call) => ({
+          function: { name: call.name, arguments: call.arguments },
+        })),
+      }),
     }));
   }
 
+  /**
+   * Ollama takes images as base64 alongside the text; it cannot fetch URLs.
+   */
+  private formatImages(content: MessageContent): string[] {
+    return toContentParts(content).flatMap((part) => {
+      if (part.type === "text") {
+        return [];
+      }
+      const image = asImage(part);
+      const inline = image && imageData(image);
+      if (!inline) {
+        throw new UnsupportedContentError(
+          "ollama",
+          part.type,
+          image ? "images must be inline base64" : "only images are supported",
+        );
+      }
+      return [inline.data];
+    });
+  }
+
   getModelConfig(): ModelConfig {
     return {
       modelName: this.modelName,
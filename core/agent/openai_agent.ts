@@ -1,43 +1,344 @@
 import { OpenAI } from "openai";
-import { BaseAgent, ChatMessage, ModelConfig } from "./base_agent";
+import {
+  BaseAgent,
+  ChatMessage,
+  ChatOptions,
+  FinishReason,
+  MessageContent,
+  ModelConfig,
+  StreamEvent,
+  StreamEventOptions,
+  ToolChatResponse,
+  ToolDefinition,
+} from "./base_agent";
+import { beginCall, iterateCancellable, runCancellable } from "./cancellation";
+import {
+  asImage,
+  assertTextOnly,
+  imageUrl,
+  messageText,
+} from "./content_parts";
+import { UnsupportedContentError } from "./errors";
+import { JsonSchema } from "./json_schema";
+import { normalizeMessages, OPENAI_MESSAGE_RULES } from "./message_format";
+import { ProviderCapabilities } from "./provider_registry";
+import { textFromEvents, ToolCallAccumulator } from "./stream_events";
+import { parseToolArguments } from "./tool_loop";
+import { ReportedUsage, trackUsage, UsageListener } from "./usage";
+
+const OPENAI_CAPABILITIES: ProviderCapabilities = {
+  streaming: true,
+  tools: true,
+  vision: true,
+  jsonMode: true,
+  streamUsage: true,
+};
 
 export class OpenAIAgent implements BaseAgent {
   private client: OpenAI;
   modelName: string;
   temperature: number;
   maxTokens: number;
+  private onUsage?: UsageListener;
+  /** Name used for usage records and errors */
+  readonly provider: string;
+  private baseUrl?: string;
+  private capabilities: ProviderCapabilities;
+  chatWithTools?: (
+    messages: ChatMessage[],
+    tools: ToolDefinition[],
+    options?: ChatOptions,
+  ) => Promise<ToolChatResponse>;
+  chatJson?: (
+    messages: ChatMessage[],
+    schema: JsonSchema,
+    options?: ChatOptions,
+  ) => Promise<string>;
 
-  constructor(config: ModelConfig) {
-    this.client = new OpenAI({ apiKey: config.apiKey });
+  /**
+   * Without `jsonMode` or `tools` the matching method is left unset, so
+   * chatStructured and tool loops fall back as they would for any agent
+   * that lacks it.
+   */
+  constructor(
+    config: ModelConfig,
+    provider = "openai",
+    capabilities: Partial<ProviderCapabilities> = {},
+  ) {
+    this.client = new OpenAI({
+      apiKey: config.apiKey,
+      baseURL: config.baseUrl,
+    });
+    this.provider = provider;
+    this.baseUrl = config.baseUrl;
+    this.capabilities = { ...OPENAI_CAPABILITIES, ...capabilities };
+    if (this.capabilities.tools) {
+      this.chatWithTools = (messages, tools, options) =>
+        this.completeWithTools(messages, tools, options);
+    }
+    if (this.capabilities.jsonMode) {
+      this.chatJson = (messages, schema, options) =>
+        this.completeJson(messages, schema, options);
+    }
     this.modelName = config.modelName;
     this.temperature = config.temperature;
     this.maxTokens = config.maxTokens;
+    this.onUsage = config.onUsage;
   }
 
-  async chat(messages: ChatMessage[]): Promise<string> {
-    const response = await this.client.chat.completions.create({
-      model: this.modelName,
-      messages,
-      temperature: this.temperature,
-      max_tokens: this.maxTokens,
+  async chat(messages: ChatMessage[], options?: ChatOptions): Promise<string> {
+    return runCancellable(this.provider, options, async (call) => {
+      const usage = trackUsage(
+        this.provider,
+        this.modelName,
+        messages,
+        this.onUsage,
+      );
+      const response = await this.client.chat.completions.create(
+        {
+          model: this.modelName,
+          messages: this.formatMessages(messages),
+          temperature: this.temperature,
+          max_tokens: this.maxTokens,
+        },
+        { signal: call.signal },
+      );
+      const content = response.choices[0].message.content || "";
+      usage.finish(this.usageOf(response), content);
+      return content;
     });
-    return response.choices[0].message.content || "";
   }
 
-  async *stream(messages: ChatMessage[]): AsyncGenerator<string> {
-    const stream = await this.client.chat.completions.create({
-      model: this.modelName,
-      messages,
-      temperature: this.temperature,
-      max_tokens: this.maxTokens,
-      stream: true,
+  async *stream(
+    messages: ChatMessage[],
+    options?: ChatOptions,
+  ): AsyncGenerator<string> {
+    yield* textFromEvents(this.streamEvents(messages, options));
+  }
+
+  async *streamEvents(
+    messages: ChatMessage[],
+    options: StreamEventOptions = {},
+  ): AsyncGenerator<StreamEvent> {
+    const call = beginCall(this.provider, options);
+    try {
+      const usage = trackUsage(
+        this.provider,
+        this.modelName,
+        messages,
+        this.onUsage,
+      );
+      const stream = await this.client.chat.completions.create(
+        {
+          model: this.modelName,
+          messages: this.formatMessages(messages),
+          ...(options.tools?.length && this.capabilities.tools
+            ? { tools: this.formatTools(options.tools) }
+            : {}),
+          temperature: this.temperature,
+          max_tokens: this.maxTokens,
+          stream: true,
+          ...(this.capabilities.streamUsage
+            ? { stream_options: { include_usage: true } }
+            : {}),
+        },
+        { signal: call.signal },
+      );
+
+      let content = "";
+      let reported: ReportedUsage | undefined;
+      let finishReason: FinishReason = "other";
+      const toolCalls = new ToolCallAccumulator();
+      for await (const chunk of iterateCancellable(stream, call)) {
+        if (chunk.usage) {
+          reported = this.usageOf(chunk);
+        }
+        const choice = chunk.choices[0];
+        if (choice?.delta?.content) {
+          content += choice.delta.content;
+          yield { type: "text", text: choice.delta.content };
+        }
+        for (const delta of choice?.delta?.tool_calls || []) {
+          yield* toolCalls.add(delta.index, {
+            id: delta.id,
+            name: delta.function?.name,
+            arguments: delta.function?.arguments,
+          });
+        }
+        if (choice?.finish_reason) {
+          finishReason = openAIFinishReason(choice.finish_reason);
+        }
+      }
+      yield* toolCalls.endAll();
+      yield { type: "usage", usage: usage.finish(reported, content) };
+      yield { type: "finish", reason: finishReason };
+    } catch (error) {
+      yield { type: "error", error: call.wrapError(error) };
+    } finally {
+      call.dispose();
+    }
+  }
+
+  private async completeWithTools(
+    messages: ChatMessage[],
+    tools: ToolDefinition[],
+    options?: ChatOptions,
+  ): Promise<ToolChatResponse> {
+    return runCancellable(this.provider, options, async (call) => {
+      const usage = trackUsage(
+        this.provider,
+        this.modelName,
+        messages,
+        this.onUsage,
+      );
+      const response = await this.client.chat.completions.create(
+        {
+          model: this.modelName,
+          messages: this.formatMessages(messages),
+          tools: this.formatTools(tools),
+          temperature: this.temperature,
+          max_tokens: this.maxTokens,
+        },
+        { signal: call.signal },
+      );
+
+      const message = response.choices[0].message;
+      usage.finish(this.usageOf(response), message.content || "");
+      return {
+        content: message.content || "",
+        toolCalls: (message.tool_calls || []).map((call) => ({
+          id: call.id,
+          name: call.function.name,
+          arguments: parseToolArguments(call.function.arguments),
+        })),
+      };
     });
+  }
+
+  private async completeJson(
+    messages: ChatMessage[],
+    schema: JsonSchema,
+    options?: ChatOptions,
+  ): Promise<string> {
+    return runCancellable(this.provider, options, async (call) => {
+      const usage = trackUsage(
+        this.provider,
+        this.modelName,
+        messages,
+        this.onUsage,
+      );
+      const response = await this.client.chat.completions.create(
+        {
+          model: this.modelName,
+          messages: this.formatMessages(messages),
+          response_format: {
+            type: "json_schema",
+            json_schema: { name: "response", schema: { ...schema } },
+          },
+          temperature: this.temperature,
+          max_tokens: this.maxTokens,
+        },
+        { signal: call.signal },
+      );
+      const content = response.choices[0].message.content || "";
+      usage.finish(this.usageOf(response), content);
+      return content;
+    });
+  }
 
-    for await (const chunk of stream) {
-      if (chunk.choices[0]?.delta?.content) {
-        yield chunk.choices[0].delta.content;
+  private usageOf(response: {
+    model: string;
+    usage?: OpenAI.CompletionUsage | null;
+  }): ReportedUsage {
+    return {
+      inputTokens: response.usage?.prompt_tokens,
+      outputTokens: response.usage?.completion_tokens,
+      model: response.model,
+    };
+  }
+
+  private formatTools(
+    tools: ToolDefinition[],
+  ): OpenAI.Chat.ChatCompletionTool[] {
+    return tools.map((tool) => ({
+      type: "function",
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: { ...tool.parameters },
+      },
+    }));
+  }
+
+  private formatMessages(
+    messages: ChatMessage[],
+  ): OpenAI.Chat.ChatCompletionMessageParam[] {
+    const { messages: normalized } = normalizeMessages(
+      messages,
+      OPENAI_MESSAGE_RULES,
+    );
+    return normalized.map((msg): OpenAI.Chat.ChatCompletionMessageParam => {
+      if (msg.role === "user") {
+        return { role: "user", content: this.formatContent(msg.content) };
+      }
+      // Only user messages may carry images
+      assertTextOnly([msg], this.provider);
+      const content = messageText(msg.content);
+      if (msg.role === "tool") {
+        return {
+          role: "tool",
+          tool_call_id: msg.toolCallId || "",
+          content,
+        };
       }
+      if (msg.role === "assistant" && msg.toolCalls?.length) {
+        return {
+          role: "assistant",
+          content: content || null,
+          tool_calls: msg.toolCalls.map((call) => ({
+            id: call.id,
+            type: "function",
+            function: {
+              name: call.name,
+              arguments: JSON.stringify(call.arguments),
+            },
+          })),
+        };
+      }
+      return { role: msg.role, content };
+    });
+  }
+
+  private formatContent(
+    content: MessageContent,
+  ): string | OpenAI.Chat.ChatCompletionContentPart[] {
+    if (typeof content === "string") {
+      return content;
     }
+    return content.map((part): OpenAI.Chat.ChatCompletionContentPart => {
+      if (part.type === "text") {
+        return { type: "text", text: part.text };
+      }
+      if (!this.capabilities.vision) {
+        throw new UnsupportedContentError(
+          this.provider,
+          part.type,
+          "this endpoint has no vision support",
+        );
+      }
+      const image = asImage(part);
+      if (!image) {
+        throw new UnsupportedContentError(
+          this.provider,
+          part.type,
+          `${part.mimeType || "unknown"} files are not supported`,
+        );
+      }
+      return {
+        type: "image_url",
+        image_url: { url: imageUrl(image), detail: image.detail },
+      };
+    });
   }
 
   getModelConfig(): ModelConfig {
@@ -46,6 +347,21 @@ export class OpenAIAgent implements BaseAgent {
       temperature: this.temperature,
       maxTokens: this.maxTokens,
       apiKey: this.client.apiKey,
+      baseUrl: this.baseUrl,
     };
   }
 }
+
+function openAIFinishReason(reason: string): FinishReason {
+  switch (reason) {
+    case "stop":
+    case "length":
+    case "tool_calls":
+    case "content_filter":
+      return reason;
+    case "function_call":
+      return "tool_calls";
+    default:
+      return "other";
+  }
+}
@@ -0,0 +1,73 @@
+import { ModelConfig } from "./base_agent";
+import { OpenAIAgent } from "./openai_agent";
+import {
+  AGENT_CONFIG_SCHEMA,
+  ProviderCapabilities,
+  ProviderDefinition,
+} from "./provider_registry";
+
+export interface OpenAICompatibleOptions {
+  /** Used when a config gives no baseUrl of its own */
+  baseUrl?: string;
+  apiKeyEnv?: string;
+  capabilities?: Partial<ProviderCapabilities>;
+}
+
+const COMPATIBLE_CAPABILITIES: ProviderCapabilities = {
+  streaming: true,
+  tools: true,
+  vision: false,
+  jsonMode: false,
+  streamUsage: false,
+};
+
+/**
+ * OpenAI chat completions against any server that speaks the same API,
+ * such as Groq, vLLM or LM Studio. Calls are reported under `provider`, so
+ * usage and errors name the actual endpoint rather than "openai". Features
+ * the server may lack stay off unless `capabilities` turns them on.
+ */
+export class OpenAICompatibleAgent extends OpenAIAgent {
+  constructor(
+    config: ModelConfig,
+    provider = "openai-compatible",
+    capabilities: Partial<ProviderCapabilities> = {},
+  ) {
+    if (!config.baseUrl) {
+      throw new Error(`${provider} agent requires a baseUrl`);
+    }
+    // Local servers ignore the key, but the SDK refuses to start without one
+    super({ ...config, apiKey: config.apiKey || "not-needed" }, provider, {
+      ...COMPATIBLE_CAPABILITIES,
+      ...capabilities,
+    });
+  }
+}
+
+/**
+ * A registry entry for a named endpoint, for example
+ * `openAICompatibleProvider("groq", { baseUrl, apiKeyEnv: "GROQ_API_KEY" })`.
+ * Without a default baseUrl every config for it has to name one.
+ */
+export function openAICompatibleProvider(
+  name: string,
+  options: OpenAICompatibleOptions = {},
+): ProviderDefinition {
+  return {
+    name,
+    capabilities: { ...COMPATIBLE_CAPABILITIES, ...options.capabilities },
+    configSchema: options.baseUrl
+      ? AGENT_CONFIG_SCHEMA
+      : {
+          ...AGENT_CONFIG_SCHEMA,
+          required: [...(AGENT_CONFIG_SCHEMA.required || []), "baseUrl"],
+        },
+    apiKeyEnv: options.apiKeyEnv,
+    create: (config, capabilities) =>
+      new OpenAICompatibleAgent(
+        { ...config, baseUrl: config.baseUrl || options.baseUrl },
+        name,
+        capabilities,
+      ),
+  };
+}
@@ -0,0 +1,689 @@
+import crypto from "crypto";
+import fs from "fs";
+import http from "http";
+import { AgentFactory } from "./agent_factory";
+import {
+  BaseAgent,
+  ChatMessage,
+  ChatOptions,
+  ContentPart,
+  ToolCall,
+  ToolDefinition,
+} from "./base_agent";
+import { messageText } from "./content_parts";
+import {
+  AgentCancelledError,
+  AgentConfigError,
+  AgentTimeoutError,
+  BudgetExceededError,
+  CircuitOpenError,
+  errorMessage,
+  UnsupportedContentError,
+} from "./errors";
+import { JsonSchema } from "./json_schema";
+import {
+  AgentConfig,
+  DEFAULT_MAX_TOKENS,
+  providerRegistry,
+} from "./provider_registry";
+import { chatStructured } from "./structured_output";
+import { parseToolArguments } from "./tool_loop";
+import { estimateMessageTokens, estimateTokens } from "./usage";
+
+export interface GatewayModel {
+  /** Name clients send as `model` */
+  alias: string;
+  agent: AgentConfig;
+}
+
+export interface GatewayQuota {
+  requestsPerMinute?: number;
+  /** Estimated prompt plus completion tokens per UTC day */
+  tokensPerDay?: number;
+}
+
+export interface GatewayKey {
+  key: string;
+  name?: string;
+  /** Aliases the key may use; every model when omitted */
+  models?: string[];
+  quota?: GatewayQuota;
+}
+
+export interface GatewayConfig {
+  models: GatewayModel[];
+  /** Without keys the gateway accepts any caller, so keep it on localhost */
+  keys?: GatewayKey[];
+  host?: string;
+  port?: number;
+  /** Largest request body accepted, in bytes */
+  maxBodyBytes?: number;
+}
+
+interface OpenAIContentPart {
+  type: string;
+  text?: string;
+  image_url?: { url: string; detail?: "low" | "high" | "auto" };
+}
+
+interface OpenAIToolCall {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
+}
+
+interface OpenAIMessage {
+  role: string;
+  content?: string | OpenAIContentPart[] | null;
+  name?: string;
+  tool_calls?: OpenAIToolCall[];
+  tool_call_id?: string;
+}
+
+interface ChatCompletionRequest {
+  model?: string;
+  messages?: OpenAIMessage[];
+  stream?: boolean;
+  temperature?: number;
+  max_tokens?: number;
+  max_completion_tokens?: number;
+  tools?: Array<{
+    type: string;
+    function: { name: string; description?: string; parameters?: JsonSchema };
+  }>;
+  response_format?: {
+    type: "text" | "json_object" | "json_schema";
+    json_schema?: { schema?: JsonSchema };
+  };
+}
+
+interface Completion {
+  content: string;
+  toolCalls: ToolCall[];
+}
+
+interface KeyUsage {
+  minute: number;
+  requests: number;
+  day: string;
+  tokens: number;
+}
+
+/** Failures reported to the client in OpenAI's error shape */
+class HttpError extends Error {
+  readonly status: number;
+  readonly type: string;
+  readonly code?: string;
+
+  constructor(status: number, type: string, message: string, code?: string) {
+    super(message);
+    this.status = status;
+    this.type = type;
+    this.code = code;
+  }
+}
+
+const DEFAULT_PORT = 8787;
+const DEFAULT_MAX_BODY_BYTES = 10 * 1024 * 1024;
+// Clients pick temperature and max_tokens freely, so only the most recently
+// used combinations keep an agent
+const MAX_CACHED_AGENTS = 32;
+
+export function loadGatewayConfig(filePath: string): GatewayConfig {
+  return JSON.parse(fs.readFileSync(filePath, "utf8")) as GatewayConfig;
+}
+
+/**
+ * Local server speaking the OpenAI chat completions protocol in front of
+ * AgentFactory agents, so any OpenAI client can reach any configured
+ * provider by model alias. Every alias is validated at startup.
+ */
+export class OpenAIGateway {
+  private models = new Map<string, GatewayModel>();
+  private keys = new Map<string, GatewayKey>();
+  private usage = new Map<string, KeyUsage>();
+  // One agent per alias and sampling settings, least recently used first
+  private agents = new Map<string, BaseAgent>();
+  private maxBodyBytes: number;
+  private host: string;
+  private port: number;
+  private server?: http.Server;
+  private startedAt = Math.floor(Date.now() / 1000);
+
+  constructor(config: GatewayConfig) {
+    for (const model of config.models) {
+      if (this.models.has(model.alias)) {
+        throw new Error(`Duplicate gateway model alias: ${model.alias}`);
+      }
+      providerRegistry.resolve(model.agent);
+      this.models.set(model.alias, model);
+    }
+    for (const key of config.keys || []) {
+      this.keys.set(key.key, key);
+    }
+    this.host = config.host || "127.0.0.1";
+    this.port = config.port ?? DEFAULT_PORT;
+    this.maxBodyBytes = config.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+  }
+
+  async listen(): Promise<{ host: string; port: number }> {
+    const server = http.createServer((req, res) => {
+      void this.handle(req, res);
+    });
+    this.server = server;
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(this.port, this.host, () => resolve());
+    });
+    const address = server.address();
+    const port = typeof address === "object" && address ? address.port : 0;
+    return { host: this.host, port };
+  }
+
+  async close(): Promise<void> {
+    const server = this.server;
+    this.server = undefined;
+    if (server) {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  }
+
+  /** Request handler, for mounting the gateway on an existing server */
+  async handle(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+  ): Promise<void> {
+    try {
+      const path = (req.url || "/").split("?")[0].replace(/\/+$/, "");
+      const key = this.authenticate(req);
+      if (req.method === "GET" && path === "/v1/models") {
+        this.sendJson(res, 200, this.listModels(key));
+      } else if (req.method === "POST" && path === "/v1/chat/completions") {
+        await this.chatCompletions(req, res, key);
+      } else {
+        throw new HttpError(
+          404,
+          "invalid_request_error",
+          `Unknown endpoint ${req.method} ${path}`,
+        );
+      }
+    } catch (error) {
+      this.sendError(res, error);
+    }
+  }
+
+  private authenticate(req: http.IncomingMessage): GatewayKey | undefined {
+    if (this.keys.size === 0) {
+      return undefined;
+    }
+    const header = req.headers.authorization || "";
+    const token = header.startsWith("Bearer ") ? header.slice(7).trim() : "";
+    const key = this.keys.get(token);
+    if (!key) {
+      throw new HttpError(
+        401,
+        "invalid_request_error",
+        "Invalid or missing API key",
+        "invalid_api_key",
+      );
+    }
+    return key;
+  }
+
+  private listModels(key: GatewayKey | undefined) {
+    return {
+      object: "list",
+      data: [...this.models.values()]
+        .filter((model) => !key?.models || key.models.includes(model.alias))
+        .map((model) => ({
+          id: model.alias,
+          object: "model",
+          created: this.startedAt,
+          owned_by: model.agent.provider,
+        })),
+    };
+  }
+
+  private async chatCompletions(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    key: GatewayKey | undefined,
+  ): Promise<void> {
+    const json = await this.readJson(req);
+    if (!json || typeof json !== "object" || Array.isArray(json)) {
+      throw new HttpError(
+        400,
+        "invalid_request_error",
+        "Body must be a JSON object",
+      );
+    }
+    const body = json as ChatCompletionRequest;
+    const model = body.model ? this.models.get(body.model) : undefined;
+    if (!model || (key?.models && !key.models.includes(model.alias))) {
+      throw new HttpError(
+        404,
+        "invalid_request_error",
+        `The model '${body.model}' does not exist`,
+        "model_not_found",
+      );
+    }
+    if (!Array.isArray(body.messages) || body.messages.length === 0) {
+      throw new HttpError(
+        400,
+        "invalid_request_error",
+        "messages must be a non-empty array",
+      );
+    }
+
+    const messages = body.messages.map(fromOpenAIMessage);
+    const tools = toArray(body.tools || [], "tools")
+      .filter((tool) => tool?.type === "function")
+      .map((tool): ToolDefinition => {
+        if (typeof tool.function?.name !== "string") {
+          throw new HttpError(
+            400,
+            "invalid_request_error",
+            "Each tool needs a function name",
+          );
+        }
+        return {
+          name: tool.function.name,
+          description: tool.function.description || "",
+          parameters: tool.function.parameters || { type: "object" },
+        };
+      });
+
+    // Quota comes before the agent, so a key over quota costs no setup
+    const config = this.configFor(model, body);
+    const promptTokens = estimateMessageTokens(messages);
+    this.chargeQuota(key, promptTokens + config.maxTokens);
+    let agent: BaseAgent;
+    try {
+      agent = this.agentFor(model.alias, config);
+    } catch (error) {
+      this.recordTokens(key, -(promptTokens + config.maxTokens));
+      throw error;
+    }
+
+    // Abandoned requests stop the provider call instead of running on
+    const controller = new AbortController();
+    res.on("close", () => {
+      if (!res.writableFinished) {
+        controller.abort();
+      }
+    });
+    const options = { signal: controller.signal };
+    const id = `chatcmpl-${crypto.randomUUID()}`;
+    const created = Math.floor(Date.now() / 1000);
+    const format = body.response_format?.type;
+    const plainText = !tools.length && (!format || format === "text");
+
+    if (body.stream && plainText) {
+      res.writeHead(200, {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+      });
+      let content = "";
+      let first = true;
+      try {
+        for await (const chunk of agent.stream(messages, options)) {
+          content += chunk;
+          this.sendEvent(res, {
+            id,
+            object: "chat.completion.chunk",
+            created,
+            model: model.alias,
+            choices: [
+              {
+                index: 0,
+                delta: first
+                  ? { role: "assistant", content: chunk }
+                  : { content: chunk },
+                finish_reason: null,
+              },
+            ],
+          });
+          first = false;
+        }
+      } catch (error) {
+        this.recordTokens(key, estimateTokens(content) - agent.maxTokens);
+        // Headers are gone, so the error travels as a final event
+        if (!controller.signal.aborted) {
+          this.sendEvent(res, { error: errorBody(error) });
+        }
+        res.end();
+        return;
+      }
+      this.sendEvent(res, {
+        id,
+        object: "chat.completion.chunk",
+        created,
+        model: model.alias,
+        choices: [{ index: 0, delta: {}, finish_reason: "stop" }],
+      });
+      res.end("data: [DONE]\n\n");
+      this.recordTokens(key, estimateTokens(content) - agent.maxTokens);
+      return;
+    }
+
+    let completion: Completion;
+    try {
+      completion = await this.complete(agent, messages, tools, body, options);
+    } catch (error) {
+      this.recordTokens(key, -agent.maxTokens);
+      throw error;
+    }
+
+    const completionTokens = estimateTokens(
+      completion.content + JSON.stringify(completion.toolCalls),
+    );
+    this.recordTokens(key, completionTokens - agent.maxTokens);
+    const message = {
+      role: "assistant",
+      content: completion.content || null,
+      ...(completion.toolCalls.length
+        ? { tool_calls: completion.toolCalls.map(toOpenAIToolCall) }
+        : {}),
+    };
+    const finishReason = completion.toolCalls.length ? "tool_calls" : "stop";
+    const usage = {
+      prompt_tokens: promptTokens,
+      completion_tokens: completionTokens,
+      total_tokens: promptTokens + completionTokens,
+    };
+
+    if (body.stream) {
+      // Tool calls and JSON are only known once complete: one chunk carries all
+      res.writeHead(200, { "Content-Type": "text/event-stream" });
+      this.sendEvent(res, {
+        id,
+        object: "chat.completion.chunk",
+        created,
+        model: model.alias,
+        choices: [{ index: 0, delta: message, finish_reason: finishReason }],
+      });
+      res.end("data: [DONE]\n\n");
+      return;
+    }
+    this.sendJson(res, 200, {
+      id,
+      object: "chat.completion",
+      created,
+      model: model.alias,
+      choices: [{ index: 0, message, finish_reason: finishReason }],
+      usage,
+    });
+  }
+
+  private async complete(
+    agent: BaseAgent,
+    messages: ChatMessage[],
+    tools: ToolDefinition[],
+    body: ChatCompletionRequest,
+    options: ChatOptions,
+  ): Promise<Completion> {
+    if (tools.length) {
+      if (!agent.chatWithTools) {
+        throw new HttpError(
+          400,
+          "invalid_request_error",
+          `Model '${body.model}' does not support tools`,
+        );
+      }
+      return agent.chatWithTools(messages, tools, options);
+    }
+    const format = body.response_format?.type;
+    if (format === "json_object" || format === "json_schema") {
+      const schema = body.response_format?.json_schema?.schema || {
+        type: "object",
+      };
+      const value = await chatStructured(agent, messages, schema, options);
+      return { content: JSON.stringify(value), toolCalls: [] };
+    }
+    return { content: await agent.chat(messages, options), toolCalls: [] };
+  }
+
+  private configFor(
+    model: GatewayModel,
+    body: ChatCompletionRequest,
+  ): AgentConfig & { maxTokens: number } {
+    return {
+      ...model.agent,
+      temperature: body.temperature ?? model.agent.temperature,
+      maxTokens:
+        body.max_completion_tokens ??
+        body.max_tokens ??
+        model.agent.maxTokens ??
+        DEFAULT_MAX_TOKENS,
+    };
+  }
+
+  private agentFor(alias: string, config: AgentConfig): BaseAgent {
+    const cacheKey = `${alias}:${config.temperature}:${config.maxTokens}`;
+    const agent = this.agents.get(cacheKey) || AgentFactory.fromConfig(config);
+    this.agents.delete(cacheKey);
+    this.agents.set(cacheKey, agent);
+    if (this.agents.size > MAX_CACHED_AGENTS) {
+      this.agents.delete(this.agents.keys().next().value!);
+    }
+    return agent;
+  }
+
+  /**
+   * Reserves the request's worst case up front; `recordTokens` settles the
+   * difference once the completion length is known.
+   */
+  private chargeQuota(key: GatewayKey | undefined, tokens: number): void {
+    if (!key) {
+      return;
+    }
+    const usage = this.usageFor(key);
+    const { requestsPerMinute, tokensPerDay } = key.quota || {};
+    if (
+      requestsPerMinute !== undefined &&
+      usage.requests >= requestsPerMinute
+    ) {
+      throw new HttpError(
+        429,
+        "rate_limit_exceeded",
+        `Rate limit of ${requestsPerMinute} requests per minute reached`,
+        "rate_limit_exceeded",
+      );
+    }
+    if (tokensPerDay !== undefined && usage.tokens + tokens > tokensPerDay) {
+      throw new HttpError(
+        429,
+        "insufficient_quota",
+        `Daily quota of ${tokensPerDay} tokens used up`,
+        "insufficient_quota",
+      );
+    }
+    usage.requests++;
+    usage.tokens += tokens;
+  }
+
+  private recordTokens(key: GatewayKey | undefined, tokens: number): void {
+    if (key) {
+      const usage = this.usageFor(key);
+      usage.tokens = Math.max(0, usage.tokens + tokens);
+    }
+  }
+
+  private usageFor(key: GatewayKey): KeyUsage {
+    const minute = Math.floor(Date.now() / 60_000);
+    const day = new Date().toISOString().slice(0, 10);
+    let usage = this.usage.get(key.key);
+    if (!usage) {
+      usage = { minute, requests: 0, day, tokens: 0 };
+      this.usage.set(key.key, usage);
+    }
+    if (usage.minute !== minute) {
+      usage.minute = minute;
+      usage.requests = 0;
+    }
+    if (usage.day !== day) {
+      usage.day = day;
+      usage.tokens = 0;
+    }
+    return usage;
+  }
+
+  private async readJson(req: http.IncomingMessage): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+      size += (chunk as Buffer).length;
+      if (size > this.maxBodyBytes) {
+        throw new HttpError(413, "invalid_request_error", "Request too large");
+      }
+      chunks.push(chunk as Buffer);
+    }
+    try {
+      return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+    } catch {
+      throw new HttpError(400, "invalid_request_error", "Body is not JSON");
+    }
+  }
+
+  private sendJson(res: http.ServerResponse, status: number, body: unknown) {
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(body));
+  }
+
+  private sendEvent(res: http.ServerResponse, body: unknown) {
+    res.write(`data: ${JSON.stringify(body)}\n\n`);
+  }
+
+  private sendError(res: http.ServerResponse, error: unknown) {
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    this.sendJson(res, statusFor(error), { error: errorBody(error) });
+  }
+}
+
+function statusFor(error: unknown): number {
+  if (error instanceof HttpError) {
+    return error.status;
+  }
+  if (
+    error instanceof UnsupportedContentError ||
+    error instanceof AgentConfigError
+  ) {
+    return 400;
+  }
+  if (error instanceof BudgetExceededError) {
+    return 429;
+  }
+  if (error instanceof CircuitOpenError) {
+    return 503;
+  }
+  if (
+    error instanceof AgentCancelledError ||
+    error instanceof AgentTimeoutError
+  ) {
+    return 504;
+  }
+  return 502;
+}
+
+function errorBody(error: unknown) {
+  if (error instanceof HttpError) {
+    return { message: error.message, type: error.type, code: error.code };
+  }
+  return {
+    message: errorMessage(error),
+    type: statusFor(error) === 400 ? "invalid_request_error" : "api_error",
+    code: null,
+  };
+}
+
+function fromOpenAIMessage(message: OpenAIMessage): ChatMessage {
+  if (!message || typeof message !== "object") {
+    throw new HttpError(
+      400,
+      "invalid_request_error",
+      "Each message must be an object",
+    );
+  }
+  const role =
+    message.role === "developer"
+      ? "system"
+      : (message.role as ChatMessage["role"]);
+  if (!["system", "user", "assistant", "tool"].includes(role)) {
+    throw new HttpError(
+      400,
+      "invalid_request_error",
+      `Unsupported message role: ${message.role}`,
+    );
+  }
+  const content =
+    typeof message.content === "string" || !message.content
+      ? message.content || ""
+      : toArray(message.content, "content").map((part): ContentPart => {
+          if (part?.type === "text") {
+            return { type: "text", text: part.text || "" };
+          }
+          if (part?.type === "image_url" && part.image_url) {
+            return {
+              type: "image",
+              url: part.image_url.url,
+              detail: part.image_url.detail,
+            };
+          }
+          throw new HttpError(
+            400,
+            "invalid_request_error",
+            `Unsupported content part type: ${part?.type}`,
+          );
+        });
+  return {
+    role,
+    // Text-only parts collapse to a string for the text-only adapters
+    content:
+      typeof content !== "string" && content.every((p) => p.type === "text")
+        ? messageText(content)
+        : content,
+    ...(message.tool_calls?.length
+      ? {
+          toolCalls: toArray(message.tool_calls, "tool_calls").map((call) => {
+            if (typeof call?.function?.name !== "string") {
+              throw new HttpError(
+                400,
+                "invalid_request_error",
+                "Each tool call needs a function name",
+              );
+            }
+            return {
+              id: call.id,
+              name: call.function.name,
+              arguments: parseToolArguments(call.function.arguments),
+            };
+          }),
+        }
+      : {}),
+    ...(message.tool_call_id ? { toolCallId: message.tool_call_id } : {}),
+    ...(message.name ? { name: message.name } : {}),
+  };
+}
+
+function toArray<T>(value: T[], field: string): T[] {
+  if (!Array.isArray(value)) {
+    throw new HttpError(
+      400,
+      "invalid_request_error",
+      `${field} must be an array`,
+    );
+  }
+  return value;
+}
+
+function toOpenAIToolCall(call: ToolCall): OpenAIToolCall {
+  return {
+    id: call.id,
+    type: "function",
+    function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+  };
+}
@@ -1,12 +1,33 @@
 import { DiscussServiceClient } from "@google-ai/generativelanguage";
 import { GoogleAuth } from "google-auth-library";
-import { BaseAgent, ChatMessage, ModelConfig } from "./base_agent";
+import {
+  BaseAgent,
+  ChatMessage,
+  ChatOptions,
+  ModelConfig,
+  StreamEvent,
+  StreamEventOptions,
+} from "./base_agent";
+import { beginCall, CallScope, runCancellable } from "./cancellation";
+import { assertTextOnly, messageText } from "./content_parts";
+import {
+  groupTurns,
+  normalizeMessages,
+  PALM_MESSAGE_RULES,
+} from "./message_format";
+import { textFromEvents } from "./stream_events";
+import { trackUsage, UsageListener } from "./usage";
+
+// PaLM identifies the two alternating speakers by opaque author ids
+const PALM_USER = "0";
+const PALM_MODEL = "1";
 
 export class PalmAgent implements BaseAgent {
   private client: DiscussServiceClient;
   modelName: string;
   temperature: number;
   maxTokens: number;
+  private onUsage?: UsageListener;
 
   constructor(config: ModelConfig) {
     const auth = new GoogleAuth({
@@ -17,34 +38,92 @@ export class PalmAgent implements BaseAgent {
     this.modelName = config.modelName || "chat-bison";
     this.temperature = config.temperature;
     this.maxTokens = config.maxTokens;
+    this.onUsage = config.onUsage;
   }
 
-  async chat(messages: ChatMessage[]): Promise<string> {
-    const [response] = await this.client.generateMessage({
-      model: this.modelName,
-      prompt: { messages: this.formatMessages(messages) },
-      temperature: this.temperature,
-      candidateCount: 1,
+  async chat(messages: ChatMessage[], options?: ChatOptions): Promise<string> {
+    return runCancellable("palm", options, async (call) => {
+      const usage = trackUsage("palm", this.modelName, messages, this.onUsage);
+      const response = await this.generateMessage(messages, call);
+      const content = response.candidates?.[0]?.content || "";
+      // PaLM does not report token counts, so usage is always estimated
+      usage.finish(undefined, content);
+      return content;
     });
-    return response.candidates?.[0]?.content || "";
   }
 
-  async *stream(messages: ChatMessage[]): AsyncGenerator<string> {
-    const [response] = await this.client.generateMessageStream({
+  async *stream(
+    messages: ChatMessage[],
+    options?: ChatOptions,
+  ): AsyncGenerator<string> {
+    yield* textFromEvents(this.streamEvents(messages, options));
+  }
+
+  /**
+   * PaLM has no streaming endpoint, so the whole reply arrives as one text
+   * event. It has no tool calling either, so `options.tools` is ignored.
+   */
+  async *streamEvents(
+    messages: ChatMessage[],
+    options?: StreamEventOptions,
+  ): AsyncGenerator<StreamEvent> {
+    const call = beginCall("palm", options);
+    try {
+      const usage = trackUsage("palm", this.modelName, messages, this.onUsage);
+      const response = await this.generateMessage(messages, call);
+
+      const content = response.candidates?.[0]?.content || "";
+      if (content) {
+        yield { type: "text", text: content };
+      }
+      yield { type: "usage", usage: usage.finish(undefined, content) };
+      yield {
+        type: "finish",
+        reason: response.filters?.length ? "content_filter" : "stop",
+      };
+    } catch (error) {
+      yield { type: "error", error: call.wrapError(error) };
+    } finally {
+      call.dispose();
+    }
+  }
+
+  /**
+   * The client has no signal option, but its gax promise can be cancelled,
+   * which stops the underlying gRPC call.
+   */
+  private async generateMessage(messages: ChatMessage[], call: CallScope) {
+    call.throwIfCancelled();
+    const pending = this.client.generateMessage({
       model: this.modelName,
-      prompt: { messages: this.formatMessages(messages) },
+      prompt: this.formatPrompt(messages),
       temperature: this.temperature,
+      candidateCount: 1,
     });
-
-    for await (const chunk of response.candidates || []) {
-      if (chunk.content) {
-        yield chunk.content;
-      }
+    const onAbort = () =>
+      (pending as typeof pending & { cancel?: () => void }).cancel?.();
+    call.signal.addEventListener("abort", onAbort, { once: true });
+    try {
+      const [response] = await call.race(pending);
+      return response;
+    } finally {
+      call.signal.removeEventListener("abort", onAbort);
     }
   }
 
-  private formatMessages(messages: ChatMessage[]): Array<{ content: string }> {
-    return messages.map((msg) => ({ content: msg.content }));
+  private formatPrompt(messages: ChatMessage[]): {
+    context?: string;
+    messages: Array<{ author: string; content: string }>;
+  } {
+    assertTextOnly(messages, "palm");
+    const normalized = normalizeMessages(messages, PALM_MESSAGE_RULES);
+    return {
+      context: normalized.system || undefined,
+      messages: groupTurns(normalized.messages).map((turn) => ({
+        author: turn[0].role === "assistant" ? PALM_MODEL : PALM_USER,
+        content: turn.map((msg) => messageText(msg.content)).join("\n\n"),
+      })),
+    };
   }
 
   getModelConfig(): ModelConfig {
@@ -0,0 +1,92 @@
+import { findByModel } from "./model_lookup";
+import { UsageRecord } from "./usage";
+
+export interface ModelPrice {
+  /** USD per million input tokens */
+  input: number;
+  /** USD per million output tokens */
+  output: number;
+}
+
+/**
+ * List prices keyed by model id. Lookups fall back to the model's family,
+ * so dated snapshots ("gpt-4o-2024-08-06") use their family's price.
+ * Local models (Ollama) are free and are not listed.
+ */
+export const MODEL_PRICING: Record<string, ModelPrice> = {
+  // OpenAI
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4-turbo": { input: 10, output: 30 },
+  "gpt-4": { input: 30, output: 60 },
+  "gpt-3.5-turbo": { input: 0.5, output: 1.5 },
+  o1: { input: 15, output: 60 },
+  "o1-mini": { input: 3, output: 12 },
+  // Anthropic
+  "claude-3-5-sonnet": { input: 3, output: 15 },
+  "claude-3-5-haiku": { input: 0.8, output: 4 },
+  "claude-3-opus": { input: 15, output: 75 },
+  "claude-3-sonnet": { input: 3, output: 15 },
+  "claude-3-haiku": { input: 0.25, output: 1.25 },
+  "claude-2": { input: 8, output: 24 },
+  "claude-instant": { input: 0.8, output: 2.4 },
+  // Google
+  "gemini-1.5-pro": { input: 1.25, output: 5 },
+  "gemini-1.5-flash": { input: 0.075, output: 0.3 },
+  "gemini-1.0-pro": { input: 0.5, output: 1.5 },
+  "gemini-pro": { input: 0.5, output: 1.5 },
+  "chat-bison": { input: 0.5, output: 0.5 },
+  // Mistral
+  "mistral-large": { input: 2, output: 6 },
+  "mistral-medium": { input: 2.7, output: 8.1 },
+  "mistral-small": { input: 0.2, output: 0.6 },
+  "mistral-tiny": { input: 0.25, output: 0.25 },
+  "open-mistral-7b": { input: 0.25, output: 0.25 },
+  "open-mixtral-8x7b": { input: 0.7, output: 0.7 },
+  // Cohere
+  "command-r-plus": { input: 2.5, output: 10 },
+  "command-r": { input: 0.15, output: 0.6 },
+  command: { input: 1, output: 2 },
+  "command-light": { input: 0.3, output: 0.6 },
+  // Bedrock ids carry a vendor prefix
+  "anthropic.claude-3-5-sonnet": { input: 3, output: 15 },
+  "anthropic.claude-3-sonnet": { input: 3, output: 15 },
+  "anthropic.claude-3-haiku": { input: 0.25, output: 1.25 },
+  "anthropic.claude-v2": { input: 8, output: 24 },
+  "meta.llama3-70b-instruct": { input: 2.65, output: 3.5 },
+  "meta.llama3-8b-instruct": { input: 0.3, output: 0.6 },
+  "amazon.titan-text-express": { input: 0.2, output: 0.6 },
+};
+
+export function findModelPrice(
+  model: string,
+  pricing: Record<string, ModelPrice> = MODEL_PRICING,
+): ModelPrice | undefined {
+  return findByModel(model, pricing);
+}
+
+/** Providers that run on local hardware and cost nothing per token */
+export const LOCAL_PROVIDERS = new Set(["ollama"]);
+
+/**
+ * Cost of a single call in USD, or undefined for a model missing from the
+ * table, so callers can tell "free" from "unknown".
+ */
+export function priceUsage(
+  usage: Pick<UsageRecord, "model" | "inputTokens" | "outputTokens"> & {
+    provider?: string;
+  },
+  pricing: Record<string, ModelPrice> = MODEL_PRICING,
+): number | undefined {
+  if (usage.provider && LOCAL_PROVIDERS.has(usage.provider)) {
+    return 0;
+  }
+  const price = findModelPrice(usage.model, pricing);
+  if (!price) {
+    return undefined;
+  }
+  return (
+    (usage.inputTokens * price.input + usage.outputTokens * price.output) /
+    1_000_000
+  );
+}
@@ -0,0 +1,195 @@
+import { BaseAgent, ModelConfig } from "./base_agent";
+import { AgentConfigError, UnknownProviderError } from "./errors";
+import { JsonSchema, validateJsonSchema } from "./json_schema";
+import { UsageListener } from "./usage";
+
+export interface ProviderCapabilities {
+  streaming: boolean;
+  tools: boolean;
+  vision: boolean;
+  jsonMode: boolean;
+  /** Whether streams can report token usage (OpenAI's `stream_options`) */
+  streamUsage?: boolean;
+}
+
+/** Declarative agent description, e.g. one entry of a JSON config file */
+export interface AgentConfig {
+  provider: string;
+  model: string;
+  temperature?: number;
+  maxTokens?: number;
+  apiKey?: string;
+  /** Environment variable holding the key, so config files stay secret-free */
+  apiKeyEnv?: string;
+  baseUrl?: string;
+  /** For endpoints whose features depend on the server behind them */
+  capabilities?: Partial<ProviderCapabilities>;
+}
+
+export interface ProviderDefinition {
+  name: string;
+  capabilities: ProviderCapabilities;
+  /** Schema the whole AgentConfig must match; defaults to AGENT_CONFIG_SCHEMA */
+  configSchema?: JsonSchema;
+  /** Whether a config without any API key is rejected */
+  requiresApiKey?: boolean;
+  /** Environment variable read when a config names none and gives no key */
+  apiKeyEnv?: string;
+  /** `capabilities` are the provider's, overridden by the config's own */
+  create(config: ModelConfig, capabilities: ProviderCapabilities): BaseAgent;
+}
+
+export const AGENT_CONFIG_SCHEMA: JsonSchema = {
+  type: "object",
+  required: ["provider", "model"],
+  properties: {
+    provider: { type: "string" },
+    model: { type: "string" },
+    temperature: { type: "number" },
+    maxTokens: { type: "integer" },
+    apiKey: { type: "string" },
+    apiKeyEnv: { type: "string" },
+    baseUrl: { type: "string" },
+    capabilities: {
+      type: "object",
+      properties: {
+        streaming: { type: "boolean" },
+        tools: { type: "boolean" },
+        vision: { type: "boolean" },
+        jsonMode: { type: "boolean" },
+        streamUsage: { type: "boolean" },
+      },
+      additionalProperties: false,
+    },
+  },
+  additionalProperties: false,
+};
+
+const DEFAULT_TEMPERATURE = 0.7;
+export const DEFAULT_MAX_TOKENS = 1024;
+
+/**
+ * Named agent providers. AgentFactory registers the built-in adapters on
+ * import; anything else, such as another OpenAI-compatible endpoint, can be
+ * added with `register` without touching the factory.
+ */
+export class ProviderRegistry {
+  private providers = new Map<string, ProviderDefinition>();
+
+  register(definition: ProviderDefinition, replace = false): void {
+    if (this.providers.has(definition.name) && !replace) {
+      throw new Error(`Provider ${definition.name} is already registered`);
+    }
+    this.providers.set(definition.name, definition);
+  }
+
+  unregister(name: string): void {
+    this.providers.delete(name);
+  }
+
+  has(name: string): boolean {
+    return this.providers.has(name);
+  }
+
+  get(name: string): ProviderDefinition {
+    const definition = this.providers.get(name);
+    if (!definition) {
+      throw new UnknownProviderError(name, [...this.providers.keys()]);
+    }
+    return definition;
+  }
+
+  list(): ProviderDefinition[] {
+    return [...this.providers.values()];
+  }
+
+  /** Names of the providers that support a capability */
+  withCapability(capability: keyof ProviderCapabilities): string[] {
+    return this.list()
+      .filter((definition) => definition.capabilities[capability])
+      .map((definition) => definition.name);
+  }
+
+  capabilitiesOf(config: AgentConfig): ProviderCapabilities {
+    return {
+      ...this.get(config.provider).capabilities,
+      ...config.capabilities,
+    };
+  }
+
+  /** Returns every problem with a config; an empty list means it is valid */
+  validate(config: unknown): string[] {
+    if (!config || typeof config !== "object" || Array.isArray(config)) {
+      return ["config must be an object"];
+    }
+    const { provider } = config as { provider?: unknown };
+    if (typeof provider !== "string") {
+      return ["provider must be a string"];
+    }
+    const definition = this.providers.get(provider);
+    if (!definition) {
+      return [`unknown provider "${provider}"`];
+    }
+
+    // Fields explicitly set to undefined count as absent, as in JSON
+    const defined = Object.fromEntries(
+      Object.entries(config).filter(([, value]) => value !== undefined),
+    );
+    const issues = validateJsonSchema(
+      defined,
+      definition.configSchema || AGENT_CONFIG_SCHEMA,
+    );
+    if (issues.length) {
+      return issues;
+    }
+    const agentConfig = config as AgentConfig;
+    if (agentConfig.temperature !== undefined && agentConfig.temperature < 0) {
+      issues.push("$.temperature: must not be negative");
+    }
+    if (agentConfig.maxTokens !== undefined && agentConfig.maxTokens <= 0) {
+      issues.push("$.maxTokens: must be positive");
+    }
+    if (definition.requiresApiKey && !this.apiKeyFor(agentConfig)) {
+      const env = agentConfig.apiKeyEnv || definition.apiKeyEnv;
+      issues.push(
+        env ? `$.apiKey: not set and ${env} is empty` : "$.apiKey: is required",
+      );
+    }
+    return issues;
+  }
+
+  /** Validates a config and turns it into the ModelConfig adapters take */
+  resolve(config: AgentConfig, onUsage?: UsageListener): ModelConfig {
+    const issues = this.validate(config);
+    if (issues.length) {
+      throw new AgentConfigError(String(config?.provider), issues);
+    }
+    return {
+      modelName: config.model,
+      temperature: config.temperature ?? DEFAULT_TEMPERATURE,
+      maxTokens: config.maxTokens ?? DEFAULT_MAX_TOKENS,
+      apiKey: this.apiKeyFor(config) || "",
+      baseUrl: config.baseUrl,
+      onUsage,
+    };
+  }
+
+  create(config: AgentConfig, onUsage?: UsageListener): BaseAgent {
+    const modelConfig = this.resolve(config, onUsage);
+    return this.get(config.provider).create(
+      modelConfig,
+      this.capabilitiesOf(config),
+    );
+  }
+
+  private apiKeyFor(config: AgentConfig): string | undefined {
+    if (config.apiKey) {
+      return config.apiKey;
+    }
+    const env =
+      config.apiKeyEnv || this.providers.get(config.provider)?.apiKeyEnv;
+    return env ? process.env[env] : undefined;
+  }
+}
+
+export const providerRegistry = new ProviderRegistry();
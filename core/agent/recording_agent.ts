@@ -0,0 +1,135 @@
+import {
+  BaseAgent,
+  ChatMessage,
+  ChatOptions,
+  ModelConfig,
+  ToolChatResponse,
+  ToolDefinition,
+} from "./base_agent";
+import {
+  Cassette,
+  CassetteChunk,
+  CassetteEntry,
+  loadCassette,
+  saveCassette,
+} from "./cassette";
+import { JsonSchema } from "./json_schema";
+import {
+  normalizeRequest,
+  RequestExtras,
+  RequestMethod,
+  requestKey,
+} from "./request_key";
+
+/**
+ * Passes calls through to a real agent and appends each request/response
+ * pair to a cassette file, which ReplayAgent can serve back offline.
+ */
+export class RecordingAgent implements BaseAgent {
+  modelName: string;
+  temperature: number;
+  maxTokens: number;
+  chatWithTools?: (
+    messages: ChatMessage[],
+    tools: ToolDefinition[],
+    options?: ChatOptions,
+  ) => Promise<ToolChatResponse>;
+  chatJson?: (
+    messages: ChatMessage[],
+    schema: JsonSchema,
+    options?: ChatOptions,
+  ) => Promise<string>;
+
+  private agent: BaseAgent;
+  private cassettePath: string;
+  private cassette: Cassette;
+
+  constructor(agent: BaseAgent, cassettePath: string) {
+    this.agent = agent;
+    this.cassettePath = cassettePath;
+    // Recording into an existing cassette adds to it
+    this.cassette = loadCassette(cassettePath);
+    this.modelName = agent.modelName;
+    this.temperature = agent.temperature;
+    this.maxTokens = agent.maxTokens;
+
+    const { chatWithTools, chatJson } = agent;
+    if (chatWithTools) {
+      this.chatWithTools = async (messages, tools, options) => {
+        const startedAt = Date.now();
+        const response = await chatWithTools.call(
+          agent,
+          messages,
+          tools,
+          options,
+        );
+        this.record("chatWithTools", messages, { tools }, startedAt, {
+          content: response.content,
+          toolCalls: response.toolCalls,
+        });
+        return response;
+      };
+    }
+    if (chatJson) {
+      this.chatJson = async (messages, schema, options) => {
+        const startedAt = Date.now();
+        const content = await chatJson.call(agent, messages, schema, options);
+        this.record("chatJson", messages, { schema }, startedAt, { content });
+        return content;
+      };
+    }
+  }
+
+  async chat(messages: ChatMessage[], options?: ChatOptions): Promise<string> {
+    const startedAt = Date.now();
+    const content = await this.agent.chat(messages, options);
+    this.record("chat", messages, {}, startedAt, { content });
+    return content;
+  }
+
+  async *stream(
+    messages: ChatMessage[],
+    options?: ChatOptions,
+  ): AsyncGenerator<string> {
+    const startedAt = Date.now();
+    const chunks: CassetteChunk[] = [];
+    let lastChunkAt = startedAt;
+    for await (const text of this.agent.stream(messages, options)) {
+      const now = Date.now();
+      chunks.push({ text, delayMs: now - lastChunkAt });
+      lastChunkAt = now;
+      yield text;
+    }
+    this.record("stream", messages, {}, startedAt, {
+      content: chunks.map((chunk) => chunk.text).join(""),
+      chunks,
+    });
+  }
+
+  getModelConfig(): ModelConfig {
+    return this.agent.getModelConfig();
+  }
+
+  getCassette(): Cassette {
+    return this.cassette;
+  }
+
+  private record(
+    method: RequestMethod,
+    messages: ChatMessage[],
+    extras: RequestExtras,
+    startedAt: number,
+    response: CassetteEntry["response"],
+  ): void {
+    const request = normalizeRequest(method, messages, this, extras);
+    this.cassette.entries.push({
+      key: requestKey(request),
+      request,
+      response,
+      latencyMs: Date.now() - startedAt,
+      recordedAt: new Date().toISOString(),
+    });
+    // Written after every call so a crashed run still leaves a usable file
+    saveCassette(this.cassettePath, this.cassette);
+  }
+}
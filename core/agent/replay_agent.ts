@@ -0,0 +1,213 @@
+import {
+  BaseAgent,
+  ChatMessage,
+  ChatOptions,
+  ModelConfig,
+  ToolChatResponse,
+  ToolDefinition,
+} from "./base_agent";
+import { beginCall, iterateCancellable, runCancellable } from "./cancellation";
+import { messageText } from "./content_parts";
+import { Cassette, CassetteEntry, loadCassette } from "./cassette";
+import { CassetteMissError } from "./errors";
+import { JsonSchema } from "./json_schema";
+import {
+  NormalizedRequest,
+  normalizeRequest,
+  RequestExtras,
+  RequestMethod,
+  requestKey,
+} from "./request_key";
+
+export interface ReplayOptions {
+  /**
+   * "strict" only serves entries whose normalized request is identical;
+   * "fuzzy" serves the most similar recorded conversation for the method.
+   */
+  mode?: "strict" | "fuzzy";
+  /** Lowest word-overlap score (0-1) a fuzzy match may have */
+  minSimilarity?: number;
+  /** Wait out the recorded chunk delays when streaming */
+  replayTiming?: boolean;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+/**
+ * Word-set overlap (Jaccard) between the text of two conversations.
+ */
+export function requestSimilarity(
+  a: NormalizedRequest,
+  b: NormalizedRequest,
+): number {
+  const words = (request: NormalizedRequest) =>
+    new Set(
+      request.messages
+        .map((msg) => `${msg.role} ${messageText(msg.content)}`)
+        .join(" ")
+        .toLowerCase()
+        .split(/\W+/)
+        .filter(Boolean),
+    );
+  const left = words(a);
+  const right = words(b);
+  if (left.size === 0 && right.size === 0) {
+    return 1;
+  }
+  let shared = 0;
+  for (const word of left) {
+    if (right.has(word)) {
+      shared++;
+    }
+  }
+  return shared / (left.size + right.size - shared);
+}
+
+/**
+ * Answers from a cassette written by RecordingAgent instead of calling a
+ * provider. Repeated identical requests are served in recorded order.
+ */
+export class ReplayAgent implements BaseAgent {
+  modelName: string;
+  temperature: number;
+  maxTokens: number;
+
+  private cassette: Cassette;
+  private mode: "strict" | "fuzzy";
+  private minSimilarity: number;
+  private replayTiming: boolean;
+  private sleep: (ms: number) => Promise<void>;
+  private served = new Map<string, number>();
+
+  constructor(
+    config: ModelConfig,
+    cassette: string | Cassette,
+    options: ReplayOptions = {},
+  ) {
+    this.cassette =
+      typeof cassette === "string" ? loadCassette(cassette) : cassette;
+    this.mode = options.mode || "strict";
+    this.minSimilarity = options.minSimilarity ?? 0.6;
+    this.replayTiming = options.replayTiming ?? false;
+    this.sleep =
+      options.sleep ||
+      ((ms) => new Promise((resolve) => setTimeout(resolve, ms)));
+    this.modelName = config.modelName;
+    this.temperature = config.temperature;
+    this.maxTokens = config.maxTokens;
+  }
+
+  async chat(messages: ChatMessage[], options?: ChatOptions): Promise<string> {
+    return runCancellable(
+      "replay",
+      options,
+      async () => this.lookup("chat", messages).response.content,
+    );
+  }
+
+  async *stream(
+    messages: ChatMessage[],
+    options?: ChatOptions,
+  ): AsyncGenerator<string> {
+    const call = beginCall("replay", options);
+    try {
+      call.throwIfCancelled();
+      const entry = this.lookup("stream", messages);
+      const chunks = entry.response.chunks || [
+        { text: entry.response.content, delayMs: 0 },
+      ];
+      for await (const chunk of iterateCancellable(chunks, call)) {
+        if (this.replayTiming && chunk.delayMs > 0) {
+          await call.race(this.sleep(chunk.delayMs));
+        }
+        yield chunk.text;
+      }
+    } finally {
+      call.dispose();
+    }
+  }
+
+  async chatWithTools(
+    messages: ChatMessage[],
+    tools: ToolDefinition[],
+    options?: ChatOptions,
+  ): Promise<ToolChatResponse> {
+    return runCancellable("replay", options, async () => {
+      const entry = this.lookup("chatWithTools", messages, { tools });
+      return {
+        content: entry.response.content,
+        toolCalls: entry.response.toolCalls || [],
+      };
+    });
+  }
+
+  async chatJson(
+    messages: ChatMessage[],
+    schema: JsonSchema,
+    options?: ChatOptions,
+  ): Promise<string> {
+    return runCancellable(
+      "replay",
+      options,
+      async () =>
+        this.lookup("chatJson", messages, { schema }).response.content,
+    );
+  }
+
+  getModelConfig(): ModelConfig {
+    return {
+      modelName: this.modelName,
+      temperature: this.temperature,
+      maxTokens: this.maxTokens,
+      apiKey: "",
+    };
+  }
+
+  private lookup(
+    method: RequestMethod,
+    messages: ChatMessage[],
+    extras: RequestExtras = {},
+  ): CassetteEntry {
+    const request = normalizeRequest(method, messages, this, extras);
+    const key = requestKey(request);
+
+    const exact = this.cassette.entries.filter((entry) => entry.key === key);
+    if (exact.length) {
+      return this.next(key, exact);
+    }
+    if (this.mode === "strict") {
+      throw new CassetteMissError(method, key, "no exact match");
+    }
+
+    let best: CassetteEntry | undefined;
+    let bestScore = -1;
+    for (const entry of this.cassette.entries) {
+      if (entry.request.method !== method) {
+        continue;
+      }
+      const score = requestSimilarity(request, entry.request);
+      if (score > bestScore) {
+        best = entry;
+        bestScore = score;
+      }
+    }
+    if (!best || bestScore < this.minSimilarity) {
+      throw new CassetteMissError(
+        method,
+        key,
+        `best similarity ${bestScore.toFixed(2)} is below ${this.minSimilarity}`,
+      );
+    }
+    const bestKey = best.key;
+    return this.next(
+      bestKey,
+      this.cassette.entries.filter((entry) => entry.key === bestKey),
+    );
+  }
+
+  /** Serves repeats in order, sticking to the last one when they run out */
+  private next(key: string, entries: CassetteEntry[]): CassetteEntry {
+    const index = this.served.get(key) ?? 0;
+    this.served.set(key, index + 1);
+    return entries[Math.min(index, entries.length - 1)];
+  }
+}
@@ -0,0 +1,87 @@
+import crypto from "crypto";
+import { ChatMessage, ModelConfig, ToolDefinition } from "./base_agent";
+import { JsonSchema } from "./json_schema";
+
+export type RequestMethod = "chat" | "stream" | "chatWithTools" | "chatJson";
+
+/** The parts of a call that decide its answer, in a stable shape */
+export interface NormalizedRequest {
+  method: RequestMethod;
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  messages: ChatMessage[];
+  tools?: ToolDefinition[];
+  schema?: JsonSchema;
+  /** Who serves the model, for keys shared across providers */
+  provider?: string;
+}
+
+export interface RequestExtras {
+  tools?: ToolDefinition[];
+  schema?: JsonSchema;
+}
+
+/**
+ * Whitespace differences never change what a prompt asks for, so they are
+ * collapsed before requests are compared.
+ */
+export function normalizeText(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+export function normalizeRequest(
+  method: RequestMethod,
+  messages: ChatMessage[],
+  config: Pick<ModelConfig, "modelName" | "temperature" | "maxTokens">,
+  extras: RequestExtras = {},
+): NormalizedRequest {
+  return {
+    method,
+    model: config.modelName,
+    temperature: config.temperature,
+    maxTokens: config.maxTokens,
+    messages: messages.map((msg) => ({
+      role: msg.role,
+      content:
+        typeof msg.content === "string"
+          ? normalizeText(msg.content)
+          : msg.content.map((part) =>
+              part.type === "text"
+                ? { ...part, text: normalizeText(part.text) }
+                : part,
+            ),
+      ...(msg.toolCalls ? { toolCalls: msg.toolCalls } : {}),
+      ...(msg.toolCallId ? { toolCallId: msg.toolCallId } : {}),
+      ...(msg.name ? { name: msg.name } : {}),
+    })),
+    ...(extras.tools ? { tools: extras.tools } : {}),
+    ...(extras.schema ? { schema: extras.schema } : {}),
+  };
+}
+
+/**
+ * JSON.stringify with object keys sorted, so equal requests built in a
+ * different property order hash the same.
+ */
+export function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries
+      .map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export function requestKey(request: NormalizedRequest): string {
+  return crypto
+    .createHash("sha256")
+    .update(stableStringify(request))
+    .digest("hex");
+}
@@ -0,0 +1,422 @@
+import {
+  BaseAgent,
+  ChatMessage,
+  ChatOptions,
+  ModelConfig,
+  ToolChatResponse,
+  ToolDefinition,
+} from "./base_agent";
+import {
+  AgentCancelledError,
+  AgentTimeoutError,
+  AllAgentsFailedError,
+  CircuitOpenError,
+  StreamInterruptedError,
+} from "./errors";
+
+export interface ErrorClassification {
+  retryable: boolean;
+  reason: string;
+  status?: number;
+  retryAfterMs?: number;
+}
+
+export interface CircuitBreakerOptions {
+  failureThreshold?: number;
+  resetTimeoutMs?: number;
+}
+
+export interface ResilienceOptions extends CircuitBreakerOptions {
+  fallbacks?: BaseAgent[];
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  classifyError?: (error: unknown) => ErrorClassification;
+  /** Breakers by agent; by default every wrapper of an agent shares one */
+  breakers?: WeakMap<BaseAgent, CircuitBreaker>;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+const RETRYABLE_STATUS = new Set([408, 409, 425, 429, 500, 502, 503, 504, 529]);
+
+// Transport failures surfaced by Node's fetch/http stack
+const RETRYABLE_NETWORK_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ETIMEDOUT",
+  "EAI_AGAIN",
+  "EPIPE",
+  "UND_ERR_SOCKET",
+  "UND_ERR_CONNECT_TIMEOUT",
+]);
+
+// Error names used by the Bedrock runtime for transient conditions
+const RETRYABLE_AWS_ERRORS = new Set([
+  "ThrottlingException",
+  "ServiceUnavailableException",
+  "InternalServerException",
+  "ModelNotReadyException",
+  "ModelTimeoutException",
+]);
+
+// gRPC status codes used by the Google Cloud clients (PaLM)
+const RETRYABLE_GRPC_CODES = new Set([4, 8, 10, 13, 14]);
+
+interface ProviderError {
+  name?: string;
+  message?: string;
+  status?: number;
+  statusCode?: number;
+  code?: string | number;
+  headers?: Record<string, string>;
+  $metadata?: { httpStatusCode?: number };
+  $retryable?: unknown;
+  cause?: { code?: string };
+}
+
+/**
+ * Maps errors thrown by the provider SDKs (OpenAI, Anthropic, Mistral,
+ * Cohere, Bedrock, Google and Ollama's fetch) onto retryable or fatal.
+ */
+export function classifyError(error: unknown): ErrorClassification {
+  if (error instanceof CircuitOpenError) {
+    return { retryable: false, reason: "circuit open" };
+  }
+  if (error instanceof AgentCancelledError) {
+    return { retryable: false, reason: "cancelled" };
+  }
+  if (error instanceof AgentTimeoutError) {
+    return { retryable: true, reason: "timeout" };
+  }
+  if (!error || typeof error !== "object") {
+    return { retryable: false, reason: "unknown error" };
+  }
+
+  const err = error as ProviderError;
+  const status =
+    err.status ??
+    err.statusCode ??
+    err.$metadata?.httpStatusCode ??
+    parseStatusFromMessage(err.message);
+  const retryAfterMs = parseRetryAfter(err.headers?.["retry-after"]);
+
+  if (err.name && RETRYABLE_AWS_ERRORS.has(err.name)) {
+    return { retryable: true, reason: err.name, status, retryAfterMs };
+  }
+  if (err.$retryable) {
+    return { retryable: true, reason: "marked retryable", status };
+  }
+  if (typeof err.code === "number" && RETRYABLE_GRPC_CODES.has(err.code)) {
+    return { retryable: true, reason: `grpc code ${err.code}` };
+  }
+  const networkCode = typeof err.code === "string" ? err.code : err.cause?.code;
+  if (networkCode && RETRYABLE_NETWORK_CODES.has(networkCode)) {
+    return { retryable: true, reason: networkCode };
+  }
+  if (
+    err.name === "APIConnectionError" ||
+    err.name === "APIConnectionTimeoutError" ||
+    err.name === "CohereTimeoutError"
+  ) {
+    return { retryable: true, reason: err.name };
+  }
+  if (status !== undefined) {
+    return {
+      retryable: RETRYABLE_STATUS.has(status),
+      reason: `status ${status}`,
+      status,
+      retryAfterMs,
+    };
+  }
+  return { retryable: false, reason: err.name || "unknown error" };
+}
+
+function parseStatusFromMessage(message?: string): number | undefined {
+  // Mistral and Gemini only expose the HTTP status inside the message
+  const match = message?.match(/(?:status:?\s*|\[)(\d{3})\b/i);
+  return match ? Number(match[1]) : undefined;
+}
+
+function parseRetryAfter(value?: string): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  return Number.isFinite(seconds) ? seconds * 1000 : undefined;
+}
+
+export function providerOf(agent: BaseAgent): string {
+  return agent.provider || agent.constructor.name;
+}
+
+export class CircuitBreaker {
+  readonly provider: string;
+  private failures = 0;
+  private openedAt?: number;
+  private trialPending = false;
+  private failureThreshold: number;
+  private resetTimeoutMs: number;
+
+  constructor(provider: string, options: CircuitBreakerOptions = {}) {
+    this.provider = provider;
+    this.failureThreshold = options.failureThreshold ?? 5;
+    this.resetTimeoutMs = options.resetTimeoutMs ?? 30_000;
+  }
+
+  get state(): "closed" | "open" | "half-open" {
+    if (this.openedAt === undefined) {
+      return "closed";
+    }
+    return Date.now() - this.openedAt >= this.resetTimeoutMs
+      ? "half-open"
+      : "open";
+  }
+
+  /**
+   * Throws while the circuit is open. A half-open circuit lets a single
+   * trial request through, returning true for it, and turns every other
+   * request away until that trial has been recorded or ended.
+   */
+  assertClosed(): boolean {
+    const state = this.state;
+    if (state === "open" || (state === "half-open" && this.trialPending)) {
+      throw new CircuitOpenError(
+        this.provider,
+        new Date((this.openedAt ?? 0) + this.resetTimeoutMs),
+      );
+    }
+    this.trialPending = state === "half-open";
+    return this.trialPending;
+  }
+
+  /** Ends a trial that said nothing about the provider, e.g. a bad request */
+  endTrial(): void {
+    this.trialPending = false;
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.openedAt = undefined;
+    this.trialPending = false;
+  }
+
+  recordFailure(): void {
+    this.failures++;
+    this.trialPending = false;
+    if (this.state === "half-open" || this.failures >= this.failureThreshold) {
+      this.openedAt = Date.now();
+    }
+  }
+}
+
+// Keyed by agent instance: agents of the same class can point at different
+// endpoints or keys, and one failing must not open the others' circuits
+const sharedBreakers = new WeakMap<BaseAgent, CircuitBreaker>();
+
+/**
+ * Wraps an agent with retries (exponential backoff with full jitter),
+ * per-agent circuit breakers and failover to backup agents.
+ */
+export class ResilientAgent implements BaseAgent {
+  modelName: string;
+  temperature: number;
+  maxTokens: number;
+
+  private agents: BaseAgent[];
+  private maxRetries: number;
+  private baseDelayMs: number;
+  private maxDelayMs: number;
+  private breakerOptions: CircuitBreakerOptions;
+  private breakers: WeakMap<BaseAgent, CircuitBreaker>;
+  private classify: (error: unknown) => ErrorClassification;
+  private sleep: (ms: number) => Promise<void>;
+
+  constructor(agent: BaseAgent, options: ResilienceOptions = {}) {
+    this.agents = [agent, ...(options.fallbacks || [])];
+    this.maxRetries = options.maxRetries ?? 2;
+    this.baseDelayMs = options.baseDelayMs ?? 500;
+    this.maxDelayMs = options.maxDelayMs ?? 8_000;
+    this.breakerOptions = {
+      failureThreshold: options.failureThreshold,
+      resetTimeoutMs: options.resetTimeoutMs,
+    };
+    this.breakers = options.breakers || sharedBreakers;
+    this.classify = options.classifyError || classifyError;
+    this.sleep =
+      options.sleep ||
+      ((ms) => new Promise((resolve) => setTimeout(resolve, ms)));
+
+    this.modelName = agent.modelName;
+    this.temperature = agent.temperature;
+    this.maxTokens = agent.maxTokens;
+  }
+
+  async chat(messages: ChatMessage[], options?: ChatOptions): Promise<string> {
+    return this.execute(this.agents, (agent) => agent.chat(messages, options));
+  }
+
+  async chatWithTools(
+    messages: ChatMessage[],
+    tools: ToolDefinition[],
+    options?: ChatOptions,
+  ): Promise<ToolChatResponse> {
+    return this.execute(
+      this.agents.filter((agent) => agent.chatWithTools),
+      (agent) => agent.chatWithTools!(messages, tools, options),
+    );
+  }
+
+  /**
+   * Failures before the first chunk are retried and failed over like chat;
+   * once text has been yielded a StreamInterruptedError is thrown instead.
+   * A stream the consumer abandons after a chunk counts as a success.
+   */
+  async *stream(
+    messages: ChatMessage[],
+    options?: ChatOptions,
+  ): AsyncGenerator<string> {
+    const failures: Array<{ provider: string; error: unknown }> = [];
+
+    for (const agent of this.agents) {
+      const provider = providerOf(agent);
+      const breaker = this.getBreaker(agent);
+
+      for (let attempt = 0; ; attempt++) {
+        let partialText = "";
+        let chunksReceived = 0;
+        let trial = false;
+        let settled = false;
+        try {
+          trial = breaker.assertClosed();
+          for await (const chunk of agent.stream(messages, options)) {
+            partialText += chunk;
+            chunksReceived++;
+            yield chunk;
+          }
+          settled = true;
+          breaker.recordSuccess();
+          return;
+        } catch (error) {
+          settled = true;
+          if (error instanceof AgentCancelledError) {
+            if (trial) {
+              breaker.endTrial();
+            }
+            throw error;
+          }
+          if (chunksReceived > 0) {
+            breaker.recordFailure();
+            throw new StreamInterruptedError(
+              provider,
+              partialText,
+              chunksReceived,
+              error,
+            );
+          }
+          if (!(await this.shouldRetry(breaker, error, attempt, trial))) {
+            failures.push({ provider, error });
+            break;
+          }
+        } finally {
+          // The consumer stopped reading; what it got counts as a success
+          if (!settled) {
+            if (chunksReceived > 0) {
+              breaker.recordSuccess();
+            } else if (trial) {
+              breaker.endTrial();
+            }
+          }
+        }
+      }
+    }
+
+    throw new AllAgentsFailedError(failures);
+  }
+
+  getModelConfig(): ModelConfig {
+    return this.agents[0].getModelConfig();
+  }
+
+  getBreaker(agent: BaseAgent): CircuitBreaker {
+    let breaker = this.breakers.get(agent);
+    if (!breaker) {
+      breaker = new CircuitBreaker(providerOf(agent), this.breakerOptions);
+      this.breakers.set(agent, breaker);
+    }
+    return breaker;
+  }
+
+  private async execute<T>(
+    agents: BaseAgent[],
+    call: (agent: BaseAgent) => Promise<T>,
+  ): Promise<T> {
+    const failures: Array<{ provider: string; error: unknown }> = [];
+
+    for (const agent of agents) {
+      const provider = providerOf(agent);
+      const breaker = this.getBreaker(agent);
+
+      for (let attempt = 0; ; attempt++) {
+        let trial = false;
+        try {
+          trial = breaker.assertClosed();
+          const result = await call(agent);
+          breaker.recordSuccess();
+          return result;
+        } catch (error) {
+          // The caller gave up, so neither retry nor fail over
+          if (error instanceof AgentCancelledError) {
+            if (trial) {
+              breaker.endTrial();
+            }
+            throw error;
+          }
+          if (!(await this.shouldRetry(breaker, error, attempt, trial))) {
+            failures.push({ provider, error });
+            break;
+          }
+        }
+      }
+    }
+
+    throw new AllAgentsFailedError(failures);
+  }
+
+  /**
+   * Records the failure and waits out the backoff when the same agent should
+   * be tried again; returns false when it is time to fail over.
+   */
+  private async shouldRetry(
+    breaker: CircuitBreaker,
+    error: unknown,
+    attempt: number,
+    trial: boolean,
+  ): Promise<boolean> {
+    if (error instanceof CircuitOpenError) {
+      return false;
+    }
+
+    const classification = this.classify(error);
+    // Fatal errors describe the request, not the provider's health
+    if (classification.retryable) {
+      breaker.recordFailure();
+    } else if (trial) {
+      breaker.endTrial();
+    }
+    if (
+      !classification.retryable ||
+      attempt >= this.maxRetries ||
+      breaker.state === "open"
+    ) {
+      return false;
+    }
+
+    const backoff = Math.min(this.maxDelayMs, this.baseDelayMs * 2 ** attempt);
+    const delay = Math.max(
+      classification.retryAfterMs ?? 0,
+      Math.random() * backoff,
+    );
+    await this.sleep(Math.min(delay, this.maxDelayMs));
+    return true;
+  }
+}
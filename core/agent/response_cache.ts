@@ -0,0 +1,332 @@
+import fs from "fs";
+import path from "path";
+import {
+  BaseAgent,
+  ChatMessage,
+  ChatOptions,
+  ModelConfig,
+  ToolCall,
+  ToolChatResponse,
+  ToolDefinition,
+} from "./base_agent";
+import { JsonSchema } from "./json_schema";
+import {
+  normalizeRequest,
+  RequestExtras,
+  RequestMethod,
+  requestKey,
+} from "./request_key";
+import { providerOf } from "./resilient_agent";
+
+export interface CachedResponse {
+  content: string;
+  toolCalls?: ToolCall[];
+  /** Chunks as originally streamed, so a cached stream replays the same way */
+  chunks?: string[];
+  expiresAt: number;
+}
+
+export interface CacheBackend {
+  get(key: string): Promise<CachedResponse | undefined>;
+  set(key: string, value: CachedResponse): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface CacheMetrics {
+  hits: number;
+  misses: number;
+  /** Calls that skipped the cache because of their temperature */
+  bypassed: number;
+  hitRate: number;
+}
+
+export interface ResponseCacheOptions {
+  backend?: CacheBackend;
+  ttlMs?: number;
+  /** Agents sampling above this temperature are not cached unless forced */
+  maxTemperature?: number;
+  force?: boolean;
+  /**
+   * Kept apart from other providers' entries for the same model name;
+   * the wrapped agent's provider by default
+   */
+  provider?: string;
+}
+
+export interface DiskCacheBackendOptions {
+  /** Called with entries that could not be read; they count as misses */
+  onError?: (error: unknown, filePath: string) => void;
+}
+
+/**
+ * In-memory cache that evicts the least recently used entry when full.
+ */
+export class MemoryCacheBackend implements CacheBackend {
+  private entries = new Map<string, CachedResponse>();
+  private maxEntries: number;
+
+  constructor(maxEntries = 1000) {
+    this.maxEntries = maxEntries;
+  }
+
+  async get(key: string): Promise<CachedResponse | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    // Re-inserting moves the entry to the most recently used end
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  async set(key: string, value: CachedResponse): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, value);
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Cache stored as one JSON file per key, shared across processes and runs.
+ */
+export class DiskCacheBackend implements CacheBackend {
+  private dir: string;
+  private onError?: (error: unknown, filePath: string) => void;
+
+  constructor(
+    dir = "agent_data/response_cache",
+    options: DiskCacheBackendOptions = {},
+  ) {
+    this.dir = dir;
+    this.onError = options.onError;
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  async get(key: string): Promise<CachedResponse | undefined> {
+    const filePath = this.filePath(key);
+    if (!fs.existsSync(filePath)) {
+      return undefined;
+    }
+    try {
+      const entry = JSON.parse(
+        await fs.promises.readFile(filePath, "utf8"),
+      ) as CachedResponse;
+      if (entry.expiresAt <= Date.now()) {
+        await this.delete(key);
+        return undefined;
+      }
+      return entry;
+    } catch (error) {
+      this.onError?.(error, filePath);
+      return undefined;
+    }
+  }
+
+  async set(key: string, value: CachedResponse): Promise<void> {
+    await fs.promises.writeFile(this.filePath(key), JSON.stringify(value));
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.filePath(key), { force: true });
+  }
+
+  async clear(): Promise<void> {
+    for (const file of await fs.promises.readdir(this.dir)) {
+      if (file.endsWith(".json")) {
+        await fs.promises.rm(path.join(this.dir, file), { force: true });
+      }
+    }
+  }
+
+  private filePath(key: string): string {
+    return path.join(this.dir, `${key}.json`);
+  }
+}
+
+/**
+ * Opt-in cache in front of an agent for prompts that repeat every tick.
+ * Only low-temperature agents are cached by default, since a cached answer
+ * to a sampled prompt removes the variety the temperature asked for.
+ */
+export class CachedAgent implements BaseAgent {
+  readonly provider: string;
+  modelName: string;
+  temperature: number;
+  maxTokens: number;
+  chatWithTools?: (
+    messages: ChatMessage[],
+    tools: ToolDefinition[],
+    options?: ChatOptions,
+  ) => Promise<ToolChatResponse>;
+  chatJson?: (
+    messages: ChatMessage[],
+    schema: JsonSchema,
+    options?: ChatOptions,
+  ) => Promise<string>;
+
+  private agent: BaseAgent;
+  private backend: CacheBackend;
+  private ttlMs: number;
+  private enabled: boolean;
+  private hits = 0;
+  private misses = 0;
+  private bypassed = 0;
+
+  constructor(agent: BaseAgent, options: ResponseCacheOptions = {}) {
+    this.agent = agent;
+    this.provider = options.provider || providerOf(agent);
+    this.backend = options.backend || new MemoryCacheBackend();
+    this.ttlMs = options.ttlMs ?? 10 * 60_000;
+    this.enabled =
+      !!options.force || agent.temperature <= (options.maxTemperature ?? 0.3);
+    this.modelName = agent.modelName;
+    this.temperature = agent.temperature;
+    this.maxTokens = agent.maxTokens;
+
+    const { chatWithTools, chatJson } = agent;
+    if (chatWithTools) {
+      this.chatWithTools = async (messages, tools, options) => {
+        const cached = await this.cached(
+          "chatWithTools",
+          messages,
+          { tools },
+          async () => {
+            const response = await chatWithTools.call(
+              agent,
+              messages,
+              tools,
+              options,
+            );
+            return { content: response.content, toolCalls: response.toolCalls };
+          },
+        );
+        return { content: cached.content, toolCalls: cached.toolCalls || [] };
+      };
+    }
+    if (chatJson) {
+      this.chatJson = async (messages, schema, options) => {
+        const cached = await this.cached(
+          "chatJson",
+          messages,
+          { schema },
+          async () => ({
+            content: await chatJson.call(agent, messages, schema, options),
+          }),
+        );
+        return cached.content;
+      };
+    }
+  }
+
+  async chat(messages: ChatMessage[], options?: ChatOptions): Promise<string> {
+    const cached = await this.cached("chat", messages, {}, async () => ({
+      content: await this.agent.chat(messages, options),
+    }));
+    return cached.content;
+  }
+
+  async *stream(
+    messages: ChatMessage[],
+    options?: ChatOptions,
+  ): AsyncGenerator<string> {
+    if (!this.enabled) {
+      this.bypassed++;
+      yield* this.agent.stream(messages, options);
+      return;
+    }
+
+    // Streams share entries with chat, so either call can warm the other
+    const key = this.keyFor("chat", messages);
+    const hit = await this.backend.get(key);
+    if (hit) {
+      this.hits++;
+      yield* hit.chunks || [hit.content];
+      return;
+    }
+
+    this.misses++;
+    const chunks: string[] = [];
+    for await (const chunk of this.agent.stream(messages, options)) {
+      chunks.push(chunk);
+      yield chunk;
+    }
+    await this.backend.set(key, {
+      content: chunks.join(""),
+      chunks,
+      expiresAt: Date.now() + this.ttlMs,
+    });
+  }
+
+  getModelConfig(): ModelConfig {
+    return this.agent.getModelConfig();
+  }
+
+  getMetrics(): CacheMetrics {
+    const lookups = this.hits + this.misses;
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      bypassed: this.bypassed,
+      hitRate: lookups ? this.hits / lookups : 0,
+    };
+  }
+
+  async clear(): Promise<void> {
+    await this.backend.clear();
+  }
+
+  private keyFor(
+    method: RequestMethod,
+    messages: ChatMessage[],
+    extras: RequestExtras = {},
+  ): string {
+    return requestKey({
+      ...normalizeRequest(method, messages, this, extras),
+      provider: this.provider,
+    });
+  }
+
+  private async cached(
+    method: RequestMethod,
+    messages: ChatMessage[],
+    extras: RequestExtras,
+    call: () => Promise<Omit<CachedResponse, "expiresAt">>,
+  ): Promise<Omit<CachedResponse, "expiresAt">> {
+    if (!this.enabled) {
+      this.bypassed++;
+      return call();
+    }
+
+    const key = this.keyFor(method, messages, extras);
+    const hit = await this.backend.get(key);
+    if (hit) {
+      this.hits++;
+      return hit;
+    }
+
+    this.misses++;
+    const response = await call();
+    await this.backend.set(key, {
+      ...response,
+      expiresAt: Date.now() + this.ttlMs,
+    });
+    return response;
+  }
+}
@@ -0,0 +1,408 @@
+import {
+  BaseAgent,
+  ChatMessage,
+  ChatOptions,
+  ModelConfig,
+  ToolChatResponse,
+  ToolDefinition,
+} from "./base_agent";
+import { AgentFactory, AgentType } from "./agent_factory";
+import { messageText } from "./content_parts";
+import { AgentCancelledError, NoRouteError } from "./errors";
+
+export interface RouteTarget {
+  name: string;
+  agent: BaseAgent;
+  tags?: string[];
+  /**
+   * Price in USD per 1K tokens, compared against cost ceilings. Unpriced
+   * routes fail any ceiling unless the router allows them.
+   */
+  costPer1kTokens?: number;
+  /** Expected latency until real measurements are available */
+  expectedLatencyMs?: number;
+  /** Input size window (in characters) this route should handle */
+  minInputChars?: number;
+  maxInputChars?: number;
+}
+
+export interface RouteConfig extends Omit<RouteTarget, "agent"> {
+  type: AgentType;
+  config: ModelConfig;
+}
+
+export interface RoutingContext {
+  tag?: string;
+  maxCostPer1kTokens?: number;
+  latencyBudgetMs?: number;
+}
+
+/** Per-call options: cancellation plus the routing hints above */
+export type RoutingOptions = ChatOptions & RoutingContext;
+
+export interface RoutingRequest {
+  messages: ChatMessage[];
+  context: RoutingContext;
+  inputChars: number;
+}
+
+export interface RouteHealth {
+  healthy: boolean;
+  consecutiveFailures: number;
+  averageLatencyMs?: number;
+  unhealthyUntil?: number;
+}
+
+export interface RoutingRule {
+  name: string;
+  /**
+   * Required rules fail the request with NoRouteError when they leave no
+   * candidates; other rules are skipped, so a preference never makes a
+   * request unroutable on its own.
+   */
+  required?: boolean;
+  /** Narrows the candidate routes */
+  apply(
+    candidates: RouteTarget[],
+    request: RoutingRequest,
+    router: RouterAgent,
+  ): RouteTarget[];
+}
+
+export interface RoutingDecision {
+  route: string;
+  candidates: string[];
+  reasons: string[];
+  context: RoutingContext;
+  inputChars: number;
+  timestamp: Date;
+}
+
+export interface RouterOptions {
+  rules?: RoutingRule[];
+  costCeilingPer1kTokens?: number;
+  latencyBudgetMs?: number;
+  failureThreshold?: number;
+  healthCooldownMs?: number;
+  maxDecisionLog?: number;
+  /**
+   * Skip required rules that match nothing instead of failing, e.g. to go
+   * over budget rather than not answer at all. Off by default.
+   */
+  relaxRequiredRules?: boolean;
+  /** Let routes without a price through cost ceilings. Off by default. */
+  allowUnpriced?: boolean;
+  onDecision?: (decision: RoutingDecision) => void;
+}
+
+export const healthRule: RoutingRule = {
+  name: "health",
+  apply: (candidates, _request, router) =>
+    candidates.filter((route) => router.getHealth(route.name).healthy),
+};
+
+export const tagRule: RoutingRule = {
+  name: "tag",
+  apply: (candidates, request) => {
+    const tag = request.context.tag;
+    if (!tag) {
+      return candidates;
+    }
+    return candidates.filter((route) => route.tags?.includes(tag));
+  },
+};
+
+export const messageLengthRule: RoutingRule = {
+  name: "message-length",
+  apply: (candidates, request) =>
+    candidates.filter(
+      (route) =>
+        request.inputChars >= (route.minInputChars ?? 0) &&
+        request.inputChars <= (route.maxInputChars ?? Infinity),
+    ),
+};
+
+export const costRule: RoutingRule = {
+  name: "cost",
+  required: true,
+  apply: (candidates, request, router) => {
+    const ceiling =
+      request.context.maxCostPer1kTokens ?? router.costCeilingPer1kTokens;
+    if (ceiling === undefined) {
+      return candidates;
+    }
+    return candidates.filter((route) =>
+      route.costPer1kTokens === undefined
+        ? router.allowUnpriced
+        : route.costPer1kTokens <= ceiling,
+    );
+  },
+};
+
+export const latencyRule: RoutingRule = {
+  name: "latency",
+  required: true,
+  apply: (candidates, request, router) => {
+    const budget = request.context.latencyBudgetMs ?? router.latencyBudgetMs;
+    if (budget === undefined) {
+      return candidates;
+    }
+    return candidates.filter((route) => {
+      const latency =
+        router.getHealth(route.name).averageLatencyMs ??
+        route.expectedLatencyMs;
+      return latency === undefined || latency <= budget;
+    });
+  },
+};
+
+export const DEFAULT_ROUTING_RULES: RoutingRule[] = [
+  healthRule,
+  tagRule,
+  messageLengthRule,
+  costRule,
+  latencyRule,
+];
+
+function routingContext(options: RoutingOptions): RoutingContext {
+  return {
+    tag: options.tag,
+    maxCostPer1kTokens: options.maxCostPer1kTokens,
+    latencyBudgetMs: options.latencyBudgetMs,
+  };
+}
+
+// Weight of the newest sample in the rolling latency average
+const LATENCY_SMOOTHING = 0.3;
+
+/**
+ * DAMN Controller: answers each request with one of several agents, picked
+ * by running the configured rules over the routes in preference order.
+ */
+export class RouterAgent implements BaseAgent {
+  modelName: string;
+  temperature: number;
+  maxTokens: number;
+  readonly costCeilingPer1kTokens?: number;
+  readonly latencyBudgetMs?: number;
+  readonly allowUnpriced: boolean;
+
+  private routes: RouteTarget[];
+  private rules: RoutingRule[];
+  private failureThreshold: number;
+  private healthCooldownMs: number;
+  private maxDecisionLog: number;
+  private relaxRequiredRules: boolean;
+  private onDecision?: (decision: RoutingDecision) => void;
+  private health = new Map<string, RouteHealth>();
+  private decisions: RoutingDecision[] = [];
+
+  constructor(routes: RouteTarget[], options: RouterOptions = {}) {
+    if (routes.length === 0) {
+      throw new Error("RouterAgent requires at least one route");
+    }
+    this.routes = routes;
+    this.rules = options.rules || DEFAULT_ROUTING_RULES;
+    this.costCeilingPer1kTokens = options.costCeilingPer1kTokens;
+    this.latencyBudgetMs = options.latencyBudgetMs;
+    this.failureThreshold = options.failureThreshold ?? 3;
+    this.healthCooldownMs = options.healthCooldownMs ?? 30_000;
+    this.maxDecisionLog = options.maxDecisionLog ?? 100;
+    this.relaxRequiredRules = options.relaxRequiredRules ?? false;
+    this.allowUnpriced = options.allowUnpriced ?? false;
+    this.onDecision = options.onDecision;
+
+    this.modelName = "router";
+    this.temperature = routes[0].agent.temperature;
+    this.maxTokens = routes[0].agent.maxTokens;
+  }
+
+  static fromConfigs(
+    routes: RouteConfig[],
+    options: RouterOptions = {},
+  ): RouterAgent {
+    return new RouterAgent(
+      routes.map(({ type, config, ...route }) => ({
+        ...route,
+        agent: AgentFactory.createAgent(type, config),
+      })),
+      options,
+    );
+  }
+
+  async chat(
+    messages: ChatMessage[],
+    options: RoutingOptions = {},
+  ): Promise<string> {
+    const route = this.route(messages, routingContext(options));
+    return this.track(route, () => route.agent.chat(messages, options));
+  }
+
+  async *stream(
+    messages: ChatMessage[],
+    options: RoutingOptions = {},
+  ): AsyncGenerator<string> {
+    const route = this.route(messages, routingContext(options));
+    const startedAt = Date.now();
+    try {
+      yield* route.agent.stream(messages, options);
+      this.recordSuccess(route.name, Date.now() - startedAt);
+    } catch (error) {
+      this.recordFailure(route.name, error);
+      throw error;
+    }
+  }
+
+  async chatWithTools(
+    messages: ChatMessage[],
+    tools: ToolDefinition[],
+    options: RoutingOptions = {},
+  ): Promise<ToolChatResponse> {
+    const route = this.route(
+      messages,
+      routingContext(options),
+      this.routes.filter((r) => r.agent.chatWithTools),
+    );
+    return this.track(route, () =>
+      route.agent.chatWithTools!(messages, tools, options),
+    );
+  }
+
+  route(
+    messages: ChatMessage[],
+    context: RoutingContext = {},
+    routes: RouteTarget[] = this.routes,
+  ): RouteTarget {
+    if (routes.length === 0) {
+      throw new Error("No route supports this request");
+    }
+
+    const request: RoutingRequest = {
+      messages,
+      context,
+      inputChars: messages.reduce(
+        (sum, msg) => sum + messageText(msg.content).length,
+        0,
+      ),
+    };
+    const reasons: string[] = [];
+    let candidates = routes;
+    for (const rule of this.rules) {
+      const remaining = rule.apply(candidates, request, this);
+      if (remaining.length === 0) {
+        if (rule.required && !this.relaxRequiredRules) {
+          throw new NoRouteError(
+            rule.name,
+            `none of ${candidates.map((r) => r.name).join(", ")} qualify`,
+          );
+        }
+        reasons.push(`${rule.name}: no match, rule skipped`);
+        continue;
+      }
+      if (remaining.length !== candidates.length) {
+        reasons.push(
+          `${rule.name}: kept ${remaining.map((r) => r.name).join(", ")}`,
+        );
+      }
+      candidates = remaining;
+    }
+
+    const selected = candidates[0];
+    reasons.push(`selected first of ${candidates.length} candidate(s)`);
+    this.logDecision({
+      route: selected.name,
+      candidates: candidates.map((r) => r.name),
+      reasons,
+      context,
+      inputChars: request.inputChars,
+      timestamp: new Date(),
+    });
+    return selected;
+  }
+
+  getHealth(routeName: string): RouteHealth {
+    const health = this.health.get(routeName) || {
+      healthy: true,
+      consecutiveFailures: 0,
+    };
+    // Unhealthy routes get another chance once the cooldown has passed
+    if (
+      !health.healthy &&
+      health.unhealthyUntil !== undefined &&
+      Date.now() >= health.unhealthyUntil
+    ) {
+      health.healthy = true;
+      health.unhealthyUntil = undefined;
+    }
+    this.health.set(routeName, health);
+    return health;
+  }
+
+  setHealth(routeName: string, healthy: boolean): void {
+    const health = this.getHealth(routeName);
+    health.healthy = healthy;
+    health.consecutiveFailures = 0;
+    health.unhealthyUntil = healthy
+      ? undefined
+      : Date.now() + this.healthCooldownMs;
+  }
+
+  getDecisions(): RoutingDecision[] {
+    return [...this.decisions];
+  }
+
+  getModelConfig(): ModelConfig {
+    return {
+      modelName: this.modelName,
+      temperature: this.temperature,
+      maxTokens: this.maxTokens,
+      apiKey: "",
+    };
+  }
+
+  private async track<T>(
+    route: RouteTarget,
+    call: () => Promise<T>,
+  ): Promise<T> {
+    const startedAt = Date.now();
+    try {
+      const result = await call();
+      this.recordSuccess(route.name, Date.now() - startedAt);
+      return result;
+    } catch (error) {
+      this.recordFailure(route.name, error);
+      throw error;
+    }
+  }
+
+  private recordSuccess(routeName: string, latencyMs: number): void {
+    const health = this.getHealth(routeName);
+    health.consecutiveFailures = 0;
+    health.averageLatencyMs =
+      health.averageLatencyMs === undefined
+        ? latencyMs
+        : health.averageLatencyMs * (1 - LATENCY_SMOOTHING) +
+          latencyMs * LATENCY_SMOOTHING;
+  }
+
+  private recordFailure(routeName: string, error: unknown): void {
+    // Cancelled calls say nothing about the route's health
+    if (error instanceof AgentCancelledError) {
+      return;
+    }
+    const health = this.getHealth(routeName);
+    health.consecutiveFailures++;
+    if (health.consecutiveFailures >= this.failureThreshold) {
+      health.healthy = false;
+      health.unhealthyUntil = Date.now() + this.healthCooldownMs;
+    }
+  }
+
+  private logDecision(decision: RoutingDecision): void {
+    this.decisions.push(decision);
+    if (this.decisions.length > this.maxDecisionLog) {
+      this.decisions.shift();
+    }
+    this.onDecision?.(decision);
+  }
+}
@@ -0,0 +1,480 @@
+import crypto from "crypto";
+import {
+  BaseAgent,
+  ChatMessage,
+  ChatOptions,
+  ModelConfig,
+  StreamEvent,
+  StreamEventOptions,
+  ToolChatResponse,
+  ToolDefinition,
+} from "./base_agent";
+import { AgentCancelledError, AgentTimeoutError } from "./errors";
+import { JsonSchema } from "./json_schema";
+import { estimateMessageTokens } from "./usage";
+
+export interface RateLimits {
+  requestsPerMinute?: number;
+  tokensPerMinute?: number;
+  maxConcurrency?: number;
+}
+
+/** Human-facing dialogue should use "high", background work "low" */
+export type SchedulePriority = "high" | "normal" | "low";
+
+export interface ScheduledJob {
+  provider: string;
+  apiKey?: string;
+  agentId?: string;
+  priority?: SchedulePriority;
+  /** Tokens reserved against the tokens-per-minute limit */
+  tokens?: number;
+  /** Aborting while still queued drops the job without using a slot */
+  signal?: AbortSignal;
+  /** Gives up with AgentTimeoutError if no slot is free within this time */
+  timeoutMs?: number;
+}
+
+export interface WaitEvent {
+  bucket: string;
+  agentId: string;
+  priority: SchedulePriority;
+  waitMs: number;
+}
+
+export interface BucketStats {
+  queueDepth: number;
+  queuedByPriority: Record<SchedulePriority, number>;
+  inFlight: number;
+  requestsLastMinute: number;
+  tokensLastMinute: number;
+  averageWaitMs: number;
+  maxWaitMs: number;
+}
+
+export interface SchedulerOptions {
+  /** Limits for providers without their own entry */
+  defaultLimits?: RateLimits;
+  onWait?: (event: WaitEvent) => void;
+}
+
+interface QueueEntry {
+  agentId: string;
+  priority: SchedulePriority;
+  tokens: number;
+  enqueuedAt: number;
+  sequence: number;
+  start: () => void;
+}
+
+interface Bucket {
+  limits: RateLimits;
+  queue: QueueEntry[];
+  inFlight: number;
+  window: Array<{ at: number; tokens: number }>;
+  lastServed: Map<string, number>;
+  waits: { count: number; totalMs: number; maxMs: number };
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+const WINDOW_MS = 60_000;
+
+const PRIORITY_RANK: Record<SchedulePriority, number> = {
+  high: 0,
+  normal: 1,
+  low: 2,
+};
+
+/**
+ * Queues provider calls so each provider/API key stays under its request,
+ * token and concurrency limits. Higher priorities always go first; within a
+ * priority the agent that was served least recently goes next, so one busy
+ * agent cannot starve the others.
+ */
+export class RequestScheduler {
+  private limits = new Map<string, RateLimits>();
+  private defaultLimits: RateLimits;
+  private onWait?: (event: WaitEvent) => void;
+  private buckets = new Map<string, Bucket>();
+  private sequence = 0;
+
+  constructor(options: SchedulerOptions = {}) {
+    this.defaultLimits = options.defaultLimits || {};
+    this.onWait = options.onWait;
+  }
+
+  /** Limits for a provider, or for one API key of it when `apiKey` is set */
+  setLimits(provider: string, limits: RateLimits, apiKey?: string): void {
+    const key = apiKey === undefined ? provider : bucketKey(provider, apiKey);
+    this.limits.set(key, limits);
+    for (const [name, bucket] of this.buckets) {
+      if (name === key || name.startsWith(`${key}:`)) {
+        bucket.limits = this.limitsFor(name);
+        this.drain(bucket);
+      }
+    }
+  }
+
+  async schedule<T>(job: ScheduledJob, run: () => Promise<T>): Promise<T> {
+    const release = await this.acquire(job);
+    try {
+      return await run();
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Waits for a slot and returns a function that frees it. For work that
+   * does not fit in one promise, such as a stream consumed incrementally.
+   */
+  async acquire(job: ScheduledJob): Promise<() => void> {
+    const name = bucketKey(job.provider, job.apiKey);
+    const bucket = this.getBucket(name);
+    const priority = job.priority || "normal";
+    const agentId = job.agentId || "default";
+    const enqueuedAt = Date.now();
+    const { signal, timeoutMs } = job;
+    if (signal?.aborted) {
+      throw new AgentCancelledError(job.provider);
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      const drop = (error: Error) => {
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", onAbort);
+        bucket.queue.splice(bucket.queue.indexOf(entry), 1);
+        reject(error);
+      };
+      const onAbort = () =>
+        drop(
+          new AgentCancelledError(
+            job.provider,
+            `Call to ${job.provider} was cancelled while queued`,
+          ),
+        );
+      const timer =
+        timeoutMs === undefined
+          ? undefined
+          : setTimeout(
+              () => drop(new AgentTimeoutError(job.provider, timeoutMs)),
+              timeoutMs,
+            );
+      const entry: QueueEntry = {
+        agentId,
+        priority,
+        tokens: job.tokens ?? 0,
+        enqueuedAt,
+        sequence: this.sequence++,
+        start: () => {
+          clearTimeout(timer);
+          signal?.removeEventListener("abort", onAbort);
+          resolve();
+        },
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+      bucket.queue.push(entry);
+      this.drain(bucket);
+    });
+
+    const waitMs = Date.now() - enqueuedAt;
+    bucket.waits.count++;
+    bucket.waits.totalMs += waitMs;
+    bucket.waits.maxMs = Math.max(bucket.waits.maxMs, waitMs);
+    this.onWait?.({ bucket: name, agentId, priority, waitMs });
+
+    let released = false;
+    return () => {
+      if (!released) {
+        released = true;
+        this.release(bucket);
+      }
+    };
+  }
+
+  getStats(): Record<string, BucketStats> {
+    const stats: Record<string, BucketStats> = {};
+    for (const [name, bucket] of this.buckets) {
+      this.pruneWindow(bucket);
+      const queuedByPriority = { high: 0, normal: 0, low: 0 };
+      for (const entry of bucket.queue) {
+        queuedByPriority[entry.priority]++;
+      }
+      stats[name] = {
+        queueDepth: bucket.queue.length,
+        queuedByPriority,
+        inFlight: bucket.inFlight,
+        requestsLastMinute: bucket.window.length,
+        tokensLastMinute: bucket.window.reduce((sum, r) => sum + r.tokens, 0),
+        averageWaitMs: bucket.waits.count
+          ? bucket.waits.totalMs / bucket.waits.count
+          : 0,
+        maxWaitMs: bucket.waits.maxMs,
+      };
+    }
+    return stats;
+  }
+
+  private getBucket(name: string): Bucket {
+    let bucket = this.buckets.get(name);
+    if (!bucket) {
+      bucket = {
+        limits: this.limitsFor(name),
+        queue: [],
+        inFlight: 0,
+        window: [],
+        lastServed: new Map(),
+        waits: { count: 0, totalMs: 0, maxMs: 0 },
+      };
+      this.buckets.set(name, bucket);
+    }
+    return bucket;
+  }
+
+  private limitsFor(name: string): RateLimits {
+    const provider = name.split(":")[0];
+    return (
+      this.limits.get(name) || this.limits.get(provider) || this.defaultLimits
+    );
+  }
+
+  private release(bucket: Bucket): void {
+    bucket.inFlight--;
+    this.drain(bucket);
+  }
+
+  private pruneWindow(bucket: Bucket): void {
+    const cutoff = Date.now() - WINDOW_MS;
+    while (bucket.window.length && bucket.window[0].at <= cutoff) {
+      bucket.window.shift();
+    }
+  }
+
+  /** Starts queued jobs while the limits allow, then waits for the window */
+  private drain(bucket: Bucket): void {
+    this.pruneWindow(bucket);
+    const { requestsPerMinute, tokensPerMinute, maxConcurrency } =
+      bucket.limits;
+
+    while (bucket.queue.length) {
+      if (maxConcurrency !== undefined && bucket.inFlight >= maxConcurrency) {
+        // Woken again by release()
+        return;
+      }
+      const next = this.pickNext(bucket);
+      const usedTokens = bucket.window.reduce((sum, r) => sum + r.tokens, 0);
+      const overRequests =
+        requestsPerMinute !== undefined &&
+        bucket.window.length >= requestsPerMinute;
+      // A job bigger than the whole budget still runs once the window is empty
+      const overTokens =
+        tokensPerMinute !== undefined &&
+        bucket.window.length > 0 &&
+        usedTokens + next.tokens > tokensPerMinute;
+      if (overRequests || overTokens) {
+        this.wakeWhenWindowMoves(bucket);
+        return;
+      }
+
+      bucket.queue.splice(bucket.queue.indexOf(next), 1);
+      bucket.inFlight++;
+      bucket.window.push({ at: Date.now(), tokens: next.tokens });
+      bucket.lastServed.set(next.agentId, this.sequence++);
+      next.start();
+    }
+  }
+
+  private pickNext(bucket: Bucket): QueueEntry {
+    return bucket.queue.reduce((best, entry) => {
+      const rank = PRIORITY_RANK[entry.priority] - PRIORITY_RANK[best.priority];
+      if (rank !== 0) {
+        return rank < 0 ? entry : best;
+      }
+      const served =
+        (bucket.lastServed.get(entry.agentId) ?? -1) -
+        (bucket.lastServed.get(best.agentId) ?? -1);
+      if (served !== 0) {
+        return served < 0 ? entry : best;
+      }
+      return entry.sequence < best.sequence ? entry : best;
+    });
+  }
+
+  private wakeWhenWindowMoves(bucket: Bucket): void {
+    if (bucket.timer || !bucket.window.length) {
+      return;
+    }
+    const delay = Math.max(0, bucket.window[0].at + WINDOW_MS - Date.now());
+    bucket.timer = setTimeout(() => {
+      bucket.timer = undefined;
+      this.drain(bucket);
+    }, delay + 1);
+    // A queue waiting on the window should not keep the process alive
+    bucket.timer.unref?.();
+  }
+}
+
+/**
+ * Limits are per key, but raw keys should not end up in stats or logs.
+ */
+function bucketKey(provider: string, apiKey?: string): string {
+  if (!apiKey) {
+    return provider;
+  }
+  const digest = crypto.createHash("sha256").update(apiKey).digest("hex");
+  return `${provider}:${digest.slice(0, 8)}`;
+}
+
+// One scheduler per process, so every agent sharing a key shares its limits
+export const sharedScheduler = new RequestScheduler();
+
+export interface ScheduledAgentOptions {
+  provider: string;
+  apiKey?: string;
+  agentId?: string;
+  priority?: SchedulePriority;
+  scheduler?: RequestScheduler;
+}
+
+/**
+ * Sends an agent's calls through a RequestScheduler. Wrap the same adapter
+ * twice with different priorities to let dialogue overtake background work.
+ */
+export class ScheduledAgent implements BaseAgent {
+  readonly provider: string;
+  modelName: string;
+  temperature: number;
+  maxTokens: number;
+  chatWithTools?: (
+    messages: ChatMessage[],
+    tools: ToolDefinition[],
+    options?: ChatOptions,
+  ) => Promise<ToolChatResponse>;
+  chatJson?: (
+    messages: ChatMessage[],
+    schema: JsonSchema,
+    options?: ChatOptions,
+  ) => Promise<string>;
+  streamEvents?: (
+    messages: ChatMessage[],
+    options?: StreamEventOptions,
+  ) => AsyncGenerator<StreamEvent>;
+
+  private agent: BaseAgent;
+  private scheduler: RequestScheduler;
+  private job: Omit<ScheduledJob, "tokens" | "signal" | "timeoutMs">;
+
+  constructor(agent: BaseAgent, options: ScheduledAgentOptions) {
+    this.agent = agent;
+    this.provider = options.provider;
+    this.scheduler = options.scheduler || sharedScheduler;
+    this.job = {
+      provider: options.provider,
+      apiKey: options.apiKey,
+      agentId: options.agentId,
+      priority: options.priority,
+    };
+    this.modelName = agent.modelName;
+    this.temperature = agent.temperature;
+    this.maxTokens = agent.maxTokens;
+
+    const { chatWithTools, chatJson } = agent;
+    if (chatWithTools) {
+      this.chatWithTools = (messages, tools, options) =>
+        this.run(messages, options, (remaining) =>
+          chatWithTools.call(agent, messages, tools, remaining),
+        );
+    }
+    if (chatJson) {
+      this.chatJson = (messages, schema, options) =>
+        this.run(messages, options, (remaining) =>
+          chatJson.call(agent, messages, schema, remaining),
+        );
+    }
+    const { streamEvents } = agent;
+    if (streamEvents) {
+      this.streamEvents = (messages, options) =>
+        this.scheduled(messages, options, (remaining) =>
+          streamEvents.call(agent, messages, remaining),
+        );
+    }
+  }
+
+  async chat(messages: ChatMessage[], options?: ChatOptions): Promise<string> {
+    return this.run(messages, options, (remaining) =>
+      this.agent.chat(messages, remaining),
+    );
+  }
+
+  /** Holds its slot until the stream finishes or is abandoned */
+  async *stream(
+    messages: ChatMessage[],
+    options?: ChatOptions,
+  ): AsyncGenerator<string> {
+    yield* this.scheduled(messages, options, (remaining) =>
+      this.agent.stream(messages, remaining),
+    );
+  }
+
+  getModelConfig(): ModelConfig {
+    return this.agent.getModelConfig();
+  }
+
+  /**
+   * `timeoutMs` covers the whole call: time spent queued counts against it
+   * and the provider gets whatever is left.
+   */
+  private async run<T, O extends ChatOptions>(
+    messages: ChatMessage[],
+    options: O | undefined,
+    call: (options: O | undefined) => Promise<T>,
+  ): Promise<T> {
+    const startedAt = Date.now();
+    return this.scheduler.schedule(this.jobFor(messages, options), () =>
+      call(this.remaining(options, startedAt)),
+    );
+  }
+
+  private async *scheduled<T, O extends ChatOptions>(
+    messages: ChatMessage[],
+    options: O | undefined,
+    start: (options: O | undefined) => AsyncGenerator<T>,
+  ): AsyncGenerator<T> {
+    const startedAt = Date.now();
+    const release = await this.scheduler.acquire(
+      this.jobFor(messages, options),
+    );
+    try {
+      yield* start(this.remaining(options, startedAt));
+    } finally {
+      release();
+    }
+  }
+
+  private remaining<O extends ChatOptions>(
+    options: O | undefined,
+    startedAt: number,
+  ): O | undefined {
+    if (options?.timeoutMs === undefined) {
+      return options;
+    }
+    const timeoutMs = options.timeoutMs - (Date.now() - startedAt);
+    if (timeoutMs <= 0) {
+      throw new AgentTimeoutError(this.provider, options.timeoutMs);
+    }
+    return { ...options, timeoutMs };
+  }
+
+  /**
+   * Providers count max_tokens against the token limit up front, so the
+   * reservation is the prompt estimate plus the completion allowance.
+   */
+  private jobFor(messages: ChatMessage[], options?: ChatOptions): ScheduledJob {
+    return {
+      ...this.job,
+      tokens: estimateMessageTokens(messages) + this.maxTokens,
+      signal: options?.signal,
+      timeoutMs: options?.timeoutMs,
+    };
+  }
+}
@@ -0,0 +1,178 @@
+import {
+  BaseAgent,
+  ChatMessage,
+  FinishReason,
+  StreamEvent,
+  StreamEventOptions,
+  ToolCall,
+} from "./base_agent";
+import { parseToolArguments } from "./tool_loop";
+import { UsageRecord } from "./usage";
+
+/** A streamed reply collapsed back into one message */
+export interface StreamedMessage {
+  content: string;
+  toolCalls: ToolCall[];
+  finishReason: FinishReason;
+  usage?: UsageRecord;
+}
+
+/**
+ * Assembles tool calls from streamed fragments and emits the matching
+ * events. Providers that stream argument JSON call `add` per fragment;
+ * providers that send whole calls use `complete`.
+ */
+export class ToolCallAccumulator {
+  private calls = new Map<
+    number,
+    { id: string; name: string; arguments: string; ended: boolean }
+  >();
+
+  get size(): number {
+    return this.calls.size;
+  }
+
+  *add(
+    index: number,
+    fragment: { id?: string; name?: string; arguments?: string },
+  ): Generator<StreamEvent> {
+    let call = this.calls.get(index);
+    if (!call) {
+      call = {
+        id: fragment.id || `call_${index}`,
+        name: fragment.name || "",
+        arguments: "",
+        ended: false,
+      };
+      this.calls.set(index, call);
+      yield { type: "tool_call_start", index, id: call.id, name: call.name };
+    }
+    if (fragment.arguments) {
+      call.arguments += fragment.arguments;
+      yield {
+        type: "tool_call_delta",
+        index,
+        argumentsDelta: fragment.arguments,
+      };
+    }
+  }
+
+  *complete(index: number, toolCall: ToolCall): Generator<StreamEvent> {
+    yield* this.add(index, {
+      id: toolCall.id,
+      name: toolCall.name,
+      arguments: JSON.stringify(toolCall.arguments),
+    });
+    yield* this.end(index);
+  }
+
+  *end(index: number): Generator<StreamEvent> {
+    const call = this.calls.get(index);
+    if (!call || call.ended) {
+      return;
+    }
+    call.ended = true;
+    yield {
+      type: "tool_call_end",
+      index,
+      toolCall: {
+        id: call.id,
+        name: call.name,
+        arguments: parseToolArguments(call.arguments),
+      },
+    };
+  }
+
+  /** Ends every call still open, for providers without per-call stops */
+  *endAll(): Generator<StreamEvent> {
+    for (const index of this.calls.keys()) {
+      yield* this.end(index);
+    }
+  }
+}
+
+/** Collapses an event stream into the final message; rethrows error events */
+export async function collectStreamEvents(
+  events: AsyncIterable<StreamEvent>,
+): Promise<StreamedMessage> {
+  const message: StreamedMessage = {
+    content: "",
+    toolCalls: [],
+    finishReason: "other",
+  };
+  for await (const event of events) {
+    switch (event.type) {
+      case "text":
+        message.content += event.text;
+        break;
+      case "tool_call_end":
+        message.toolCalls.push(event.toolCall);
+        break;
+      case "usage":
+        message.usage = event.usage;
+        break;
+      case "finish":
+        message.finishReason = event.reason;
+        break;
+      case "error":
+        throw event.error;
+    }
+  }
+  return message;
+}
+
+/** The text deltas of an event stream, which is what `stream()` yields */
+export async function* textFromEvents(
+  events: AsyncIterable<StreamEvent>,
+): AsyncGenerator<string> {
+  for await (const event of events) {
+    if (event.type === "text") {
+      yield event.text;
+    } else if (event.type === "error") {
+      throw event.error;
+    }
+  }
+}
+
+/**
+ * Streams events from any agent. Agents without `streamEvents`, such as
+ * wrappers, are adapted: plain `stream()` text becomes text events, and a
+ * request with tools falls back to a single `chatWithTools` call.
+ */
+export async function* streamEvents(
+  agent: BaseAgent,
+  messages: ChatMessage[],
+  options: StreamEventOptions = {},
+): AsyncGenerator<StreamEvent> {
+  if (agent.streamEvents) {
+    yield* agent.streamEvents(messages, options);
+    return;
+  }
+  try {
+    if (options.tools?.length && agent.chatWithTools) {
+      const response = await agent.chatWithTools(
+        messages,
+        options.tools,
+        options,
+      );
+      if (response.content) {
+        yield { type: "text", text: response.content };
+      }
+      const toolCalls = new ToolCallAccumulator();
+      for (const [index, toolCall] of response.toolCalls.entries()) {
+        yield* toolCalls.complete(index, toolCall);
+      }
+      yield {
+        type: "finish",
+        reason: response.toolCalls.length ? "tool_calls" : "stop",
+      };
+      return;
+    }
+    for await (const text of agent.stream(messages, options)) {
+      yield { type: "text", text };
+    }
+    yield { type: "finish", reason: "stop" };
+  } catch (error) {
+    yield { type: "error", error };
+  }
+}
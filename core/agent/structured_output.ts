@@ -0,0 +1,106 @@
+import { BaseAgent, ChatMessage, ChatOptions } from "./base_agent";
+import { StructuredOutputError } from "./errors";
+import { JsonSchema, validateJsonSchema } from "./json_schema";
+
+export interface StructuredOutputOptions extends ChatOptions {
+  /** Extra attempts that show the model its mistakes and ask for a fix */
+  maxRepairs?: number;
+  /** Ignore the provider's JSON mode and always use prompt instructions */
+  forcePrompting?: boolean;
+}
+
+/**
+ * Asks an agent for a JSON value matching `schema` and returns it parsed and
+ * validated. Providers with a native JSON mode are constrained by it; the
+ * others get the schema in the prompt. Either way invalid answers are sent
+ * back for repair before a StructuredOutputError is raised.
+ */
+export async function chatStructured<T>(
+  agent: BaseAgent,
+  messages: ChatMessage[],
+  schema: JsonSchema,
+  options: StructuredOutputOptions = {},
+): Promise<T> {
+  const maxRepairs = options.maxRepairs ?? 2;
+  const chatOptions = { signal: options.signal, timeoutMs: options.timeoutMs };
+  const useNativeMode = !!agent.chatJson && !options.forcePrompting;
+  const conversation: ChatMessage[] = useNativeMode
+    ? [...messages]
+    : [...messages, { role: "system", content: schemaInstructions(schema) }];
+
+  let lastError: StructuredOutputError | undefined;
+  for (let attempt = 1; attempt <= maxRepairs + 1; attempt++) {
+    const raw = useNativeMode
+      ? await agent.chatJson!(conversation, schema, chatOptions)
+      : await agent.chat(conversation, chatOptions);
+
+    try {
+      return parseStructuredOutput(raw, schema, attempt) as T;
+    } catch (error) {
+      if (!(error instanceof StructuredOutputError)) {
+        throw error;
+      }
+      lastError = error;
+    }
+
+    conversation.push(
+      { role: "assistant", content: raw },
+      {
+        role: "user",
+        content: `That response was not valid. Fix these problems and reply with only the corrected JSON:\n- ${lastError.issues.join("\n- ")}`,
+      },
+    );
+  }
+
+  throw lastError;
+}
+
+/**
+ * Parses and validates a raw model answer, throwing StructuredOutputError
+ * with the individual issues when it does not match the schema.
+ */
+export function parseStructuredOutput(
+  raw: string,
+  schema: JsonSchema,
+  attempt = 1,
+): unknown {
+  let value: unknown;
+  try {
+    value = JSON.parse(extractJson(raw));
+  } catch (error) {
+    throw new StructuredOutputError(
+      "parse",
+      [error instanceof Error ? error.message : "Invalid JSON"],
+      raw,
+      attempt,
+    );
+  }
+
+  const issues = validateJsonSchema(value, schema);
+  if (issues.length) {
+    throw new StructuredOutputError("validation", issues, raw, attempt);
+  }
+  return value;
+}
+
+function schemaInstructions(schema: JsonSchema): string {
+  return [
+    "Respond with a single JSON value that matches this JSON Schema.",
+    "Do not add explanations or markdown code fences.",
+    JSON.stringify(schema, null, 2),
+  ].join("\n");
+}
+
+/**
+ * Pulls the JSON out of answers that wrap it in code fences or prose.
+ */
+export function extractJson(raw: string): string {
+  const fenced = raw.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const text = (fenced ? fenced[1] : raw).trim();
+  const start = text.search(/[[{]/);
+  if (start === -1) {
+    return text;
+  }
+  const end = Math.max(text.lastIndexOf("}"), text.lastIndexOf("]"));
+  return end > start ? text.slice(start, end + 1) : text;
+}
@@ -0,0 +1,126 @@
+import {
+  BaseAgent,
+  ChatMessage,
+  ChatOptions,
+  ToolCall,
+  ToolDefinition,
+} from "./base_agent";
+
+export type ToolHandler = (
+  args: Record<string, unknown>,
+  call: ToolCall,
+) => Promise<unknown> | unknown;
+
+/** `signal` and `timeoutMs` apply to each model call, not the whole loop */
+export interface ToolLoopOptions extends ChatOptions {
+  maxIterations?: number;
+}
+
+export interface ToolLoopResult {
+  content: string;
+  messages: ChatMessage[];
+  toolCalls: ToolCall[];
+}
+
+/**
+ * Runs a tool-calling conversation until the model answers without
+ * requesting any further tools, executing each requested tool through its
+ * handler and feeding the result back as a `tool` message.
+ */
+export async function runToolLoop(
+  agent: BaseAgent,
+  messages: ChatMessage[],
+  tools: ToolDefinition[],
+  handlers: Record<string, ToolHandler>,
+  options: ToolLoopOptions = {},
+): Promise<ToolLoopResult> {
+  if (!agent.chatWithTools) {
+    throw new Error(
+      `Agent for model ${agent.modelName} does not support tool calling`,
+    );
+  }
+
+  const maxIterations = options.maxIterations ?? 8;
+  const history = [...messages];
+  const executed: ToolCall[] = [];
+  const chatOptions = { signal: options.signal, timeoutMs: options.timeoutMs };
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    const response = await agent.chatWithTools(history, tools, chatOptions);
+    history.push({
+      role: "assistant",
+      content: response.content,
+      toolCalls: response.toolCalls.length ? response.toolCalls : undefined,
+    });
+
+    if (response.toolCalls.length === 0) {
+      return {
+        content: response.content,
+        messages: history,
+        toolCalls: executed,
+      };
+    }
+
+    for (const call of response.toolCalls) {
+      executed.push(call);
+      history.push({
+        role: "tool",
+        name: call.name,
+        toolCallId: call.id,
+        content: await executeToolCall(call, handlers),
+      });
+    }
+  }
+
+  throw new Error(
+    `Tool loop did not finish within ${maxIterations} iterations`,
+  );
+}
+
+async function executeToolCall(
+  call: ToolCall,
+  handlers: Record<string, ToolHandler>,
+): Promise<string> {
+  // Own keys only, so a tool named "constructor" cannot reach the prototype
+  const handler = Object.prototype.hasOwnProperty.call(handlers, call.name)
+    ? handlers[call.name]
+    : undefined;
+  if (typeof handler !== "function") {
+    return JSON.stringify({ error: `Unknown tool: ${call.name}` });
+  }
+
+  try {
+    const result = await handler(call.arguments, call);
+    // Handlers returning nothing still need a tool message with content
+    return typeof result === "string"
+      ? result
+      : (JSON.stringify(result) ?? "null");
+  } catch (error) {
+    return JSON.stringify({
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    });
+  }
+}
+
+/** Tool arguments are always an object; anything else parses as empty */
+export function parseToolArguments(
+  raw: string | Record<string, unknown> | undefined,
+): Record<string, unknown> {
+  if (!raw) {
+    return {};
+  }
+  try {
+    const parsed = typeof raw === "string" ? JSON.parse(raw) : raw;
+    return isPlainObject(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
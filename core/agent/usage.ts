@@ -0,0 +1,77 @@
+import { ChatMessage } from "./base_agent";
+import { messageText } from "./content_parts";
+
+export interface UsageRecord {
+  provider: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+  /** True when the counts come from the local estimate, not the provider */
+  estimated: boolean;
+  timestamp: Date;
+}
+
+export type UsageListener = (usage: UsageRecord) => void;
+
+export interface ReportedUsage {
+  inputTokens?: number;
+  outputTokens?: number;
+  model?: string;
+}
+
+export interface UsageTracking {
+  /** Reports the call to the listener and returns the same record */
+  finish(reported: ReportedUsage | undefined, outputText: string): UsageRecord;
+}
+
+// Rough average for English text across the supported tokenizers
+const CHARS_PER_TOKEN = 4;
+// Role markers and separators each message adds to the prompt
+const TOKENS_PER_MESSAGE = 4;
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export function estimateMessageTokens(messages: ChatMessage[]): number {
+  return messages.reduce(
+    (sum, msg) =>
+      sum +
+      TOKENS_PER_MESSAGE +
+      estimateTokens(messageText(msg.content)) +
+      (msg.toolCalls ? estimateTokens(JSON.stringify(msg.toolCalls)) : 0),
+    0,
+  );
+}
+
+/**
+ * Starts timing a provider call; `finish` reports the provider's own token
+ * counts where it returned them and falls back to local estimates otherwise.
+ */
+export function trackUsage(
+  provider: string,
+  model: string,
+  messages: ChatMessage[],
+  listener: UsageListener | undefined,
+): UsageTracking {
+  const startedAt = Date.now();
+  return {
+    finish(reported, outputText) {
+      const estimated =
+        reported?.inputTokens === undefined ||
+        reported?.outputTokens === undefined;
+      const record: UsageRecord = {
+        provider,
+        model: reported?.model || model,
+        inputTokens: reported?.inputTokens ?? estimateMessageTokens(messages),
+        outputTokens: reported?.outputTokens ?? estimateTokens(outputText),
+        latencyMs: Date.now() - startedAt,
+        estimated,
+        timestamp: new Date(),
+      };
+      listener?.(record);
+      return record;
+    },
+  };
+}
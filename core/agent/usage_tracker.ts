@@ -0,0 +1,250 @@
+import {
+  BaseAgent,
+  ChatMessage,
+  ChatOptions,
+  ModelConfig,
+  ToolChatResponse,
+  ToolDefinition,
+} from "./base_agent";
+import { AgentFactory, AgentType } from "./agent_factory";
+import { BudgetExceededError } from "./errors";
+import { JsonSchema } from "./json_schema";
+import { ModelPrice, MODEL_PRICING, priceUsage } from "./pricing";
+import { UsageListener, UsageRecord } from "./usage";
+
+/** Who a call is charged to; every level that is set gets the charge */
+export interface UsageScope {
+  agentId?: string;
+  sessionId?: string;
+  worldId?: string;
+}
+
+export type ScopeLevel = keyof UsageScope;
+
+export interface UsageBudget {
+  maxCostUsd?: number;
+  maxTokens?: number;
+}
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  /** Calls to models missing from the pricing table, not in costUsd */
+  unpricedCalls: number;
+}
+
+export interface ChargedUsage extends UsageRecord {
+  scope: UsageScope;
+  /** Zero when the model is unpriced */
+  costUsd: number;
+  unpriced: boolean;
+}
+
+export interface UsageTrackerOptions {
+  pricing?: Record<string, ModelPrice>;
+  onRecord?: (usage: ChargedUsage) => void;
+}
+
+const SCOPE_LEVELS: ScopeLevel[] = ["agentId", "sessionId", "worldId"];
+
+function emptyTotals(): UsageTotals {
+  return {
+    calls: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    costUsd: 0,
+    unpricedCalls: 0,
+  };
+}
+
+function scopeKey(level: ScopeLevel, id: string): string {
+  return `${level}:${id}`;
+}
+
+/**
+ * Aggregates usage reported by the agents into per-agent, per-session and
+ * per-world totals, and enforces the budgets configured for them.
+ */
+export class UsageTracker {
+  private pricing: Record<string, ModelPrice>;
+  private onRecord?: (usage: ChargedUsage) => void;
+  private totals = new Map<string, UsageTotals>();
+  private budgets = new Map<string, UsageBudget>();
+
+  constructor(options: UsageTrackerOptions = {}) {
+    this.pricing = options.pricing || MODEL_PRICING;
+    this.onRecord = options.onRecord;
+  }
+
+  setBudget(level: ScopeLevel, id: string, budget: UsageBudget): void {
+    this.budgets.set(scopeKey(level, id), budget);
+  }
+
+  getBudget(level: ScopeLevel, id: string): UsageBudget | undefined {
+    return this.budgets.get(scopeKey(level, id));
+  }
+
+  getTotals(level: ScopeLevel, id: string): UsageTotals {
+    return { ...(this.totals.get(scopeKey(level, id)) || emptyTotals()) };
+  }
+
+  record(usage: UsageRecord, scope: UsageScope): ChargedUsage {
+    const costUsd = priceUsage(usage, this.pricing);
+    const charged: ChargedUsage = {
+      ...usage,
+      scope,
+      costUsd: costUsd ?? 0,
+      unpriced: costUsd === undefined,
+    };
+    for (const level of SCOPE_LEVELS) {
+      const id = scope[level];
+      if (id === undefined) {
+        continue;
+      }
+      const key = scopeKey(level, id);
+      const totals = this.totals.get(key) || emptyTotals();
+      totals.calls++;
+      totals.inputTokens += charged.inputTokens;
+      totals.outputTokens += charged.outputTokens;
+      totals.costUsd += charged.costUsd;
+      totals.unpricedCalls += charged.unpriced ? 1 : 0;
+      this.totals.set(key, totals);
+    }
+    this.onRecord?.(charged);
+    return charged;
+  }
+
+  /** A listener to pass as `onUsage` in the agent's ModelConfig */
+  listener(scope: UsageScope): UsageListener {
+    return (usage) => {
+      this.record(usage, scope);
+    };
+  }
+
+  /**
+   * Throws BudgetExceededError if any level of the scope has already spent
+   * its budget. Checked before a call, so the last call may overshoot it.
+   * A cost budget cannot be kept once an unpriced model has been used, so
+   * that fails the check too; add the model to the pricing table.
+   */
+  assertWithinBudget(scope: UsageScope): void {
+    for (const level of SCOPE_LEVELS) {
+      const id = scope[level];
+      const budget = id === undefined ? undefined : this.getBudget(level, id);
+      if (id === undefined || !budget) {
+        continue;
+      }
+      const totals = this.getTotals(level, id);
+      if (budget.maxCostUsd !== undefined && totals.unpricedCalls > 0) {
+        throw new BudgetExceededError(
+          scopeKey(level, id),
+          `${totals.unpricedCalls} call(s) to models with no price`,
+        );
+      }
+      if (
+        budget.maxCostUsd !== undefined &&
+        totals.costUsd >= budget.maxCostUsd
+      ) {
+        throw new BudgetExceededError(
+          scopeKey(level, id),
+          `spent $${totals.costUsd.toFixed(4)} of $${budget.maxCostUsd}`,
+        );
+      }
+      const tokens = totals.inputTokens + totals.outputTokens;
+      if (budget.maxTokens !== undefined && tokens >= budget.maxTokens) {
+        throw new BudgetExceededError(
+          scopeKey(level, id),
+          `used ${tokens} of ${budget.maxTokens} tokens`,
+        );
+      }
+    }
+  }
+
+  reset(): void {
+    this.totals.clear();
+  }
+}
+
+/**
+ * Rejects calls once the scope's budget is exhausted. The wrapped agent must
+ * report to the tracker, which `BudgetedAgent.create` wires up.
+ */
+export class BudgetedAgent implements BaseAgent {
+  modelName: string;
+  temperature: number;
+  maxTokens: number;
+  // Only present when the wrapped agent supports them, like the adapters
+  chatWithTools?: (
+    messages: ChatMessage[],
+    tools: ToolDefinition[],
+    options?: ChatOptions,
+  ) => Promise<ToolChatResponse>;
+  chatJson?: (
+    messages: ChatMessage[],
+    schema: JsonSchema,
+    options?: ChatOptions,
+  ) => Promise<string>;
+
+  private agent: BaseAgent;
+  private tracker: UsageTracker;
+  private scope: UsageScope;
+
+  constructor(agent: BaseAgent, tracker: UsageTracker, scope: UsageScope) {
+    this.agent = agent;
+    this.tracker = tracker;
+    this.scope = scope;
+    this.modelName = agent.modelName;
+    this.temperature = agent.temperature;
+    this.maxTokens = agent.maxTokens;
+
+    const { chatWithTools, chatJson } = agent;
+    if (chatWithTools) {
+      this.chatWithTools = async (messages, tools, options) => {
+        this.tracker.assertWithinBudget(this.scope);
+        return chatWithTools.call(agent, messages, tools, options);
+      };
+    }
+    if (chatJson) {
+      this.chatJson = async (messages, schema, options) => {
+        this.tracker.assertWithinBudget(this.scope);
+        return chatJson.call(agent, messages, schema, options);
+      };
+    }
+  }
+
+  static create(
+    type: AgentType,
+    config: ModelConfig,
+    tracker: UsageTracker,
+    scope: UsageScope,
+  ): BudgetedAgent {
+    const record = tracker.listener(scope);
+    const agent = AgentFactory.createAgent(type, {
+      ...config,
+      onUsage: (usage) => {
+        record(usage);
+        config.onUsage?.(usage);
+      },
+    });
+    return new BudgetedAgent(agent, tracker, scope);
+  }
+
+  async chat(messages: ChatMessage[], options?: ChatOptions): Promise<string> {
+    this.tracker.assertWithinBudget(this.scope);
+    return this.agent.chat(messages, options);
+  }
+
+  async *stream(
+    messages: ChatMessage[],
+    options?: ChatOptions,
+  ): AsyncGenerator<string> {
+    this.tracker.assertWithinBudget(this.scope);
+    yield* this.agent.stream(messages, options);
+  }
+
+  getModelConfig(): ModelConfig {
+    return this.agent.getModelConfig();
+  }
+}
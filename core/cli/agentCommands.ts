@@ -1,11 +1,15 @@
 import chalk from "chalk";
 import Table from "cli-table3";
+import { loadCharacterSheet } from "../persona/characterSheet";
+import { compilePersonaPrompt } from "../persona/personaPrompt";
 
 interface AgentConfig {
   name: string;
   model?: string;
   description?: string;
   systemPrompt?: string;
+  /** Character sheet file; its compiled prompt replaces systemPrompt */
+  persona?: string;
 }
 
 interface ModifyAgentConfig {
@@ -14,11 +18,27 @@ interface ModifyAgentConfig {
   model?: string;
   description?: string;
   systemPrompt?: string;
+  persona?: string;
 }
 
+const personaPrompt = (config: {
+  persona?: string;
+  systemPrompt?: string;
+}): string | undefined =>
+  config.persona
+    ? compilePersonaPrompt(loadCharacterSheet(config.persona))
+    : config.systemPrompt;
+
 export const createAgent = async (config: AgentConfig): Promise<void> => {
   try {
+    const systemPrompt = personaPrompt(config);
     // Add agent creation logic here
+    if (systemPrompt) {
+      console.log(
+        chalk.blue("i"),
+        `System prompt: ${systemPrompt.split("\n")[0]}`,
+      );
+    }
     console.log(
       chalk.green("✓"),
       `Created agent '${config.name}' with model ${config.model || "gpt-3.5-turbo"}`,
@@ -31,7 +51,14 @@ export const createAgent = async (config: AgentConfig): Promise<void> => {
 
 export const modifyAgent = async (config: ModifyAgentConfig): Promise<void> => {
   try {
+    const systemPrompt = personaPrompt(config);
     // Add agent modification logic here
+    if (systemPrompt) {
+      console.log(
+        chalk.blue("i"),
+        `System prompt: ${systemPrompt.split("\n")[0]}`,
+      );
+    }
     console.log(chalk.green("✓"), `Modified agent '${config.agentId}'`);
   } catch (error) {
     console.error(chalk.red("✗"), `Failed to modify agent: ${error.message}`);
@@ -0,0 +1,32 @@
+import chalk from "chalk";
+import { loadGatewayConfig, OpenAIGateway } from "../agent/openai_gateway";
+
+interface GatewayOptions {
+  configFile: string;
+  host?: string;
+  port?: string;
+}
+
+export const startGateway = async (options: GatewayOptions): Promise<void> => {
+  try {
+    const config = loadGatewayConfig(options.configFile);
+    const gateway = new OpenAIGateway({
+      ...config,
+      host: options.host || config.host,
+      port: options.port ? Number(options.port) : config.port,
+    });
+    const { host, port } = await gateway.listen();
+    console.log(
+      chalk.green("✓"),
+      `Gateway serving ${config.models.length} model(s) at http://${host}:${port}/v1`,
+    );
+    if (!config.keys?.length) {
+      console.log(chalk.yellow("!"), "No API keys configured; auth is off");
+    }
+  } catch (error: unknown) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    console.error(chalk.red("✗"), `Failed to start gateway: ${errorMessage}`);
+    process.exit(1);
+  }
+};
@@ -0,0 +1,54 @@
+import chalk from "chalk";
+import Table from "cli-table3";
+import { benchmarkHistoryStorage } from "../engine/historyBenchmark";
+
+interface BenchmarkHistoryOptions {
+  entities?: string;
+  steps?: string;
+  tickRate?: string;
+  precision?: string;
+}
+
+export const benchmarkHistory = async (
+  options: BenchmarkHistoryOptions,
+): Promise<void> => {
+  try {
+    const result = benchmarkHistoryStorage({
+      entities: options.entities ? Number(options.entities) : undefined,
+      steps: options.steps ? Number(options.steps) : undefined,
+      tickRate: options.tickRate ? Number(options.tickRate) : undefined,
+      precision: options.precision ? Number(options.precision) : undefined,
+    });
+    const table = new Table({
+      head: ["Storage", "Bytes", "Bytes/sample"].map((header) =>
+        chalk.magenta(header),
+      ),
+    });
+    const rows: [string, number][] = [
+      ["Raw movement records (BSON)", result.rawBsonBytes],
+      ["Raw movement records (JSON)", result.rawJsonBytes],
+      ["History buffers", result.historyBytes],
+      ["History documents (BSON)", result.historyBsonBytes],
+    ];
+    for (const [label, bytes] of rows) {
+      table.push([
+        label,
+        bytes.toLocaleString(),
+        (bytes / result.samples).toFixed(2),
+      ]);
+    }
+    console.log(table.toString());
+    console.log(
+      chalk.green("✓"),
+      `${result.samples.toLocaleString()} samples, ${result.ratio.toFixed(1)}x smaller in Mongo; encode ${result.encodeMs.toFixed(0)}ms, decode ${result.decodeMs.toFixed(0)}ms, max error ${result.maxError.toFixed(4)}`,
+    );
+  } catch (error: unknown) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    console.error(
+      chalk.red("✗"),
+      `Failed to benchmark history: ${errorMessage}`,
+    );
+    process.exit(1);
+  }
+};
@@ -6,6 +6,9 @@ import {
   listAgents,
   setupEnvironment,
 } from "./agentCommands";
+import { startGateway } from "./gatewayCommands";
+import { benchmarkHistory } from "./historyCommands";
+import { compilePersona, diffPersona, recordPersona } from "./personaCommands";
 
 const program = new Command();
 
@@ -23,6 +26,7 @@ program
   .option("-m, --model <model>", "model to use", "gpt-3.5-turbo")
   .option("-d, --description <description>", "agent description")
   .option("-s, --system-prompt <prompt>", "system prompt for the agent")
+  .option("-p, --persona <file>", "character sheet to build the prompt from")
   .action(async (options) => {
     await createAgent(options);
   });
@@ -35,6 +39,7 @@ program
   .option("-m, --model <model>", "new model to use")
   .option("-d, --description <description>", "new agent description")
   .option("-s, --system-prompt <prompt>", "new system prompt")
+  .option("-p, --persona <file>", "character sheet to build the prompt from")
   .action(async (options) => {
     await modifyAgent(options);
   });
@@ -55,4 +60,66 @@ program
     await setupEnvironment(envName, options.configFile);
   });
 
+const gateway = program
+  .command("gateway")
+  .description("OpenAI-compatible gateway commands");
+
+gateway
+  .command("start")
+  .description("Serve configured agents over an OpenAI-compatible HTTP API")
+  .requiredOption("-c, --config-file <path>", "path to gateway config file")
+  .option("-H, --host <host>", "address to listen on")
+  .option("-p, --port <port>", "port to listen on")
+  .action(async (options) => {
+    await startGateway(options);
+  });
+
+const persona = program
+  .command("persona")
+  .description("Character sheet commands");
+
+persona
+  .command("compile")
+  .description("Print the system prompt compiled from a character sheet")
+  .argument("<file>", "character sheet (JSON or YAML)")
+  .option("-w, --world-file <path>", "JSON file with the current world state")
+  .action(async (file, options) => {
+    await compilePersona({ file, worldFile: options.worldFile });
+  });
+
+persona
+  .command("record")
+  .description("Record the current character sheet as a new version")
+  .argument("<file>", "character sheet (JSON or YAML)")
+  .requiredOption("-H, --history <path>", "version history file")
+  .option("-m, --note <note>", "what changed and why")
+  .action(async (file, options) => {
+    await recordPersona({ file, ...options });
+  });
+
+persona
+  .command("diff")
+  .description("Compare two recorded versions of a character sheet")
+  .requiredOption("-H, --history <path>", "version history file")
+  .requiredOption("-f, --from <version>", "older version")
+  .option("-t, --to <version>", "newer version, the latest by default")
+  .action(async (options) => {
+    await diffPersona(options);
+  });
+
+const history = program
+  .command("history")
+  .description("Movement history commands");
+
+history
+  .command("benchmark")
+  .description("Compare movement history buffers with raw movement records")
+  .option("-e, --entities <count>", "monsters moving at once", "100")
+  .option("-s, --steps <count>", "one-second steps to simulate", "60")
+  .option("-r, --tick-rate <ticks>", "ticks per second", "60")
+  .option("-p, --precision <digits>", "decimal places kept")
+  .action(async (options) => {
+    await benchmarkHistory(options);
+  });
+
 program.parse();
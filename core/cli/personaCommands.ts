@@ -0,0 +1,88 @@
+import fs from "fs";
+import chalk from "chalk";
+import { loadCharacterSheet } from "../persona/characterSheet";
+import {
+  formatPersonaChanges,
+  PersonaHistory,
+} from "../persona/personaHistory";
+import { compilePersonaPrompt } from "../persona/personaPrompt";
+
+interface CompilePersonaOptions {
+  file: string;
+  /** JSON file with the world state to fill template variables from */
+  worldFile?: string;
+}
+
+interface RecordPersonaOptions {
+  file: string;
+  history: string;
+  note?: string;
+}
+
+interface DiffPersonaOptions {
+  history: string;
+  from: string;
+  to?: string;
+}
+
+export const compilePersona = async (
+  options: CompilePersonaOptions,
+): Promise<void> => {
+  try {
+    const sheet = loadCharacterSheet(options.file);
+    const world = options.worldFile
+      ? JSON.parse(fs.readFileSync(options.worldFile, "utf8"))
+      : undefined;
+    console.log(compilePersonaPrompt(sheet, { world }));
+  } catch (error: unknown) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    console.error(chalk.red("✗"), `Failed to compile persona: ${errorMessage}`);
+    process.exit(1);
+  }
+};
+
+export const recordPersona = async (
+  options: RecordPersonaOptions,
+): Promise<void> => {
+  try {
+    const history = PersonaHistory.load(options.history);
+    const previous = history.latest()?.version;
+    const version = history.record(
+      loadCharacterSheet(options.file),
+      options.note,
+    );
+    if (version.version === previous) {
+      console.log(chalk.blue("i"), `No changes since version ${previous}`);
+      return;
+    }
+    history.save(options.history);
+    console.log(
+      chalk.green("✓"),
+      `Recorded ${version.sheet.name} as version ${version.version}`,
+    );
+  } catch (error: unknown) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    console.error(chalk.red("✗"), `Failed to record persona: ${errorMessage}`);
+    process.exit(1);
+  }
+};
+
+export const diffPersona = async (
+  options: DiffPersonaOptions,
+): Promise<void> => {
+  try {
+    const history = PersonaHistory.load(options.history);
+    const changes = history.diff(
+      Number(options.from),
+      options.to ? Number(options.to) : undefined,
+    );
+    console.log(formatPersonaChanges(changes));
+  } catch (error: unknown) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    console.error(chalk.red("✗"), `Failed to diff persona: ${errorMessage}`);
+    process.exit(1);
+  }
+};
@@ -1,4 +1,4 @@
-import { MongoClient, Collection } from "mongodb";
+import { MongoClient, Collection, Binary } from "mongodb";
 import { ChatMessage } from "../types";
 
 // Connection URI and DB settings
@@ -157,6 +157,48 @@ export async function saveAgentInteraction(
   }
 }
 
+/**
+ * Save one step's compressed movement history (see HistoryObject)
+ */
+export async function saveMovementHistory(
+  step: number,
+  startTime: Date,
+  buffer: Uint8Array,
+): Promise<void> {
+  try {
+    const collection = await getCollection("movement_history");
+    const record = {
+      step,
+      startTime,
+      buffer: new Binary(buffer),
+    };
+    await collection.insertOne(record);
+  } catch (error) {
+    console.error("Failed to save movement history:", error);
+    throw error;
+  }
+}
+
+/**
+ * Get compressed movement history buffers for a time range, oldest first
+ */
+export async function getMovementHistory(
+  startTime: Date,
+  endTime: Date,
+): Promise<Uint8Array[]> {
+  try {
+    const collection = await getCollection("movement_history");
+    const records = await collection
+      .find({ startTime: { $gte: startTime, $lte: endTime } })
+      .sort({ startTime: 1 })
+      .toArray();
+    return records.map((record) => (record.buffer as Binary).buffer);
+  } catch (error) {
+    console.error("Failed to get movement history:", error);
+    throw error;
+  }
+}
+
 /**
  * Get agent movement history
  */
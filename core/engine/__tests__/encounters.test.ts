@@ -0,0 +1,225 @@
+import {
+  EncounterScheduler,
+  InteractionHistory,
+  PlannedPath,
+  predictEncounters,
+} from "../encounters";
+import { seededRandom } from "../random";
+
+const NOW = new Date("2026-01-01T00:00:00Z");
+const T0 = NOW.getTime();
+
+function walk(
+  agentId: string,
+  ...points: [number, number, number][]
+): PlannedPath {
+  return {
+    agentId,
+    waypoints: points.map(([x, y, seconds]) => ({
+      x,
+      y,
+      time: T0 + seconds * 1000,
+    })),
+  };
+}
+
+// Wanders between a few random points over the next ten seconds
+function randomPaths(count: number, seed: number): PlannedPath[] {
+  const random = seededRandom(seed);
+  return Array.from({ length: count }, (_, i) =>
+    walk(
+      `agent-${i}`,
+      ...[0, 4, 7, 10].map((seconds): [number, number, number] => [
+        random() * 30,
+        random() * 30,
+        seconds,
+      ]),
+    ),
+  );
+}
+
+function positionAt(path: PlannedPath, time: number) {
+  const points = path.waypoints;
+  const i = points.findIndex((point) => point.time >= time);
+  if (i <= 0) {
+    return points[i === 0 ? 0 : points.length - 1];
+  }
+  const [from, to] = [points[i - 1], points[i]];
+  const t = (time - from.time) / (to.time - from.time);
+  return { x: from.x + (to.x - from.x) * t, y: from.y + (to.y - from.y) * t };
+}
+
+// First millisecond each pair is within `radius`, checked one step at a time
+function bruteForce(paths: PlannedPath[], radius: number, windowMs: number) {
+  const found = new Map<string, number>();
+  for (let i = 0; i < paths.length; i++) {
+    for (let j = i + 1; j < paths.length; j++) {
+      for (let time = T0; time <= T0 + windowMs; time++) {
+        const a = positionAt(paths[i], time);
+        const b = positionAt(paths[j], time);
+        if (Math.hypot(a.x - b.x, a.y - b.y) <= radius) {
+          const agents = [paths[i].agentId, paths[j].agentId].sort();
+          found.set(agents.join(" "), time);
+          break;
+        }
+      }
+    }
+  }
+  return found;
+}
+
+const noHistory: InteractionHistory = async () => [];
+
+// Two pairs heading towards each other, meeting at 4s and 6s
+const crossing = [
+  walk("ann", [0, 0, 0], [10, 0, 10]),
+  walk("bob", [10, 0, 0], [0, 0, 10]),
+  walk("cat", [0, 20, 0], [10, 20, 10]),
+  walk("dan", [14, 20, 0], [4, 20, 10]),
+];
+
+describe("predictEncounters", () => {
+  it("finds when and where paths first come within the radius", () => {
+    const encounters = predictEncounters(crossing, NOW, { radius: 2 });
+
+    expect(encounters).toEqual([
+      {
+        agents: ["ann", "bob"],
+        time: new Date(T0 + 4000),
+        position: { x: 5, y: 0 },
+      },
+      {
+        agents: ["cat", "dan"],
+        time: new Date(T0 + 6000),
+        position: { x: 7, y: 20 },
+      },
+    ]);
+  });
+
+  it("only looks as far ahead as the window", () => {
+    expect(
+      predictEncounters(crossing, NOW, { radius: 2, windowMs: 5000 }).map(
+        ({ agents }) => agents,
+      ),
+    ).toEqual([["ann", "bob"]]);
+  });
+
+  it("agrees with checking every pair at every millisecond", () => {
+    const paths = randomPaths(12, 5);
+
+    const encounters = predictEncounters(paths, NOW, { radius: 2 });
+    const expected = bruteForce(paths, 2, 10_000);
+
+    expect(encounters.length).toBeGreaterThan(0);
+    expect(encounters.map(({ agents }) => agents.join(" ")).sort()).toEqual(
+      [...expected.keys()].sort(),
+    );
+    for (const { agents, time } of encounters) {
+      const first = expected.get(agents.join(" "))!;
+      expect(Math.abs(time.getTime() - first)).toBeLessThanOrEqual(1);
+    }
+  });
+});
+
+describe("EncounterScheduler", () => {
+  it("schedules the same conversations from the same seed", async () => {
+    const paths = randomPaths(20, 11);
+    const run = async () => {
+      const scheduler = new EncounterScheduler({
+        chance: 0.5,
+        seed: 3,
+        history: noHistory,
+      });
+      await scheduler.schedule(paths, NOW);
+      return scheduler.pending;
+    };
+
+    const first = await run();
+
+    expect(first.length).toBeGreaterThan(0);
+    expect(await run()).toEqual(first);
+  });
+
+  it("skips agents that already have a conversation", async () => {
+    const scheduler = new EncounterScheduler({ history: noHistory });
+    // Eve catches up with ann only after ann has met bob
+    const paths = [...crossing, walk("eve", [30, 0, 0], [10, 0, 10])];
+
+    const tasks = await scheduler.schedule(paths, NOW);
+
+    expect(tasks.map((task) => task.participants)).toEqual([
+      ["ann", "bob"],
+      ["cat", "dan"],
+    ]);
+    expect(scheduler.isBusy("ann")).toBe(true);
+    expect(scheduler.isBusy("eve")).toBe(false);
+  });
+
+  it("waits out the cooldown after a completed conversation", async () => {
+    const scheduler = new EncounterScheduler({
+      cooldownMs: 60_000,
+      history: noHistory,
+    });
+    await scheduler.schedule(crossing, NOW);
+
+    expect(scheduler.next(NOW)).toBeUndefined();
+    const task = scheduler.next(new Date(T0 + 4000))!;
+    expect(task.participants).toEqual(["ann", "bob"]);
+    scheduler.complete(task.id, new Date(T0 + 5000));
+
+    const soon = new Date(T0 + 30_000);
+    expect(await scheduler.schedule(shift(crossing, 30), soon)).toEqual([]);
+
+    const later = new Date(T0 + 70_000);
+    const again = await scheduler.schedule(shift(crossing, 70), later);
+    expect(again.map((next) => next.participants)).toEqual([["ann", "bob"]]);
+  });
+
+  it("skips pairs that talked recently according to the history", async () => {
+    const history = jest.fn<ReturnType<InteractionHistory>, [string, Date]>(
+      async (agentId) =>
+        agentId === "ann"
+          ? [
+              {
+                agentId1: "bob",
+                agentId2: "ann",
+                interactionType: "conversation",
+                timestamp: new Date(T0 - 1000),
+              },
+            ]
+          : [
+              {
+                agentId1: "cat",
+                agentId2: "dan",
+                interactionType: "trade",
+                timestamp: new Date(T0 - 1000),
+              },
+            ],
+    );
+    const scheduler = new EncounterScheduler({ cooldownMs: 60_000, history });
+
+    const tasks = await scheduler.schedule(crossing, NOW);
+
+    expect(tasks.map((task) => task.participants)).toEqual([["cat", "dan"]]);
+    expect(history).toHaveBeenCalledWith("ann", new Date(T0 - 60_000));
+    expect(history).toHaveBeenCalledTimes(2);
+  });
+
+  it("refuses to complete a task it does not know", () => {
+    const scheduler = new EncounterScheduler({ history: noHistory });
+
+    expect(() => scheduler.complete("conversation-9", NOW)).toThrow(
+      "Unknown conversation task",
+    );
+  });
+});
+
+function shift(paths: PlannedPath[], seconds: number): PlannedPath[] {
+  return paths.map((path) => ({
+    ...path,
+    waypoints: path.waypoints.map((point) => ({
+      ...point,
+      time: point.time + seconds * 1000,
+    })),
+  }));
+}
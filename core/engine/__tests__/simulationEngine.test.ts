@@ -0,0 +1,231 @@
+import { seededRandom } from "../random";
+import {
+  ActionInput,
+  ActionRejectedError,
+  Actor,
+  ActorContext,
+  RuleSystem,
+  SimulationEngine,
+} from "../simulationEngine";
+import { emptyEnvironment, MemoryWorldStore } from "../worldStore";
+
+interface Position {
+  x: number;
+  y: number;
+  dx: number;
+  dy: number;
+}
+
+const START = new Date("2026-01-01T00:00:00Z");
+
+// Picks a random heading each step from its own seeded generator
+class WanderingActor implements Actor {
+  readonly kind = "agent";
+  readonly id: string;
+  private random: () => number;
+
+  constructor(id: string, seed: number) {
+    this.id = id;
+    this.random = seededRandom(seed);
+  }
+
+  async act(): Promise<ActionInput[]> {
+    return [
+      {
+        type: "move",
+        payload: {
+          dx: Math.round(this.random() * 4 - 2),
+          dy: Math.round(this.random() * 4 - 2),
+        },
+      },
+    ];
+  }
+}
+
+class ScriptedActor implements Actor {
+  readonly kind = "player";
+  readonly id: string;
+  private script: (context: ActorContext) => Promise<ActionInput[]>;
+
+  constructor(
+    id: string,
+    script: (context: ActorContext) => Promise<ActionInput[]>,
+  ) {
+    this.id = id;
+    this.script = script;
+  }
+
+  act(context: ActorContext): Promise<ActionInput[]> {
+    return this.script(context);
+  }
+}
+
+function positions(world: {
+  world: { entities: Record<string, unknown> };
+}): Record<string, Position> {
+  return world.world.entities as Record<string, Position>;
+}
+
+// Moves entities by their heading once per tick, scaled to the tick length
+const movement: RuleSystem = {
+  name: "movement",
+  actions: ["move"],
+  apply(action, { world }) {
+    const { dx, dy } = action.payload as { dx: number; dy: number };
+    if (Math.abs(dx) > 1 && Math.abs(dy) > 1) {
+      throw new ActionRejectedError("Too fast");
+    }
+    const entities = positions(world);
+    const entity = entities[action.actorId] || { x: 0, y: 0, dx: 0, dy: 0 };
+    entities[action.actorId] = { ...entity, dx, dy };
+  },
+  tick({ world, tickMs }) {
+    for (const entity of Object.values(positions(world))) {
+      entity.x += (entity.dx * tickMs) / 1000;
+      entity.y += (entity.dy * tickMs) / 1000;
+    }
+  },
+};
+
+function wanderers(store: MemoryWorldStore): SimulationEngine {
+  return new SimulationEngine({
+    store,
+    actors: [new WanderingActor("goblin", 7), new WanderingActor("troll", 42)],
+    systems: [movement],
+    tickRate: 4,
+    stepRate: 1,
+    startTime: START,
+  });
+}
+
+describe("SimulationEngine", () => {
+  it("replays the same run from the same seeds", async () => {
+    const first = new MemoryWorldStore();
+    const second = new MemoryWorldStore();
+
+    const a = await wanderers(first).runSteps(20);
+    const b = await wanderers(second).runSteps(20);
+
+    expect(Object.keys(positions(first.snapshot())).sort()).toEqual([
+      "goblin",
+      "troll",
+    ]);
+    expect(b).toEqual(a);
+    expect(second.log).toEqual(first.log);
+    expect(second.snapshot()).toEqual(first.snapshot());
+  });
+
+  it("advances game time by one step length per step", async () => {
+    const engine = new SimulationEngine({
+      store: new MemoryWorldStore(),
+      stepRate: 2,
+      startTime: START,
+    });
+
+    const results = await engine.runSteps(3);
+
+    expect(results.map((result) => result.time.getTime())).toEqual([
+      START.getTime(),
+      START.getTime() + 500,
+      START.getTime() + 1000,
+    ]);
+    expect(engine.now()).toEqual(new Date(START.getTime() + 1500));
+  });
+
+  it("runs every tick of a step and saves only the diff", async () => {
+    const store = new MemoryWorldStore();
+    const engine = new SimulationEngine({
+      store,
+      actors: [
+        new ScriptedActor("goblin", async ({ step }) =>
+          step === 0 ? [{ type: "move", payload: { dx: 1, dy: 0 } }] : [],
+        ),
+      ],
+      systems: [movement],
+      tickRate: 4,
+      startTime: START,
+    });
+
+    const [first, second] = await engine.runSteps(2);
+
+    expect(first.changes).toEqual([
+      {
+        path: ["world", "entities", "goblin"],
+        kind: "set",
+        value: { x: 1, y: 0, dx: 1, dy: 0 },
+      },
+    ]);
+    expect(second.changes).toEqual([
+      { path: ["world", "entities", "goblin", "x"], kind: "set", value: 2 },
+    ]);
+    expect(positions(store.snapshot()).goblin.x).toBe(2);
+  });
+
+  it("rejects illegal and unknown actions without failing the step", async () => {
+    const engine = new SimulationEngine({
+      store: new MemoryWorldStore(),
+      actors: [
+        new ScriptedActor("goblin", async () => [
+          { type: "move", payload: { dx: 2, dy: 2 } },
+          { type: "fly" },
+          { type: "move", payload: { dx: 0, dy: 1 } },
+        ]),
+      ],
+      systems: [movement],
+      startTime: START,
+    });
+
+    const result = await engine.runStep();
+
+    expect(result.rejected.map(({ reason }) => reason)).toEqual([
+      "Too fast",
+      "Unknown action fly",
+    ]);
+    expect(result.actions).toEqual([
+      { type: "move", payload: { dx: 0, dy: 1 }, actorId: "goblin" },
+    ]);
+  });
+
+  it("skips actors that fail or run out of time", async () => {
+    const engine = new SimulationEngine({
+      store: new MemoryWorldStore(emptyEnvironment()),
+      actors: [
+        new ScriptedActor(
+          "sleeper",
+          ({ signal }) =>
+            new Promise((_, reject) =>
+              signal.addEventListener("abort", () => reject(signal.reason)),
+            ),
+        ),
+        new ScriptedActor("broken", async () => {
+          throw new Error("no idea");
+        }),
+        new ScriptedActor("goblin", async () => [
+          { type: "move", payload: { dx: 1, dy: 1 } },
+        ]),
+      ],
+      systems: [movement],
+      actTimeoutMs: 20,
+      startTime: START,
+    });
+
+    const result = await engine.runStep();
+
+    expect(result.missed.map(({ actorId }) => actorId)).toEqual([
+      "sleeper",
+      "broken",
+    ]);
+    expect(result.actions.map(({ actorId }) => actorId)).toEqual(["goblin"]);
+  });
+
+  it("refuses two systems handling the same action", () => {
+    const engine = new SimulationEngine({
+      store: new MemoryWorldStore(),
+      systems: [movement],
+    });
+
+    expect(() =>
+      engine.addSystem({ name: "teleport", actions: ["move"] }),
+    ).toThrow("already handled by movement");
+  });
+});
@@ -0,0 +1,101 @@
+import { BaseAgent } from "../agent/base_agent";
+import { chatStructured } from "../agent/structured_output";
+import { GameEnvironment } from "../types";
+import { ActionInput, Actor, ActorContext } from "./simulationEngine";
+
+export interface AgentActorOptions {
+  /** Action types the agent may choose from, with what each does */
+  actions: Record<string, string>;
+  /** System prompt, e.g. a compiled persona */
+  persona?: string;
+  /** What the agent gets to see; the whole world by default */
+  view?: (world: GameEnvironment, actorId: string) => unknown;
+  /** Decide only every this many steps; model calls are slower than steps */
+  everySteps?: number;
+  maxActions?: number;
+}
+
+/** A human player; the client queues actions and the next step takes them */
+export class PlayerActor implements Actor {
+  readonly id: string;
+  readonly kind = "player";
+  private queue: ActionInput[] = [];
+
+  constructor(id: string) {
+    this.id = id;
+  }
+
+  submit(action: ActionInput): void {
+    this.queue.push(action);
+  }
+
+  async act(): Promise<ActionInput[]> {
+    return this.queue.splice(0);
+  }
+}
+
+/**
+ * An AI agent choosing its actions with a model call. The reply is
+ * constrained to the allowed action types; the rule systems still decide
+ * whether each action is legal.
+ */
+export class AgentActor implements Actor {
+  readonly id: string;
+  readonly kind = "agent";
+  private agent: BaseAgent;
+  private actions: Record<string, string>;
+  private persona?: string;
+  private view: (world: GameEnvironment, actorId: string) => unknown;
+  private everySteps: number;
+  private maxActions: number;
+
+  constructor(id: string, agent: BaseAgent, options: AgentActorOptions) {
+    this.id = id;
+    this.agent = agent;
+    this.actions = options.actions;
+    this.persona = options.persona;
+    this.view = options.view || ((world) => world);
+    this.everySteps = options.everySteps ?? 1;
+    this.maxActions = options.maxActions ?? 1;
+  }
+
+  async act(context: ActorContext): Promise<ActionInput[]> {
+    if (context.step % this.everySteps !== 0) {
+      return [];
+    }
+    const menu = Object.entries(this.actions)
+      .map(([type, description]) => `- ${type}: ${description}`)
+      .join("\n");
+    const { actions } = await chatStructured<{ actions: ActionInput[] }>(
+      this.agent,
+      [
+        ...(this.persona
+          ? [{ role: "system" as const, content: this.persona }]
+          : []),
+        {
+          role: "user",
+          content: `It is ${context.time.toISOString()}. You are ${this.id}. The world:\n${JSON.stringify(this.view(context.world, this.id))}\n\nChoose up to ${this.maxActions} action(s) from:\n${menu}`,
+        },
+      ],
+      {
+        type: "object",
+        required: ["actions"],
+        properties: {
+          actions: {
+            type: "array",
+            items: {
+              type: "object",
+              required: ["type"],
+              properties: {
+                type: { type: "string", enum: Object.keys(this.actions) },
+                payload: { type: "object" },
+              },
+            },
+          },
+        },
+      },
+      { signal: context.signal },
+    );
+    return actions.slice(0, this.maxActions);
+  }
+}
@@ -0,0 +1,335 @@
+import { getAgentInteractions } from "../database/mongodb";
+import { InteractionRecord } from "../social/relationshipGraph";
+import { seededRandom } from "./random";
+import { Box, SpatialGrid } from "./spatialGrid";
+
+export interface Waypoint {
+  x: number;
+  y: number;
+  /** When the agent reaches this point, in epoch milliseconds */
+  time: number;
+}
+
+/**
+ * Where an agent intends to be, as timed waypoints in order. It moves in a
+ * straight line between them and waits at the last one.
+ */
+export interface PlannedPath {
+  agentId: string;
+  waypoints: Waypoint[];
+}
+
+export interface Encounter {
+  /** Sorted, so the same pair always reads the same way */
+  agents: [string, string];
+  /** When they first come within the radius */
+  time: Date;
+  /** Halfway between them at that moment */
+  position: { x: number; y: number };
+}
+
+export interface ConversationTask {
+  id: string;
+  participants: [string, string];
+  /** When and where the conversation should start */
+  at: Date;
+  position: { x: number; y: number };
+}
+
+/** Past interactions of an agent since a time; getAgentInteractions fits */
+export type InteractionHistory = (
+  agentId: string,
+  since: Date,
+) => Promise<InteractionRecord[]>;
+
+export interface EncounterPredictionOptions {
+  /** How close two agents must come to meet */
+  radius?: number;
+  /** How far ahead of now to look, in milliseconds */
+  windowMs?: number;
+  /** Grid cell size for the spatial index; a few radii by default */
+  cellSize?: number;
+}
+
+export interface EncounterSchedulerOptions extends EncounterPredictionOptions {
+  /** Pairs that interacted this recently are not scheduled again */
+  cooldownMs?: number;
+  /** Interaction types that count towards the cooldown */
+  interactionTypes?: string[];
+  /** Chance that an eligible encounter turns into a conversation */
+  chance?: number;
+  /** Seed for the chance rolls, so runs replay exactly */
+  seed?: number;
+  history?: InteractionHistory;
+  onSchedule?: (task: ConversationTask) => void;
+}
+
+interface Segment {
+  agentId: string;
+  from: Waypoint;
+  to: Waypoint;
+}
+
+/**
+ * Finds the pairs of agents whose planned paths bring them within `radius`
+ * of each other between `now` and `now + windowMs`, earliest first. Path
+ * segments go into a spatial grid so only nearby segments are compared.
+ */
+export function predictEncounters(
+  paths: PlannedPath[],
+  now: Date,
+  options: EncounterPredictionOptions = {},
+): Encounter[] {
+  const radius = options.radius ?? 2;
+  const start = now.getTime();
+  const end = start + (options.windowMs ?? 10_000);
+  const grid = new SpatialGrid<Segment>(options.cellSize ?? radius * 4);
+  for (const path of paths) {
+    for (const segment of clipPath(path, start, end)) {
+      grid.insert(segment, segmentBox(segment, radius / 2));
+    }
+  }
+
+  const earliest = new Map<string, Encounter>();
+  for (const [a, b] of grid.pairs()) {
+    if (a.agentId === b.agentId) {
+      continue;
+    }
+    const time = contactTime(a, b, radius);
+    if (time === undefined) {
+      continue;
+    }
+    const agents = [a.agentId, b.agentId].sort() as [string, string];
+    const key = agents.join("\u0000");
+    const known = earliest.get(key);
+    if (!known || time < known.time.getTime()) {
+      const pa = positionAt(a, time);
+      const pb = positionAt(b, time);
+      earliest.set(key, {
+        agents,
+        time: new Date(time),
+        position: { x: (pa.x + pb.x) / 2, y: (pa.y + pb.y) / 2 },
+      });
+    }
+  }
+
+  return [...earliest.values()].sort(
+    (a, b) =>
+      a.time.getTime() - b.time.getTime() ||
+      a.agents[0].localeCompare(b.agents[0]) ||
+      a.agents[1].localeCompare(b.agents[1]),
+  );
+}
+
+/**
+ * Turns predicted encounters into conversation tasks. A pair is skipped if
+ * either agent already has a task, or if they interacted within the
+ * cooldown, whether in the stored history or in a task completed here.
+ * Given the same paths, history and seed, it schedules the same tasks.
+ */
+export class EncounterScheduler {
+  private options: EncounterPredictionOptions;
+  private cooldownMs: number;
+  private interactionTypes: string[];
+  private chance: number;
+  private random: () => number;
+  private history: InteractionHistory;
+  private onSchedule?: (task: ConversationTask) => void;
+  private queue: ConversationTask[] = [];
+  private active = new Map<string, ConversationTask>();
+  private lastTalked = new Map<string, number>();
+  private sequence = 0;
+
+  constructor(options: EncounterSchedulerOptions = {}) {
+    this.options = {
+      radius: options.radius,
+      windowMs: options.windowMs,
+      cellSize: options.cellSize,
+    };
+    this.cooldownMs = options.cooldownMs ?? 10 * 60 * 1000;
+    this.interactionTypes = options.interactionTypes || ["conversation"];
+    this.chance = options.chance ?? 1;
+    this.random = seededRandom(options.seed ?? 1);
+    this.history =
+      options.history ||
+      ((agentId, since) => getAgentInteractions(agentId, since));
+    this.onSchedule = options.onSchedule;
+  }
+
+  /** Tasks waiting to be started, earliest first */
+  get pending(): ConversationTask[] {
+    return [...this.queue];
+  }
+
+  /** Agents that are queued for or in a conversation */
+  isBusy(agentId: string): boolean {
+    return [...this.queue, ...this.active.values()].some((task) =>
+      task.participants.includes(agentId),
+    );
+  }
+
+  /** Predicts encounters on `paths` and enqueues the eligible ones */
+  async schedule(paths: PlannedPath[], now: Date): Promise<ConversationTask[]> {
+    const since = new Date(now.getTime() - this.cooldownMs);
+    const histories = new Map<string, Promise<InteractionRecord[]>>();
+    const historyOf = (agentId: string) => {
+      if (!histories.has(agentId)) {
+        histories.set(agentId, this.history(agentId, since));
+      }
+      return histories.get(agentId)!;
+    };
+
+    const scheduled: ConversationTask[] = [];
+    for (const encounter of predictEncounters(paths, now, this.options)) {
+      const [a, b] = encounter.agents;
+      if (this.isBusy(a) || this.isBusy(b)) {
+        continue;
+      }
+      const last = this.lastTalked.get(pairKey(a, b));
+      if (last !== undefined && now.getTime() - last < this.cooldownMs) {
+        continue;
+      }
+      const recent = (await historyOf(a)).some(
+        (record) =>
+          this.interactionTypes.includes(record.interactionType) &&
+          (record.agentId1 === b || record.agentId2 === b) &&
+          (!record.timestamp || record.timestamp >= since),
+      );
+      if (recent || this.random() >= this.chance) {
+        continue;
+      }
+      const task: ConversationTask = {
+        id: `conversation-${++this.sequence}`,
+        participants: encounter.agents,
+        at: encounter.time,
+        position: encounter.position,
+      };
+      this.queue.push(task);
+      scheduled.push(task);
+      this.onSchedule?.(task);
+    }
+    this.queue.sort((a, b) => a.at.getTime() - b.at.getTime());
+    return scheduled;
+  }
+
+  /** Takes the next task due by `now`; its agents stay busy until completed */
+  next(now?: Date): ConversationTask | undefined {
+    if (!this.queue.length || (now && this.queue[0].at > now)) {
+      return undefined;
+    }
+    const task = this.queue.shift()!;
+    this.active.set(task.id, task);
+    return task;
+  }
+
+  /** Frees the task's agents and starts their cooldown at `at` */
+  complete(taskId: string, at: Date): void {
+    const task =
+      this.active.get(taskId) ||
+      this.queue.find((queued) => queued.id === taskId);
+    if (!task) {
+      throw new Error(`Unknown conversation task: ${taskId}`);
+    }
+    this.active.delete(taskId);
+    this.queue = this.queue.filter((queued) => queued.id !== taskId);
+    this.lastTalked.set(pairKey(...task.participants), at.getTime());
+  }
+
+  /** Drops a task without starting the cooldown, e.g. when a path changed */
+  cancel(taskId: string): void {
+    this.active.delete(taskId);
+    this.queue = this.queue.filter((queued) => queued.id !== taskId);
+  }
+}
+
+function pairKey(a: string, b: string): string {
+  return [a, b].sort().join("\u0000");
+}
+
+// Splits a path into segments within [start, end]; a path that ends early
+// waits at its last waypoint
+function clipPath(path: PlannedPath, start: number, end: number): Segment[] {
+  const waypoints = [...path.waypoints].sort((a, b) => a.time - b.time);
+  if (!waypoints.length) {
+    return [];
+  }
+  const last = waypoints[waypoints.length - 1];
+  if (last.time < end) {
+    waypoints.push({ ...last, time: end });
+  }
+  const segments: Segment[] = [];
+  for (let i = 1; i < waypoints.length; i++) {
+    const segment = {
+      agentId: path.agentId,
+      from: waypoints[i - 1],
+      to: waypoints[i],
+    };
+    const from = Math.max(segment.from.time, start);
+    const to = Math.min(segment.to.time, end);
+    if (from > to) {
+      continue;
+    }
+    segments.push({
+      agentId: path.agentId,
+      from: { ...positionAt(segment, from), time: from },
+      to: { ...positionAt(segment, to), time: to },
+    });
+  }
+  return segments;
+}
+
+function positionAt(segment: Segment, time: number): { x: number; y: number } {
+  const duration = segment.to.time - segment.from.time;
+  const t = duration > 0 ? (time - segment.from.time) / duration : 0;
+  return {
+    x: segment.from.x + (segment.to.x - segment.from.x) * t,
+    y: segment.from.y + (segment.to.y - segment.from.y) * t,
+  };
+}
+
+function segmentBox(segment: Segment, margin: number): Box {
+  return {
+    minX: Math.min(segment.from.x, segment.to.x) - margin,
+    minY: Math.min(segment.from.y, segment.to.y) - margin,
+    maxX: Math.max(segment.from.x, segment.to.x) + margin,
+    maxY: Math.max(segment.from.y, segment.to.y) + margin,
+  };
+}
+
+// Earliest time both segments are within `radius`, solving
+// |offset + velocity * t| = radius over the time they overlap
+function contactTime(
+  a: Segment,
+  b: Segment,
+  radius: number,
+): number | undefined {
+  const start = Math.max(a.from.time, b.from.time);
+  const end = Math.min(a.to.time, b.to.time);
+  if (start > end) {
+    return undefined;
+  }
+  const pa = positionAt(a, start);
+  const pb = positionAt(b, start);
+  const dx = pa.x - pb.x;
+  const dy = pa.y - pb.y;
+  const c = dx * dx + dy * dy - radius * radius;
+  if (c <= 0) {
+    return start;
+  }
+  const qa = positionAt(a, end);
+  const qb = positionAt(b, end);
+  const duration = end - start;
+  if (duration <= 0) {
+    return undefined;
+  }
+  const vx = (qa.x - qb.x - dx) / duration;
+  const vy = (qa.y - qb.y - dy) / duration;
+  const speed = vx * vx + vy * vy;
+  const half = dx * vx + dy * vy;
+  const discriminant = half * half - speed * c;
+  if (speed === 0 || discriminant < 0) {
+    return undefined;
+  }
+  const t = (-half - Math.sqrt(discriminant)) / speed;
+  return t >= 0 && t <= duration ? start + t : undefined;
+}
@@ -0,0 +1,157 @@
+import { Binary, BSON, ObjectId } from "mongodb";
+import { decodeHistory, HistoryObject } from "./historyObject";
+import { seededRandom } from "./random";
+
+export interface HistoryBenchmarkOptions {
+  entities?: number;
+  /** Steps simulated; each is one second of game time */
+  steps?: number;
+  tickRate?: number;
+  precision?: number;
+  /** Seed for the synthetic movement, so runs are comparable */
+  seed?: number;
+}
+
+export interface HistoryBenchmarkResult {
+  samples: number;
+  /** One saveAgentMovement document per entity per tick, as BSON */
+  rawBsonBytes: number;
+  /** The same documents as JSON, e.g. over the wire */
+  rawJsonBytes: number;
+  /** The history buffers alone */
+  historyBytes: number;
+  /** One document per step holding the buffer, as BSON */
+  historyBsonBytes: number;
+  /** rawBsonBytes over historyBsonBytes */
+  ratio: number;
+  encodeMs: number;
+  decodeMs: number;
+  /** Largest position error introduced by quantization */
+  maxError: number;
+}
+
+/**
+ * Measures HistoryObject storage against raw AgentMovementRecord rows on
+ * synthetic movement: monsters walking between random waypoints at
+ * varying speeds and pausing on arrival. Index and padding overhead in
+ * Mongo is not counted, which only flatters the raw rows.
+ */
+export function benchmarkHistoryStorage(
+  options: HistoryBenchmarkOptions = {},
+): HistoryBenchmarkResult {
+  const entities = options.entities ?? 100;
+  const steps = options.steps ?? 60;
+  const tickRate = options.tickRate ?? 60;
+  const tickMs = 1000 / tickRate;
+  const random = seededRandom(options.seed ?? 1);
+  const walkers = Array.from({ length: entities }, (_, i) => ({
+    id: `monster-${i}`,
+    position: { x: random() * 1000, y: random() * 1000, z: 0 },
+    target: { x: random() * 1000, y: random() * 1000 },
+    speed: 1 + random() * 4,
+    pauseTicks: 0,
+  }));
+
+  const history = new HistoryObject({
+    fields: ["x", "y", "z"],
+    precision: options.precision,
+  });
+  const startTime = Date.UTC(2026, 0, 1);
+  let rawBsonBytes = 0;
+  let rawJsonBytes = 0;
+  let historyBytes = 0;
+  let historyBsonBytes = 0;
+  let encodeMs = 0;
+  let decodeMs = 0;
+  let maxError = 0;
+
+  for (let step = 0; step < steps; step++) {
+    const stepStart = startTime + step * 1000;
+    const expected = new Map<string, number[]>();
+    for (let tick = 0; tick < tickRate; tick++) {
+      for (const walker of walkers) {
+        moveWalker(walker, tickMs, random);
+        const record = {
+          _id: new ObjectId(),
+          agentId: walker.id,
+          position: { ...walker.position },
+          timestamp: new Date(stepStart + tick * tickMs),
+        };
+        rawBsonBytes += BSON.calculateObjectSize(record);
+        rawJsonBytes += Buffer.byteLength(JSON.stringify(record));
+        const started = performance.now();
+        history.record(tick, walker.id, walker.position);
+        encodeMs += performance.now() - started;
+        if (tick === tickRate - 1) {
+          expected.set(walker.id, [walker.position.x, walker.position.y]);
+        }
+      }
+    }
+
+    let started = performance.now();
+    const buffer = history.flush(new Date(stepStart), tickMs);
+    encodeMs += performance.now() - started;
+    historyBytes += buffer.length;
+    historyBsonBytes += BSON.calculateObjectSize({
+      _id: new ObjectId(),
+      step,
+      startTime: new Date(stepStart),
+      buffer: new Binary(buffer),
+    });
+
+    started = performance.now();
+    const decoded = decodeHistory(buffer);
+    decodeMs += performance.now() - started;
+    for (const [id, [x, y]] of expected) {
+      const track = decoded.tracks[id];
+      const last = track.ticks.length - 1;
+      maxError = Math.max(
+        maxError,
+        Math.abs(track.values.x[last] - x),
+        Math.abs(track.values.y[last] - y),
+      );
+    }
+  }
+
+  return {
+    samples: entities * steps * tickRate,
+    rawBsonBytes,
+    rawJsonBytes,
+    historyBytes,
+    historyBsonBytes,
+    ratio: rawBsonBytes / historyBsonBytes,
+    encodeMs,
+    decodeMs,
+    maxError,
+  };
+}
+
+function moveWalker(
+  walker: {
+    position: { x: number; y: number; z: number };
+    target: { x: number; y: number };
+    speed: number;
+    pauseTicks: number;
+  },
+  tickMs: number,
+  random: () => number,
+): void {
+  if (walker.pauseTicks > 0) {
+    walker.pauseTicks--;
+    return;
+  }
+  const dx = walker.target.x - walker.position.x;
+  const dy = walker.target.y - walker.position.y;
+  const distance = Math.hypot(dx, dy);
+  const stride = (walker.speed * tickMs) / 1000;
+  if (distance <= stride) {
+    walker.position.x = walker.target.x;
+    walker.position.y = walker.target.y;
+    walker.target = { x: random() * 1000, y: random() * 1000 };
+    walker.speed = 1 + random() * 4;
+    walker.pauseTicks = Math.floor(random() * 120);
+    return;
+  }
+  walker.position.x += (dx / distance) * stride;
+  walker.position.y += (dy / distance) * stride;
+}
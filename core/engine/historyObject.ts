@@ -0,0 +1,375 @@
+import { GameEnvironment } from "../types";
+import { RuleSystem } from "./simulationEngine";
+
+export interface HistoryOptions {
+  /** Numeric fields recorded for every entity, e.g. ["x", "y", "z"] */
+  fields: string[];
+  /** Decimal places kept; 2 keeps positions to the centimetre */
+  precision?: number;
+}
+
+/** One entity's samples from a decoded buffer */
+export interface HistoryTrack {
+  /** Tick index of each sample within the step */
+  ticks: number[];
+  values: Record<string, number[]>;
+}
+
+export interface DecodedHistory {
+  /** Game time of tick 0, in epoch milliseconds */
+  startTime: number;
+  tickMs: number;
+  fields: string[];
+  tracks: Record<string, HistoryTrack>;
+}
+
+export interface HistorySystemOptions {
+  /** Per-entity values to record; numeric `fields` of world entities by default */
+  select?: (world: GameEnvironment) => Record<string, Record<string, number>>;
+  /** Receives each step's buffer, e.g. to save it next to the world diff */
+  onBuffer: (buffer: Uint8Array, step: number, startTime: Date) => void;
+}
+
+interface Series {
+  ticks: number[];
+  values: number[][];
+}
+
+const MAGIC = [0x48, 0x4f];
+const FORMAT_VERSION = 1;
+
+/**
+ * Collects numeric fields per entity every tick and packs one step of them
+ * into a compact buffer. Values are quantized to integers, stored as
+ * second-order deltas (so steady motion is all zeros), zigzag varint
+ * encoded, and runs of zeros collapse into a single byte.
+ */
+export class HistoryObject {
+  readonly fields: string[];
+  private precision: number;
+  private series = new Map<string, Series>();
+
+  constructor(options: HistoryOptions) {
+    this.fields = options.fields;
+    this.precision = options.precision ?? 2;
+  }
+
+  /** Samples recorded since the last flush */
+  get size(): number {
+    let count = 0;
+    this.series.forEach((series) => (count += series.ticks.length));
+    return count;
+  }
+
+  /** Records one entity at one tick; missing fields repeat their last value */
+  record(tick: number, entityId: string, values: Record<string, number>): void {
+    let series = this.series.get(entityId);
+    if (!series) {
+      series = { ticks: [], values: this.fields.map(() => []) };
+      this.series.set(entityId, series);
+    }
+    series.ticks.push(tick);
+    this.fields.forEach((field, i) => {
+      const column = series.values[i];
+      const value = values[field];
+      column.push(
+        Number.isFinite(value) ? value : (column[column.length - 1] ?? 0),
+      );
+    });
+  }
+
+  /** Encodes everything recorded so far and starts a new buffer */
+  flush(startTime: Date, tickMs: number): Uint8Array {
+    const scale = 10 ** this.precision;
+    const writer = new ByteWriter();
+    writer.bytes([...MAGIC, FORMAT_VERSION]);
+    writer.varint(startTime.getTime());
+    writer.varint(Math.round(tickMs * 1000));
+    writer.varint(this.precision);
+    writer.varint(this.fields.length);
+    this.fields.forEach((field) => writer.string(field));
+    writer.varint(this.series.size);
+    for (const [entityId, series] of this.series) {
+      writer.string(entityId);
+      writer.varint(series.ticks.length);
+      writeSeries(writer, series.ticks);
+      for (const column of series.values) {
+        writeSeries(
+          writer,
+          column.map((value) => Math.round(value * scale)),
+        );
+      }
+    }
+    this.series.clear();
+    return writer.finish();
+  }
+}
+
+export function decodeHistory(buffer: Uint8Array): DecodedHistory {
+  const reader = new ByteReader(buffer);
+  const header = reader.bytes(3);
+  if (header[0] !== MAGIC[0] || header[1] !== MAGIC[1]) {
+    throw new Error("Not a history buffer");
+  }
+  if (header[2] !== FORMAT_VERSION) {
+    throw new Error(`Unsupported history format version ${header[2]}`);
+  }
+  const startTime = reader.varint();
+  const tickMs = reader.varint() / 1000;
+  const scale = 10 ** reader.varint();
+  const fields = Array.from({ length: reader.varint() }, () => reader.string());
+  const tracks: Record<string, HistoryTrack> = {};
+  const entityCount = reader.varint();
+  for (let i = 0; i < entityCount; i++) {
+    const entityId = reader.string();
+    const count = reader.varint();
+    const ticks = readSeries(reader, count);
+    const values: Record<string, number[]> = {};
+    for (const field of fields) {
+      values[field] = readSeries(reader, count).map((value) => value / scale);
+    }
+    tracks[entityId] = { ticks, values };
+  }
+  return { startTime, tickMs, fields, tracks };
+}
+
+/**
+ * Client-side playback across consecutive step buffers: add buffers as
+ * they arrive and sample any entity at any time in between, linearly
+ * interpolated, so movement renders smoothly at any frame rate.
+ */
+export class HistoryPlayer {
+  private samples = new Map<
+    string,
+    { time: number; values: Record<string, number> }[]
+  >();
+
+  add(buffer: Uint8Array | DecodedHistory): void {
+    const history =
+      buffer instanceof Uint8Array ? decodeHistory(buffer) : buffer;
+    for (const [entityId, track] of Object.entries(history.tracks)) {
+      const samples = this.samples.get(entityId) || [];
+      track.ticks.forEach((tick, i) => {
+        samples.push({
+          time: history.startTime + tick * history.tickMs,
+          values: Object.fromEntries(
+            history.fields.map((field) => [field, track.values[field][i]]),
+          ),
+        });
+      });
+      samples.sort((a, b) => a.time - b.time);
+      this.samples.set(entityId, samples);
+    }
+  }
+
+  /** Values at `time` (epoch ms), held at the ends of the recorded range */
+  sample(entityId: string, time: number): Record<string, number> | undefined {
+    const samples = this.samples.get(entityId);
+    if (!samples?.length) {
+      return undefined;
+    }
+    if (time <= samples[0].time) {
+      return { ...samples[0].values };
+    }
+    const last = samples[samples.length - 1];
+    if (time >= last.time) {
+      return { ...last.values };
+    }
+    let low = 0;
+    let high = samples.length - 1;
+    while (high - low > 1) {
+      const mid = (low + high) >> 1;
+      if (samples[mid].time <= time) {
+        low = mid;
+      } else {
+        high = mid;
+      }
+    }
+    const a = samples[low];
+    const b = samples[high];
+    const t = (time - a.time) / (b.time - a.time);
+    return Object.fromEntries(
+      Object.entries(a.values).map(([field, value]) => [
+        field,
+        value + (b.values[field] - value) * t,
+      ]),
+    );
+  }
+
+  /** Drops samples older than `time`, keeping one to interpolate from */
+  discardBefore(time: number): void {
+    for (const [entityId, samples] of this.samples) {
+      const firstKept = samples.findIndex((sample) => sample.time >= time);
+      if (firstKept < 0) {
+        this.samples.set(entityId, samples.slice(-1));
+      } else if (firstKept > 1) {
+        this.samples.set(entityId, samples.slice(firstKept - 1));
+      }
+    }
+  }
+}
+
+/**
+ * Records `history` on every engine tick and hands over one buffer per
+ * step. Register it after the systems that move things, so each tick's
+ * sample shows where the tick left them.
+ */
+export function historySystem(
+  history: HistoryObject,
+  options: HistorySystemOptions,
+): RuleSystem {
+  const select =
+    options.select || ((world) => numericFields(world, history.fields));
+  let stepStart: Date | undefined;
+  let tickMs = 0;
+  return {
+    name: "history",
+    tick(context) {
+      if (context.tick === 0) {
+        stepStart = context.time;
+      }
+      tickMs = context.tickMs;
+      for (const [entityId, values] of Object.entries(select(context.world))) {
+        history.record(context.tick, entityId, values);
+      }
+    },
+    endStep(context) {
+      options.onBuffer(
+        history.flush(stepStart || context.time, tickMs),
+        context.step,
+        stepStart || context.time,
+      );
+    },
+  };
+}
+
+function numericFields(
+  world: GameEnvironment,
+  fields: string[],
+): Record<string, Record<string, number>> {
+  const selected: Record<string, Record<string, number>> = {};
+  for (const [entityId, entity] of Object.entries(world.world.entities)) {
+    if (!entity || typeof entity !== "object") {
+      continue;
+    }
+    const record = entity as Record<string, unknown>;
+    if (fields.some((field) => typeof record[field] === "number")) {
+      selected[entityId] = Object.fromEntries(
+        fields.map((field) => [field, record[field] as number]),
+      );
+    }
+  }
+  return selected;
+}
+
+function writeSeries(writer: ByteWriter, values: number[]): void {
+  let previous = 0;
+  let previousDelta = 0;
+  let zeros = 0;
+  for (const value of values) {
+    const delta = value - previous;
+    const secondDelta = delta - previousDelta;
+    previous = value;
+    previousDelta = delta;
+    if (secondDelta === 0) {
+      zeros++;
+      continue;
+    }
+    if (zeros) {
+      writer.varint(zeros * 2 + 1);
+      zeros = 0;
+    }
+    writer.varint(zigzag(secondDelta) * 2);
+  }
+  if (zeros) {
+    writer.varint(zeros * 2 + 1);
+  }
+}
+
+function readSeries(reader: ByteReader, count: number): number[] {
+  const values: number[] = [];
+  let value = 0;
+  let delta = 0;
+  while (values.length < count) {
+    const token = reader.varint();
+    // Odd tokens are runs of zero second deltas
+    const run = token % 2 ? (token - 1) / 2 : 1;
+    delta += token % 2 ? 0 : unzigzag(token / 2);
+    for (let i = 0; i < run; i++) {
+      value += delta;
+      values.push(value);
+    }
+  }
+  return values;
+}
+
+// Arithmetic rather than bitwise, so values past 32 bits survive
+function zigzag(value: number): number {
+  return value >= 0 ? value * 2 : -value * 2 - 1;
+}
+
+function unzigzag(value: number): number {
+  return value % 2 ? -(value + 1) / 2 : value / 2;
+}
+
+class ByteWriter {
+  private buffer: number[] = [];
+
+  bytes(values: number[]): void {
+    this.buffer.push(...values);
+  }
+
+  varint(value: number): void {
+    let rest = value;
+    while (rest >= 0x80) {
+      this.buffer.push((rest % 0x80) + 0x80);
+      rest = Math.floor(rest / 0x80);
+    }
+    this.buffer.push(rest);
+  }
+
+  string(value: string): void {
+    const encoded = new TextEncoder().encode(value);
+    this.varint(encoded.length);
+    this.bytes([...encoded]);
+  }
+
+  finish(): Uint8Array {
+    return Uint8Array.from(this.buffer);
+  }
+}
+
+class ByteReader {
+  private buffer: Uint8Array;
+  private offset = 0;
+
+  constructor(buffer: Uint8Array) {
+    this.buffer = buffer;
+  }
+
+  bytes(length: number): Uint8Array {
+    if (this.offset + length > this.buffer.length) {
+      throw new Error("History buffer is truncated");
+    }
+    const slice = this.buffer.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return slice;
+  }
+
+  varint(): number {
+    let value = 0;
+    let scale = 1;
+    for (;;) {
+      const [byte] = this.bytes(1);
+      value += (byte & 0x7f) * scale;
+      if (byte < 0x80) {
+        return value;
+      }
+      scale *= 0x80;
+    }
+  }
+
+  string(): string {
+    return new TextDecoder().decode(this.bytes(this.varint()));
+  }
+}
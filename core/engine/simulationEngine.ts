@@ -0,0 +1,331 @@
+import { GameEnvironment } from "../types";
+import { cloneValue, diffWorld, WorldChange } from "./worldDiff";
+import { WorldStore } from "./worldStore";
+
+export interface ActionInput {
+  type: string;
+  payload?: Record<string, unknown>;
+}
+
+/** An action with the actor that submitted it, stamped by the engine */
+export interface Action extends ActionInput {
+  actorId: string;
+}
+
+export interface ActorContext {
+  /** A copy of the world as loaded at the start of the step */
+  world: GameEnvironment;
+  step: number;
+  time: Date;
+  /** Aborted when the actor runs out of time for this step */
+  signal: AbortSignal;
+}
+
+/**
+ * Anything that takes part in the world. AI agents and human players both
+ * act through this one interface and their actions go through the same
+ * rules, so neither gets special treatment.
+ */
+export interface Actor {
+  id: string;
+  kind: "agent" | "player";
+  act(context: ActorContext): Promise<ActionInput[]>;
+}
+
+export interface RuleContext {
+  /** The live world; systems change it in place */
+  world: GameEnvironment;
+  step: number;
+  time: Date;
+}
+
+export interface TickContext extends RuleContext {
+  /** Index of the tick within the step */
+  tick: number;
+  tickMs: number;
+}
+
+/**
+ * Game rules, registered with the engine. Actions are routed to the system
+ * listing their type; tick runs at the tick rate to advance continuous
+ * state such as movement, and endStep once after the step's last tick.
+ */
+export interface RuleSystem {
+  name: string;
+  actions?: string[];
+  /** Throw ActionRejectedError to refuse an action without failing the step */
+  apply?(action: Action, context: RuleContext): void;
+  tick?(context: TickContext): void;
+  endStep?(context: RuleContext): void;
+}
+
+export interface StepResult {
+  step: number;
+  time: Date;
+  actions: Action[];
+  rejected: { action: Action; reason: string }[];
+  /** Actors that failed or ran out of time; they lose this step's turn */
+  missed: { actorId: string; error: unknown }[];
+  changes: WorldChange[];
+}
+
+export interface SimulationOptions {
+  store: WorldStore;
+  actors?: Actor[];
+  systems?: RuleSystem[];
+  /** Rule ticks per second of game time */
+  tickRate?: number;
+  /** Steps per second of real time when running with start() */
+  stepRate?: number;
+  /** Game time of step 0 */
+  startTime?: Date;
+  /** Time each actor gets to decide per step; a whole step by default */
+  actTimeoutMs?: number;
+  onStep?: (result: StepResult) => void;
+  /** Failed steps while running with start(); the loop carries on */
+  onError?: (error: unknown) => void;
+}
+
+export class ActionRejectedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ActionRejectedError";
+  }
+}
+
+/**
+ * Steps the world forward the way the engine design describes: each step
+ * loads the world from the store, collects actions from every actor at
+ * once, applies them through the rule systems, runs the step's ticks and
+ * saves only the diff. Game time advances by one step length per step
+ * whether run live with start() or headless with runSteps().
+ */
+export class SimulationEngine {
+  private store: WorldStore;
+  private actors = new Map<string, Actor>();
+  private systems: RuleSystem[] = [];
+  private handlers = new Map<string, RuleSystem>();
+  private ticksPerStep: number;
+  private stepMs: number;
+  private startTime: Date;
+  private actTimeoutMs: number;
+  private onStep?: (result: StepResult) => void;
+  private onError?: (error: unknown) => void;
+  private stepIndex = 0;
+  private running = false;
+  private loop?: Promise<void>;
+  private wake?: () => void;
+
+  constructor(options: SimulationOptions) {
+    const tickRate = options.tickRate ?? 60;
+    const stepRate = options.stepRate ?? 1;
+    if (tickRate <= 0 || stepRate <= 0) {
+      throw new Error("tickRate and stepRate must be positive");
+    }
+    this.store = options.store;
+    this.stepMs = 1000 / stepRate;
+    this.ticksPerStep = Math.max(1, Math.round(tickRate / stepRate));
+    this.startTime = options.startTime || new Date();
+    this.actTimeoutMs = options.actTimeoutMs ?? this.stepMs;
+    this.onStep = options.onStep;
+    this.onError = options.onError;
+    options.actors?.forEach((actor) => this.addActor(actor));
+    options.systems?.forEach((system) => this.addSystem(system));
+  }
+
+  /** Steps completed so far */
+  get step(): number {
+    return this.stepIndex;
+  }
+
+  /** Game clock, e.g. for a MemoryStream's `now` */
+  readonly now = (): Date =>
+    new Date(this.startTime.getTime() + this.stepIndex * this.stepMs);
+
+  get isRunning(): boolean {
+    return this.running;
+  }
+
+  addActor(actor: Actor): void {
+    if (this.actors.has(actor.id)) {
+      throw new Error(`Actor ${actor.id} is already in the simulation`);
+    }
+    this.actors.set(actor.id, actor);
+  }
+
+  removeActor(id: string): boolean {
+    return this.actors.delete(id);
+  }
+
+  addSystem(system: RuleSystem): void {
+    for (const type of system.actions || []) {
+      const existing = this.handlers.get(type);
+      if (existing) {
+        throw new Error(
+          `Action ${type} is already handled by ${existing.name}`,
+        );
+      }
+    }
+    this.systems.push(system);
+    for (const type of system.actions || []) {
+      this.handlers.set(type, system);
+    }
+  }
+
+  async runStep(): Promise<StepResult> {
+    const step = this.stepIndex;
+    const time = this.now();
+    const world = await this.store.load();
+    const before = cloneValue(world);
+    const context: RuleContext = { world, step, time };
+
+    const { actions, missed } = await this.collectActions(world, step, time);
+    const rejected: StepResult["rejected"] = [];
+    for (const action of actions) {
+      const system = this.handlers.get(action.type);
+      try {
+        if (!system?.apply) {
+          throw new ActionRejectedError(`Unknown action ${action.type}`);
+        }
+        system.apply(action, context);
+      } catch (error) {
+        if (!(error instanceof ActionRejectedError)) {
+          throw error;
+        }
+        rejected.push({ action, reason: error.message });
+      }
+    }
+
+    const tickMs = this.stepMs / this.ticksPerStep;
+    for (let tick = 0; tick < this.ticksPerStep; tick++) {
+      const tickContext: TickContext = {
+        world,
+        step,
+        time: new Date(time.getTime() + tick * tickMs),
+        tick,
+        tickMs,
+      };
+      this.systems.forEach((system) => system.tick?.(tickContext));
+    }
+    this.systems.forEach((system) => system.endStep?.(context));
+
+    const changes = diffWorld(before, world);
+    await this.store.save(changes, step);
+    this.stepIndex++;
+    const result: StepResult = {
+      step,
+      time,
+      actions: actions.filter(
+        (action) => !rejected.some((entry) => entry.action === action),
+      ),
+      rejected,
+      missed,
+      changes,
+    };
+    this.onStep?.(result);
+    return result;
+  }
+
+  /** Runs steps back to back without waiting on the wall clock */
+  async runSteps(count: number): Promise<StepResult[]> {
+    const results: StepResult[] = [];
+    for (let i = 0; i < count; i++) {
+      results.push(await this.runStep());
+    }
+    return results;
+  }
+
+  /**
+   * Runs a step every 1/stepRate seconds until stop(). A step that takes
+   * longer delays the next one rather than overlapping it.
+   */
+  start(): void {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    this.loop = (async () => {
+      while (this.running) {
+        const startedAt = Date.now();
+        try {
+          await this.runStep();
+        } catch (error) {
+          if (this.onError) {
+            this.onError(error);
+          } else {
+            console.error("Simulation step failed:", error);
+          }
+        }
+        const wait = this.stepMs - (Date.now() - startedAt);
+        if (this.running && wait > 0) {
+          await new Promise<void>((resolve) => {
+            const timer = setTimeout(resolve, wait);
+            this.wake = () => {
+              clearTimeout(timer);
+              resolve();
+            };
+          });
+          this.wake = undefined;
+        }
+      }
+    })();
+  }
+
+  /** Stops the loop once the current step has been saved */
+  async stop(): Promise<void> {
+    this.running = false;
+    this.wake?.();
+    await this.loop;
+    this.loop = undefined;
+  }
+
+  private async collectActions(
+    world: GameEnvironment,
+    step: number,
+    time: Date,
+  ): Promise<Pick<StepResult, "actions" | "missed">> {
+    const actors = [...this.actors.values()];
+    const settled = await Promise.allSettled(
+      actors.map((actor) =>
+        this.actWithTimeout(actor, { world: cloneValue(world), step, time }),
+      ),
+    );
+    const actions: Action[] = [];
+    const missed: StepResult["missed"] = [];
+    // Registration order, so runs with the same inputs apply the same way
+    settled.forEach((outcome, i) => {
+      const actorId = actors[i].id;
+      if (outcome.status === "fulfilled") {
+        actions.push(...outcome.value.map((input) => ({ ...input, actorId })));
+      } else {
+        missed.push({ actorId, error: outcome.reason });
+      }
+    });
+    return { actions, missed };
+  }
+
+  private async actWithTimeout(
+    actor: Actor,
+    context: Omit<ActorContext, "signal">,
+  ): Promise<ActionInput[]> {
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        const error = new Error(
+          `Actor ${actor.id} took longer than ${this.actTimeoutMs}ms`,
+        );
+        controller.abort(error);
+        reject(error);
+      }, this.actTimeoutMs);
+    });
+    try {
+      return await Promise.race([
+        actor.act({ ...context, signal: controller.signal }),
+        timeout,
+      ]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
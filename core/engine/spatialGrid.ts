@@ -0,0 +1,86 @@
+export interface Box {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+/**
+ * Uniform grid hash over axis-aligned boxes. Each item is filed under every
+ * cell its box touches, so items can only be near each other if they share
+ * a cell; pick a cell size around the typical box size.
+ */
+export class SpatialGrid<T> {
+  private cellSize: number;
+  private cells = new Map<string, { item: T; box: Box; index: number }[]>();
+  private count = 0;
+
+  constructor(cellSize: number) {
+    if (cellSize <= 0) {
+      throw new Error("cellSize must be positive");
+    }
+    this.cellSize = cellSize;
+  }
+
+  insert(item: T, box: Box): void {
+    const index = this.count++;
+    for (const key of this.cellsOf(box)) {
+      let cell = this.cells.get(key);
+      if (!cell) {
+        cell = [];
+        this.cells.set(key, cell);
+      }
+      cell.push({ item, box, index });
+    }
+  }
+
+  /** Items whose boxes overlap `box` */
+  query(box: Box): T[] {
+    const found = new Set<T>();
+    for (const key of this.cellsOf(box)) {
+      for (const entry of this.cells.get(key) || []) {
+        if (overlaps(entry.box, box)) {
+          found.add(entry.item);
+        }
+      }
+    }
+    return [...found];
+  }
+
+  /** Every pair of items with overlapping boxes, each pair once */
+  pairs(): [T, T][] {
+    const seen = new Set<string>();
+    const pairs: [T, T][] = [];
+    for (const cell of this.cells.values()) {
+      for (let i = 0; i < cell.length; i++) {
+        for (let j = i + 1; j < cell.length; j++) {
+          const [a, b] = [cell[i], cell[j]].sort((x, y) => x.index - y.index);
+          const key = `${a.index},${b.index}`;
+          if (!seen.has(key) && overlaps(a.box, b.box)) {
+            seen.add(key);
+            pairs.push([a.item, b.item]);
+          }
+        }
+      }
+    }
+    return pairs;
+  }
+
+  private *cellsOf(box: Box): Generator<string> {
+    const minX = Math.floor(box.minX / this.cellSize);
+    const maxX = Math.floor(box.maxX / this.cellSize);
+    const minY = Math.floor(box.minY / this.cellSize);
+    const maxY = Math.floor(box.maxY / this.cellSize);
+    for (let x = minX; x <= maxX; x++) {
+      for (let y = minY; y <= maxY; y++) {
+        yield `${x},${y}`;
+      }
+    }
+  }
+}
+
+function overlaps(a: Box, b: Box): boolean {
+  return (
+    a.minX <= b.maxX && b.minX <= a.maxX && a.minY <= b.maxY && b.minY <= a.maxY
+  );
+}
@@ -0,0 +1,93 @@
+/** One changed value; `path` runs from the root of the diffed object */
+export interface WorldChange {
+  path: string[];
+  kind: "set" | "delete";
+  value?: unknown;
+}
+
+/**
+ * Changes that turn `before` into `after`, for plain JSON-like data.
+ * Objects are compared key by key; arrays and other values are replaced
+ * whole when they differ, which keeps diffs of position lists small enough
+ * while staying simple to apply.
+ */
+export function diffWorld(
+  before: unknown,
+  after: unknown,
+  path: string[] = [],
+): WorldChange[] {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const changes: WorldChange[] = [];
+    for (const key of Object.keys(before)) {
+      if (!(key in after)) {
+        changes.push({ path: [...path, key], kind: "delete" });
+      }
+    }
+    for (const [key, value] of Object.entries(after)) {
+      changes.push(...diffWorld(before[key], value, [...path, key]));
+    }
+    return changes;
+  }
+  if (deepEqual(before, after)) {
+    return [];
+  }
+  return [{ path, kind: "set", value: cloneValue(after) }];
+}
+
+/** Applies changes in place; a change with an empty path replaces nothing */
+export function applyWorldDiff(
+  target: Record<string, unknown>,
+  changes: WorldChange[],
+): void {
+  for (const change of changes) {
+    if (!change.path.length) {
+      continue;
+    }
+    let node = target;
+    for (const key of change.path.slice(0, -1)) {
+      if (!isPlainObject(node[key])) {
+        node[key] = {};
+      }
+      node = node[key] as Record<string, unknown>;
+    }
+    const last = change.path[change.path.length - 1];
+    if (change.kind === "delete") {
+      delete node[last];
+    } else {
+      node[last] = cloneValue(change.value);
+    }
+  }
+}
+
+export function cloneValue<T>(value: T): T {
+  return value === undefined ? value : structuredClone(value);
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => deepEqual(item, b[i]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) => key in b && deepEqual(a[key], b[key]))
+    );
+  }
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() === b.getTime();
+  }
+  return false;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !(value instanceof Date)
+  );
+}
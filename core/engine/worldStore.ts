@@ -0,0 +1,85 @@
+import fs from "fs";
+import path from "path";
+import { GameEnvironment } from "../types";
+import { applyWorldDiff, cloneValue, WorldChange } from "./worldDiff";
+
+/**
+ * Where the engine loads the world from at the start of each step and
+ * saves the step's changes to. Implementations only ever see diffs, so a
+ * database-backed store can write just the changed fields.
+ */
+export interface WorldStore {
+  load(): Promise<GameEnvironment>;
+  save(changes: WorldChange[], step: number): Promise<void>;
+}
+
+export function emptyEnvironment(): GameEnvironment {
+  return {
+    player: { health: 100, status: {} },
+    world: { state: {}, entities: {} },
+  };
+}
+
+/** Keeps the world in memory; for headless runs and tests */
+export class MemoryWorldStore implements WorldStore {
+  private world: GameEnvironment;
+  /** Changes saved by each step, oldest first */
+  readonly log: { step: number; changes: WorldChange[] }[] = [];
+
+  constructor(initial: GameEnvironment = emptyEnvironment()) {
+    this.world = cloneValue(initial);
+  }
+
+  /** The stored world; a copy, so callers cannot bypass the engine */
+  snapshot(): GameEnvironment {
+    return cloneValue(this.world);
+  }
+
+  async load(): Promise<GameEnvironment> {
+    return this.snapshot();
+  }
+
+  async save(changes: WorldChange[], step: number): Promise<void> {
+    applyWorldDiff(this.world as unknown as Record<string, unknown>, changes);
+    this.log.push({ step, changes });
+  }
+}
+
+/**
+ * The world as a JSON snapshot plus a JSON-lines log of every step's diff
+ * next to it, so a run can be resumed or replayed step by step.
+ */
+export class FileWorldStore implements WorldStore {
+  private filePath: string;
+  private logPath: string;
+  private world?: GameEnvironment;
+
+  constructor(filePath: string, initial: GameEnvironment = emptyEnvironment()) {
+    this.filePath = filePath;
+    this.logPath = `${filePath}.log.jsonl`;
+    if (!fs.existsSync(filePath)) {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, JSON.stringify(initial, null, 2));
+    }
+  }
+
+  async load(): Promise<GameEnvironment> {
+    this.world ??= JSON.parse(
+      fs.readFileSync(this.filePath, "utf8"),
+    ) as GameEnvironment;
+    return cloneValue(this.world);
+  }
+
+  async save(changes: WorldChange[], step: number): Promise<void> {
+    if (!changes.length) {
+      return;
+    }
+    const world = await this.load();
+    applyWorldDiff(world as unknown as Record<string, unknown>, changes);
+    fs.appendFileSync(this.logPath, `${JSON.stringify({ step, changes })}\n`);
+    const temporary = `${this.filePath}.tmp`;
+    fs.writeFileSync(temporary, JSON.stringify(world, null, 2));
+    fs.renameSync(temporary, this.filePath);
+    this.world = world;
+  }
+}
@@ -0,0 +1,88 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { MockEmbeddingAgent } from "../../agent/embedding_agents";
+import { MockAgent } from "../../agent/mock_agent";
+import { MemoryStream } from "../memoryStream";
+import { ReflectionJob } from "../reflection";
+
+const START = new Date("2026-01-01T08:00:00Z");
+const MINUTE = 60_000;
+
+describe("ReflectionJob", () => {
+  let directory: string;
+  let clock: Date;
+  let calls: number;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "reflection-"));
+    clock = START;
+    calls = 0;
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  function stream(): MemoryStream {
+    return new MemoryStream({
+      agentId: "mira",
+      embedder: new MockEmbeddingAgent(),
+      directory,
+      now: () => clock,
+    });
+  }
+
+  // A model that asks one question and never finds an insight
+  function job(memory: MemoryStream, minIntervalMs = 0): ReflectionJob {
+    const agent = new MockAgent(
+      {
+        modelName: "mock",
+        temperature: 0,
+        maxTokens: 256,
+        apiKey: "",
+        onUsage: () => calls++,
+      },
+      {
+        rules: [
+          { match: "salient", reply: '{"questions": ["Who visited?"]}' },
+          { match: "insights", reply: '{"insights": []}' },
+        ],
+      },
+    );
+    return new ReflectionJob({ agent, memory, minIntervalMs });
+  }
+
+  it("remembers a window that gave no insights", async () => {
+    const memory = stream();
+    await memory.add("A bard took the last room", { importance: 6 });
+
+    const first = await job(memory).reflect();
+    expect(first).toMatchObject({ reflections: [], calls: 2 });
+    expect(calls).toBe(2);
+
+    // A fresh stream reads the marker back from disk
+    const again = await job(stream()).reflect();
+    expect(again).toMatchObject({
+      key: first.key,
+      reflections: [],
+      skipped: "duplicate",
+      calls: 0,
+    });
+    expect(calls).toBe(2);
+  });
+
+  it("spaces runs from the last run, not the latest reflection", async () => {
+    const memory = stream();
+    const reflection = job(memory, 30 * MINUTE);
+    await memory.add("A bard took the last room");
+    await reflection.onConversationEnd();
+
+    clock = new Date(START.getTime() + 10 * MINUTE);
+    await memory.add("The bard sang all night");
+    expect(await reflection.onConversationEnd()).toBeUndefined();
+
+    clock = new Date(START.getTime() + 30 * MINUTE);
+    expect(await reflection.onConversationEnd()).toMatchObject({ calls: 2 });
+  });
+});
@@ -1,11 +1,31 @@
-import { LettaClient, LettaEnvironment } from "@letta-ai/letta-client";
+import { ModelConfig } from "../agent/base_agent";
+import { LettaAgent, LettaAgentOptions } from "../agent/letta_agent";
+import { CharacterSheet } from "../persona/characterSheet";
+import {
+  compilePersonaPrompt,
+  PersonaPromptOptions,
+} from "../persona/personaPrompt";
 
-// connect to a local server
-export const localLettaClient = new LettaClient({
-  environment: LettaEnvironment.SelfHosted,
-});
+export interface CharacterLettaOptions
+  extends PersonaPromptOptions,
+    Omit<LettaAgentOptions, "agentName" | "persona"> {}
 
-// connect to Letta Cloud
-export const cloudLettaClient = new LettaClient({
-  token: "LETTA_API_KEY",
-});
+/**
+ * The Letta agent for one monster, named after its character sheet id so
+ * every run attaches to the same server-side agent and its memory. The
+ * persona block is the compiled character prompt and is rewritten whenever
+ * the sheet or world changes. `config` is resolved like any other agent
+ * config, e.g. `providerRegistry.resolve({ provider: "letta", ... })`.
+ */
+export function lettaAgentForCharacter(
+  sheet: CharacterSheet,
+  config: ModelConfig,
+  options: CharacterLettaOptions = {},
+): LettaAgent {
+  const { world, vars, characters, template, ...letta } = options;
+  return new LettaAgent(config, {
+    ...letta,
+    agentName: sheet.id,
+    persona: compilePersonaPrompt(sheet, { world, vars, characters, template }),
+  });
+}
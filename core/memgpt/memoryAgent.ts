@@ -0,0 +1,230 @@
+import {
+  BaseAgent,
+  ChatMessage,
+  ChatOptions,
+  ModelConfig,
+  ToolChatResponse,
+  ToolDefinition,
+} from "../agent/base_agent";
+import { messageText } from "../agent/content_parts";
+import { JsonSchema } from "../agent/json_schema";
+import { formatMemories, MemoryKind, MemoryStream } from "./memoryStream";
+import { ReflectionJob, ReflectionResult } from "./reflection";
+
+export interface MemoryAgentOptions {
+  /** Memories added to each prompt */
+  limit?: number;
+  kinds?: MemoryKind[];
+  /** Store each exchange as a conversation memory once it completes */
+  recordConversations?: boolean;
+  /** Retrieval query for a request; the latest user message by default */
+  query?: (messages: ChatMessage[]) => string;
+  /** Name of the other party in recorded conversations */
+  speaker?: string;
+  /** Checked after every recorded exchange and run at conversation end */
+  reflection?: ReflectionJob;
+  /**
+   * Failures recording an exchange, which happens after the reply is
+   * returned; without it they are rethrown by the next `flush()`
+   */
+  onError?: (error: unknown) => void;
+}
+
+const MEMORY_PREFIX = "Relevant memories, most relevant first:\n";
+
+/**
+ * Gives an agent long-term memory: before every call the most relevant
+ * memories for the latest user message are retrieved from the stream and
+ * added as a system message after the persona, and completed exchanges
+ * are written back as conversation memories in the background.
+ */
+export class MemoryAugmentedAgent implements BaseAgent {
+  modelName: string;
+  temperature: number;
+  maxTokens: number;
+  chatWithTools?: (
+    messages: ChatMessage[],
+    tools: ToolDefinition[],
+    options?: ChatOptions,
+  ) => Promise<ToolChatResponse>;
+  chatJson?: (
+    messages: ChatMessage[],
+    schema: JsonSchema,
+    options?: ChatOptions,
+  ) => Promise<string>;
+
+  readonly memory: MemoryStream;
+  private agent: BaseAgent;
+  private limit: number;
+  private kinds?: MemoryKind[];
+  private recordConversations: boolean;
+  private query: (messages: ChatMessage[]) => string;
+  private speaker: string;
+  private reflection?: ReflectionJob;
+  private onError?: (error: unknown) => void;
+  private pending: Promise<void> = Promise.resolve();
+  private failure?: { error: unknown };
+
+  constructor(
+    agent: BaseAgent,
+    memory: MemoryStream,
+    options: MemoryAgentOptions = {},
+  ) {
+    this.agent = agent;
+    this.memory = memory;
+    this.limit = options.limit ?? 5;
+    this.kinds = options.kinds;
+    this.recordConversations = options.recordConversations ?? true;
+    this.query = options.query || lastUserText;
+    this.speaker = options.speaker || "User";
+    this.reflection = options.reflection;
+    this.onError = options.onError;
+    this.modelName = agent.modelName;
+    this.temperature = agent.temperature;
+    this.maxTokens = agent.maxTokens;
+
+    const { chatWithTools, chatJson } = agent;
+    if (chatWithTools) {
+      this.chatWithTools = async (messages, tools, options) => {
+        const recalled = await this.recall(messages, options);
+        const response = await chatWithTools.call(
+          agent,
+          recalled,
+          tools,
+          options,
+        );
+        if (response.content) {
+          this.remember(messages, response.content, options);
+        }
+        return response;
+      };
+    }
+    if (chatJson) {
+      this.chatJson = async (messages, schema, options) => {
+        const recalled = await this.recall(messages, options);
+        return chatJson.call(agent, recalled, schema, options);
+      };
+    }
+  }
+
+  async chat(messages: ChatMessage[], options?: ChatOptions): Promise<string> {
+    const recalled = await this.recall(messages, options);
+    const reply = await this.agent.chat(recalled, options);
+    this.remember(messages, reply, options);
+    return reply;
+  }
+
+  async *stream(
+    messages: ChatMessage[],
+    options?: ChatOptions,
+  ): AsyncGenerator<string> {
+    const recalled = await this.recall(messages, options);
+    let reply = "";
+    for await (const chunk of this.agent.stream(recalled, options)) {
+      reply += chunk;
+      yield chunk;
+    }
+    this.remember(messages, reply, options);
+  }
+
+  getModelConfig(): ModelConfig {
+    return this.agent.getModelConfig();
+  }
+
+  /** Marks the end of a conversation, giving the reflection job its turn */
+  async endConversation(
+    options?: ChatOptions,
+  ): Promise<ReflectionResult | undefined> {
+    await this.flush();
+    return this.reflection?.onConversationEnd(options);
+  }
+
+  /** Waits for exchanges still being recorded */
+  async flush(): Promise<void> {
+    await this.pending;
+    const failure = this.failure;
+    this.failure = undefined;
+    if (failure) {
+      throw failure.error;
+    }
+  }
+
+  /** `messages` with the retrieved memories inserted after the system prompt */
+  async recall(
+    messages: ChatMessage[],
+    options?: ChatOptions,
+  ): Promise<ChatMessage[]> {
+    const query = this.query(messages);
+    if (!query) {
+      return messages;
+    }
+    const scored = await this.memory.retrieve(query, {
+      limit: this.limit,
+      kinds: this.kinds,
+      signal: options?.signal,
+      timeoutMs: options?.timeoutMs,
+    });
+    if (!scored.length) {
+      return messages;
+    }
+    const leadingSystem = messages.findIndex(
+      (message) => message.role !== "system",
+    );
+    const at = leadingSystem < 0 ? messages.length : leadingSystem;
+    return [
+      ...messages.slice(0, at),
+      {
+        role: "system",
+        content:
+          MEMORY_PREFIX +
+          formatMemories(
+            scored.map(({ memory }) => memory),
+            this.memory.now(),
+          ),
+      },
+      ...messages.slice(at),
+    ];
+  }
+
+  /** Queued behind earlier exchanges, so memories keep their order */
+  private remember(
+    messages: ChatMessage[],
+    reply: string,
+    options?: ChatOptions,
+  ): void {
+    const said = lastUserText(messages);
+    if (!this.recordConversations || !said) {
+      return;
+    }
+    this.pending = this.pending
+      .then(() => this.record(said, reply, options))
+      .catch((error) => {
+        if (this.onError) {
+          this.onError(error);
+        } else {
+          this.failure ??= { error };
+        }
+      });
+  }
+
+  private async record(
+    said: string,
+    reply: string,
+    options?: ChatOptions,
+  ): Promise<void> {
+    await this.memory.add(
+      `${this.speaker} said: "${said}". I replied: "${reply}"`,
+      {
+        kind: "conversation",
+        signal: options?.signal,
+        timeoutMs: options?.timeoutMs,
+      },
+    );
+    await this.reflection?.maybeReflect(options);
+  }
+}
+
+function lastUserText(messages: ChatMessage[]): string {
+  const lastUser = [...messages].reverse().find((m) => m.role === "user");
+  return lastUser ? messageText(lastUser.content) : "";
+}
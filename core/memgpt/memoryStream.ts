@@ -0,0 +1,365 @@
+import crypto from "crypto";
+import path from "path";
+import { BaseAgent, ChatOptions } from "../agent/base_agent";
+import { cosineSimilarity, EmbeddingAgent } from "../agent/embeddings";
+import { chatStructured } from "../agent/structured_output";
+import { LocalVectorIndex } from "./vectorIndex";
+
+export type MemoryKind = "observation" | "conversation" | "reflection";
+
+export interface MemoryEntry {
+  id: string;
+  kind: MemoryKind;
+  content: string;
+  /** From 1 (mundane, e.g. brushing teeth) to 10 (life-changing) */
+  importance: number;
+  createdAt: Date;
+  /** Recency decays from here, so recalled memories stay fresh */
+  lastAccessedAt: Date;
+  /** Memories a reflection was drawn from */
+  sources?: string[];
+  /** Identifies the job run that wrote the memory, so re-runs can skip it */
+  key?: string;
+  /** Keys of job runs that read this memory and wrote nothing */
+  emptyRuns?: string[];
+}
+
+export interface ScoredMemory {
+  memory: MemoryEntry;
+  score: number;
+  recency: number;
+  importance: number;
+  relevance: number;
+}
+
+export interface RetrievalWeights {
+  recency: number;
+  importance: number;
+  relevance: number;
+}
+
+export type ImportanceScorer = (
+  content: string,
+  kind: MemoryKind,
+) => Promise<number>;
+
+export interface MemoryStreamOptions {
+  agentId: string;
+  embedder: EmbeddingAgent;
+  /** Directory with one index file per agent; memory only when omitted */
+  directory?: string;
+  /** Rates memories added without an importance; see llmImportanceScorer */
+  scoreImportance?: ImportanceScorer;
+  weights?: Partial<RetrievalWeights>;
+  /** Recency multiplier per hour since a memory was last accessed */
+  decayPerHour?: number;
+  /** Game clock; the wall clock by default */
+  now?: () => Date;
+}
+
+export interface AddMemoryOptions extends ChatOptions {
+  kind?: MemoryKind;
+  importance?: number;
+  createdAt?: Date;
+  sources?: string[];
+  key?: string;
+}
+
+export interface RetrieveOptions extends ChatOptions {
+  limit?: number;
+  kinds?: MemoryKind[];
+  /** Ignore memories created after this time */
+  until?: Date;
+}
+
+interface StoredMemory {
+  kind: MemoryKind;
+  content: string;
+  importance: number;
+  createdAt: string;
+  lastAccessedAt: string;
+  sources?: string[];
+  key?: string;
+  emptyRuns?: string[];
+}
+
+const DEFAULT_IMPORTANCE = 5;
+const DEFAULT_DECAY_PER_HOUR = 0.995;
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * One agent's long-term memory in the style of generative agents: a time
+ * ordered record of what it observed, said and concluded. Retrieval ranks
+ * entries by recency, importance and relevance to the query, each scaled
+ * to 0..1 across the candidates and combined with the configured weights.
+ */
+export class MemoryStream {
+  readonly agentId: string;
+  private embedder: EmbeddingAgent;
+  private index: LocalVectorIndex<StoredMemory>;
+  private scoreImportance?: ImportanceScorer;
+  private weights: RetrievalWeights;
+  private decayPerHour: number;
+  /** The clock ages and recency are measured against */
+  readonly now: () => Date;
+
+  constructor(options: MemoryStreamOptions) {
+    this.agentId = options.agentId;
+    this.embedder = options.embedder;
+    this.index = new LocalVectorIndex(
+      options.directory
+        ? path.join(options.directory, `${options.agentId}.jsonl`)
+        : undefined,
+    );
+    this.scoreImportance = options.scoreImportance;
+    this.weights = {
+      recency: 1,
+      importance: 1,
+      relevance: 1,
+      ...options.weights,
+    };
+    this.decayPerHour = options.decayPerHour ?? DEFAULT_DECAY_PER_HOUR;
+    this.now = options.now || (() => new Date());
+  }
+
+  get size(): number {
+    return this.index.size;
+  }
+
+  async add(
+    content: string,
+    options: AddMemoryOptions = {},
+  ): Promise<MemoryEntry> {
+    const kind = options.kind || "observation";
+    const importance = clampImportance(
+      options.importance ??
+        (this.scoreImportance
+          ? await this.scoreImportance(content, kind)
+          : DEFAULT_IMPORTANCE),
+    );
+    const {
+      vectors: [vector],
+    } = await this.embedder.embed([content], {
+      inputType: "document",
+      signal: options.signal,
+      timeoutMs: options.timeoutMs,
+    });
+    const createdAt = options.createdAt || this.now();
+    const memory: MemoryEntry = {
+      id: crypto.randomUUID(),
+      kind,
+      content,
+      importance,
+      createdAt,
+      lastAccessedAt: createdAt,
+      sources: options.sources,
+      key: options.key,
+    };
+    this.index.upsert({ id: memory.id, vector, data: toStored(memory) });
+    return memory;
+  }
+
+  get(id: string): MemoryEntry | undefined {
+    const record = this.index.get(id);
+    return record && fromStored(record.id, record.data);
+  }
+
+  /** Every memory, oldest first */
+  all(): MemoryEntry[] {
+    return this.index
+      .values()
+      .map((record) => fromStored(record.id, record.data))
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  /** Memories written under an idempotency key, oldest first */
+  withKey(key: string): MemoryEntry[] {
+    return this.all().filter((memory) => memory.key === key);
+  }
+
+  /** Whether a job run under `key` wrote memories or recorded an empty run */
+  hasKey(key: string): boolean {
+    return this.all().some(
+      (memory) => memory.key === key || memory.emptyRuns?.includes(key),
+    );
+  }
+
+  /**
+   * Records that a run under `key` read memory `id` and wrote nothing, so
+   * hasKey still finds the run. Returns false for an unknown memory.
+   */
+  recordEmptyRun(id: string, key: string): boolean {
+    const record = this.index.get(id);
+    if (!record) {
+      return false;
+    }
+    const emptyRuns = record.data.emptyRuns || [];
+    return (
+      emptyRuns.includes(key) ||
+      this.index.patch(id, { emptyRuns: [...emptyRuns, key] })
+    );
+  }
+
+  /** The latest `count` memories, oldest first */
+  recent(count: number): MemoryEntry[] {
+    return this.all().slice(-count);
+  }
+
+  /** Best matches for `query`; marks them accessed, refreshing their recency */
+  async retrieve(
+    query: string,
+    options: RetrieveOptions = {},
+  ): Promise<ScoredMemory[]> {
+    const candidates = this.index
+      .values()
+      .filter(
+        (record) =>
+          (!options.kinds || options.kinds.includes(record.data.kind)) &&
+          (!options.until || new Date(record.data.createdAt) <= options.until),
+      );
+    if (!candidates.length) {
+      return [];
+    }
+    const {
+      vectors: [queryVector],
+    } = await this.embedder.embed([query], {
+      inputType: "query",
+      signal: options.signal,
+      timeoutMs: options.timeoutMs,
+    });
+
+    const now = this.now();
+    const memories = candidates.map((record) =>
+      fromStored(record.id, record.data),
+    );
+    const raw = candidates.map((record, i) => ({
+      recency: Math.pow(
+        this.decayPerHour,
+        Math.max(0, now.getTime() - memories[i].lastAccessedAt.getTime()) /
+          HOUR_MS,
+      ),
+      importance: memories[i].importance / 10,
+      relevance: cosineSimilarity(queryVector, record.vector),
+    }));
+    const recency = scaleToUnit(raw.map((scores) => scores.recency));
+    const importance = scaleToUnit(raw.map((scores) => scores.importance));
+    const relevanceScores = scaleToUnit(raw.map((scores) => scores.relevance));
+
+    const ranked = memories
+      .map((memory, i) => ({
+        memory,
+        recency: recency[i],
+        importance: importance[i],
+        relevance: relevanceScores[i],
+        score:
+          this.weights.recency * recency[i] +
+          this.weights.importance * importance[i] +
+          this.weights.relevance * relevanceScores[i],
+      }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, options.limit ?? 5);
+
+    for (const { memory } of ranked) {
+      memory.lastAccessedAt = now;
+      this.index.patch(memory.id, { lastAccessedAt: now.toISOString() });
+    }
+    return ranked;
+  }
+
+  delete(id: string): boolean {
+    return this.index.delete(id);
+  }
+}
+
+/**
+ * Rates importance with a model, using the generative agents prompt.
+ * A cheap model is enough; it runs once per stored memory.
+ */
+export function llmImportanceScorer(
+  agent: BaseAgent,
+  options?: ChatOptions,
+): ImportanceScorer {
+  return async (content) => {
+    const { rating } = await chatStructured<{ rating: number }>(
+      agent,
+      [
+        {
+          role: "user",
+          content: `On the scale of 1 to 10, where 1 is purely mundane (e.g., brushing teeth, making bed) and 10 is extremely poignant (e.g., a break up, college acceptance), rate the likely poignancy of the following piece of memory.\nMemory: ${content}`,
+        },
+      ],
+      {
+        type: "object",
+        required: ["rating"],
+        properties: { rating: { type: "integer" } },
+      },
+      options,
+    );
+    return rating;
+  };
+}
+
+/** Memories as prompt lines, with their age relative to `now` */
+export function formatMemories(
+  memories: MemoryEntry[],
+  now: Date = new Date(),
+): string {
+  return memories
+    .map(
+      (memory) =>
+        `- (${describeAge(now.getTime() - memory.createdAt.getTime())}) ${memory.content}`,
+    )
+    .join("\n");
+}
+
+function describeAge(ms: number): string {
+  const minutes = Math.floor(ms / 60_000);
+  if (minutes < 1) {
+    return "just now";
+  }
+  if (minutes < 60) {
+    return `${minutes} minute${minutes === 1 ? "" : "s"} ago`;
+  }
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) {
+    return `${hours} hour${hours === 1 ? "" : "s"} ago`;
+  }
+  const days = Math.floor(hours / 24);
+  return `${days} day${days === 1 ? "" : "s"} ago`;
+}
+
+/** Min-max scaling; a set with no spread keeps its raw values */
+function scaleToUnit(values: number[]): number[] {
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  if (max === min) {
+    return values;
+  }
+  return values.map((value) => (value - min) / (max - min));
+}
+
+function clampImportance(importance: number): number {
+  return Math.min(10, Math.max(1, Math.round(importance)));
+}
+
+function toStored(memory: MemoryEntry): StoredMemory {
+  return {
+    kind: memory.kind,
+    content: memory.content,
+    importance: memory.importance,
+    createdAt: memory.createdAt.toISOString(),
+    lastAccessedAt: memory.lastAccessedAt.toISOString(),
+    sources: memory.sources,
+    key: memory.key,
+    emptyRuns: memory.emptyRuns,
+  };
+}
+
+function fromStored(id: string, stored: StoredMemory): MemoryEntry {
+  return {
+    id,
+    ...stored,
+    createdAt: new Date(stored.createdAt),
+    lastAccessedAt: new Date(stored.lastAccessedAt),
+  };
+}
@@ -0,0 +1,326 @@
+import crypto from "crypto";
+import { BaseAgent, ChatOptions } from "../agent/base_agent";
+import { chatStructured } from "../agent/structured_output";
+import { MemoryEntry, MemoryStream } from "./memoryStream";
+
+export interface ReflectionOptions {
+  /** Writes the questions and insights; usually the agent's own model */
+  agent: BaseAgent;
+  memory: MemoryStream;
+  /** Importance of new memories that triggers a reflection */
+  importanceThreshold?: number;
+  /**
+   * Least game time between two runs, in milliseconds, counted from this
+   * job's last run, or from the latest reflection's date after a restart
+   */
+  minIntervalMs?: number;
+  /** Memories read when choosing what to reflect on */
+  recentLimit?: number;
+  questions?: number;
+  insightsPerQuestion?: number;
+  /** Memories retrieved as evidence for each question */
+  evidenceLimit?: number;
+  /**
+   * Model calls allowed per run, one for the questions and one per
+   * question. Money budgets belong on the agent, e.g. a BudgetedAgent.
+   */
+  maxCallsPerRun?: number;
+  /** Runs allowed in any 24 hours of game time */
+  maxRunsPerDay?: number;
+  onReflect?: (result: ReflectionResult) => void;
+}
+
+export interface ReflectionWindow {
+  from?: Date;
+  to?: Date;
+}
+
+export interface ReflectionResult {
+  /** Derived from the memories reflected on; equal inputs give equal keys */
+  key: string;
+  reflections: MemoryEntry[];
+  /**
+   * Why no new reflections were written, if none were. A window that gave
+   * no insights reads as "duplicate" when run again.
+   */
+  skipped?: "empty" | "duplicate" | "cap";
+  calls: number;
+}
+
+interface Insight {
+  insight: string;
+  sources: number[];
+  importance: number;
+}
+
+const DEFAULT_IMPORTANCE_THRESHOLD = 150;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Turns an agent's recent memories into higher-level insights, as in
+ * generative agents: the model picks the salient questions, answers each
+ * from retrieved evidence and cites the memories it used. Insights are
+ * stored as reflection memories keyed by the memories they came from, so
+ * running the same window again returns the stored ones, or none if it
+ * gave none, instead of calling the model. The model rates each insight's importance while
+ * writing it, so storing insights never costs extra scoring calls.
+ */
+export class ReflectionJob {
+  private agent: BaseAgent;
+  private memory: MemoryStream;
+  private importanceThreshold: number;
+  private minIntervalMs: number;
+  private recentLimit: number;
+  private questions: number;
+  private insightsPerQuestion: number;
+  private evidenceLimit: number;
+  private maxCallsPerRun: number;
+  private maxRunsPerDay: number;
+  private onReflect?: (result: ReflectionResult) => void;
+  // Game times of the runs that called the model
+  private runs: number[] = [];
+  private lastRunAt?: number;
+
+  constructor(options: ReflectionOptions) {
+    this.agent = options.agent;
+    this.memory = options.memory;
+    this.importanceThreshold =
+      options.importanceThreshold ?? DEFAULT_IMPORTANCE_THRESHOLD;
+    this.minIntervalMs = options.minIntervalMs ?? 0;
+    this.recentLimit = options.recentLimit ?? 100;
+    this.questions = options.questions ?? 3;
+    this.insightsPerQuestion = options.insightsPerQuestion ?? 5;
+    this.evidenceLimit = options.evidenceLimit ?? 10;
+    this.maxCallsPerRun = options.maxCallsPerRun ?? this.questions + 1;
+    this.maxRunsPerDay = options.maxRunsPerDay ?? Infinity;
+    this.onReflect = options.onReflect;
+  }
+
+  /** Summed importance of what happened since the latest reflection */
+  importanceSinceLastReflection(): number {
+    return this.sinceLastReflection().reduce(
+      (sum, memory) => sum + memory.importance,
+      0,
+    );
+  }
+
+  shouldReflect(): boolean {
+    return (
+      this.importanceSinceLastReflection() >= this.importanceThreshold &&
+      this.cadenceAllows()
+    );
+  }
+
+  /** Reflects if enough has happened; call after adding memories */
+  async maybeReflect(
+    options?: ChatOptions,
+  ): Promise<ReflectionResult | undefined> {
+    if (!this.shouldReflect()) {
+      return undefined;
+    }
+    return this.reflect(this.pendingWindow(), options);
+  }
+
+  /** Reflects on the conversation just finished, whatever its importance */
+  async onConversationEnd(
+    options?: ChatOptions,
+  ): Promise<ReflectionResult | undefined> {
+    if (!this.sinceLastReflection().length || !this.cadenceAllows()) {
+      return undefined;
+    }
+    return this.reflect(this.pendingWindow(), options);
+  }
+
+  /**
+   * Reflects on the memories created inside `window`, e.g. one game day.
+   * Safe to repeat: a window whose memories were already reflected on
+   * returns the existing reflections.
+   */
+  async reflect(
+    window: ReflectionWindow = {},
+    options?: ChatOptions,
+  ): Promise<ReflectionResult> {
+    const recent = this.memory
+      .all()
+      .filter(
+        (memory) =>
+          memory.kind !== "reflection" &&
+          (!window.from || memory.createdAt >= window.from) &&
+          (!window.to || memory.createdAt <= window.to),
+      )
+      .slice(-this.recentLimit);
+    const key = reflectionKey(
+      this.memory.agentId,
+      recent.map((memory) => memory.id),
+    );
+    if (!recent.length) {
+      return { key, reflections: [], skipped: "empty", calls: 0 };
+    }
+    if (this.memory.hasKey(key)) {
+      return {
+        key,
+        reflections: this.memory.withKey(key),
+        skipped: "duplicate",
+        calls: 0,
+      };
+    }
+    const now = this.memory.now().getTime();
+    this.runs = this.runs.filter((time) => now - time < DAY_MS);
+    if (this.runs.length >= this.maxRunsPerDay || this.maxCallsPerRun < 2) {
+      return { key, reflections: [], skipped: "cap", calls: 0 };
+    }
+    this.runs.push(now);
+    this.lastRunAt = now;
+
+    const asOf = recent[recent.length - 1].createdAt;
+    const questions = (await this.askQuestions(recent, options)).slice(
+      0,
+      this.maxCallsPerRun - 1,
+    );
+    const reflections: MemoryEntry[] = [];
+    for (const question of questions) {
+      const evidence = await this.memory.retrieve(question, {
+        limit: this.evidenceLimit,
+        until: asOf,
+        signal: options?.signal,
+        timeoutMs: options?.timeoutMs,
+      });
+      const statements = evidence.map(({ memory }) => memory);
+      for (const insight of await this.askInsights(statements, options)) {
+        const sources = insight.sources
+          .map((number) => statements[number - 1]?.id)
+          .filter((id): id is string => !!id);
+        reflections.push(
+          await this.memory.add(insight.insight, {
+            kind: "reflection",
+            importance: insight.importance,
+            sources,
+            key,
+            // Dated by its inputs, so re-running an old day files it there
+            createdAt: asOf,
+            signal: options?.signal,
+            timeoutMs: options?.timeoutMs,
+          }),
+        );
+      }
+    }
+
+    if (!reflections.length) {
+      this.memory.recordEmptyRun(recent[recent.length - 1].id, key);
+    }
+
+    const result: ReflectionResult = {
+      key,
+      reflections,
+      calls: 1 + questions.length,
+    };
+    this.onReflect?.(result);
+    return result;
+  }
+
+  private async askQuestions(
+    memories: MemoryEntry[],
+    options?: ChatOptions,
+  ): Promise<string[]> {
+    const { questions } = await chatStructured<{ questions: string[] }>(
+      this.agent,
+      [
+        {
+          role: "user",
+          content: `${memories.map((memory) => memory.content).join("\n")}\n\nGiven only the information above, what are the ${this.questions} most salient high-level questions we can answer about the subjects in the statements?`,
+        },
+      ],
+      {
+        type: "object",
+        required: ["questions"],
+        properties: {
+          questions: { type: "array", items: { type: "string" } },
+        },
+      },
+      options,
+    );
+    return questions.slice(0, this.questions);
+  }
+
+  private async askInsights(
+    statements: MemoryEntry[],
+    options?: ChatOptions,
+  ): Promise<Insight[]> {
+    if (!statements.length) {
+      return [];
+    }
+    const numbered = statements
+      .map((memory, i) => `${i + 1}. ${memory.content}`)
+      .join("\n");
+    const { insights } = await chatStructured<{ insights: Insight[] }>(
+      this.agent,
+      [
+        {
+          role: "user",
+          content: `Statements:\n${numbered}\n\nWhat ${this.insightsPerQuestion} high-level insights can you infer from the above statements? Cite each insight's statements by number in "sources", and rate its importance in "importance" on the scale of 1 (purely mundane) to 10 (extremely poignant).`,
+        },
+      ],
+      {
+        type: "object",
+        required: ["insights"],
+        properties: {
+          insights: {
+            type: "array",
+            items: {
+              type: "object",
+              required: ["insight", "sources", "importance"],
+              properties: {
+                insight: { type: "string" },
+                sources: { type: "array", items: { type: "integer" } },
+                importance: { type: "integer" },
+              },
+            },
+          },
+        },
+      },
+      options,
+    );
+    return insights.slice(0, this.insightsPerQuestion);
+  }
+
+  private latestReflection(): MemoryEntry | undefined {
+    return this.memory
+      .all()
+      .filter((memory) => memory.kind === "reflection")
+      .pop();
+  }
+
+  private sinceLastReflection(): MemoryEntry[] {
+    const latest = this.latestReflection();
+    return this.memory
+      .all()
+      .filter(
+        (memory) =>
+          memory.kind !== "reflection" &&
+          (!latest || memory.createdAt > latest.createdAt),
+      );
+  }
+
+  private pendingWindow(): ReflectionWindow {
+    const latest = this.latestReflection();
+    // Windows include both ends; the latest reflection's own end is done
+    return latest ? { from: new Date(latest.createdAt.getTime() + 1) } : {};
+  }
+
+  private cadenceAllows(): boolean {
+    const lastRun =
+      this.lastRunAt ?? this.latestReflection()?.createdAt.getTime();
+    return (
+      lastRun === undefined ||
+      this.memory.now().getTime() - lastRun >= this.minIntervalMs
+    );
+  }
+}
+
+function reflectionKey(agentId: string, memoryIds: string[]): string {
+  return crypto
+    .createHash("sha256")
+    .update(JSON.stringify([agentId, [...memoryIds].sort()]))
+    .digest("hex")
+    .slice(0, 32);
+}
@@ -0,0 +1,163 @@
+import fs from "fs";
+import path from "path";
+import { cosineSimilarity } from "../agent/embeddings";
+
+export interface VectorRecord<T> {
+  id: string;
+  vector: number[];
+  data: T;
+}
+
+export interface VectorMatch<T> extends VectorRecord<T> {
+  similarity: number;
+}
+
+type LogEntry<T> =
+  | { op: "put"; record: VectorRecord<T> }
+  | { op: "patch"; id: string; data: Partial<T> }
+  | { op: "delete"; id: string };
+
+// Rewrite the log once it holds this many times more lines than records
+const COMPACT_RATIO = 3;
+
+/**
+ * Exact cosine search over vectors held in memory, persisted as an
+ * append-only JSON-lines log so it runs offline with nothing to install.
+ * Brute force is plenty for the thousands of memories one agent keeps.
+ * Without a file path the index lives in memory only.
+ */
+export class LocalVectorIndex<T> {
+  private records = new Map<string, VectorRecord<T>>();
+  private filePath?: string;
+  private logLines = 0;
+  private dimensions?: number;
+
+  constructor(filePath?: string) {
+    this.filePath = filePath;
+    if (filePath && fs.existsSync(filePath)) {
+      this.replay(fs.readFileSync(filePath, "utf8"));
+    }
+  }
+
+  get size(): number {
+    return this.records.size;
+  }
+
+  get(id: string): VectorRecord<T> | undefined {
+    return this.records.get(id);
+  }
+
+  values(): VectorRecord<T>[] {
+    return [...this.records.values()];
+  }
+
+  upsert(record: VectorRecord<T>): void {
+    this.checkDimensions(record.vector);
+    this.records.set(record.id, record);
+    this.append({ op: "put", record });
+  }
+
+  /**
+   * Changes some of a record's data. Only the changed fields are logged, so
+   * frequent small updates do not rewrite the vector each time.
+   */
+  patch(id: string, data: Partial<T>): boolean {
+    const record = this.records.get(id);
+    if (!record) {
+      return false;
+    }
+    this.records.set(id, { ...record, data: { ...record.data, ...data } });
+    this.append({ op: "patch", id, data });
+    return true;
+  }
+
+  delete(id: string): boolean {
+    if (!this.records.delete(id)) {
+      return false;
+    }
+    this.append({ op: "delete", id });
+    return true;
+  }
+
+  /** Records most similar to `vector`, best first */
+  search(
+    vector: number[],
+    limit = 10,
+    filter?: (record: VectorRecord<T>) => boolean,
+  ): VectorMatch<T>[] {
+    this.checkDimensions(vector);
+    return this.values()
+      .filter((record) => !filter || filter(record))
+      .map((record) => ({
+        ...record,
+        similarity: cosineSimilarity(vector, record.vector),
+      }))
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, limit);
+  }
+
+  /** Rewrites the log with one line per live record */
+  compact(): void {
+    if (!this.filePath) {
+      return;
+    }
+    const lines = this.values().map((record) =>
+      JSON.stringify({ op: "put", record }),
+    );
+    const temporary = `${this.filePath}.tmp`;
+    fs.writeFileSync(temporary, lines.length ? `${lines.join("\n")}\n` : "");
+    fs.renameSync(temporary, this.filePath);
+    this.logLines = lines.length;
+  }
+
+  private append(entry: LogEntry<T>): void {
+    if (!this.filePath) {
+      return;
+    }
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.appendFileSync(this.filePath, `${JSON.stringify(entry)}\n`);
+    this.logLines++;
+    if (this.logLines > COMPACT_RATIO * Math.max(this.records.size, 16)) {
+      this.compact();
+    }
+  }
+
+  private replay(text: string): void {
+    for (const line of text.split("\n")) {
+      if (!line.trim()) {
+        continue;
+      }
+      this.logLines++;
+      let entry: LogEntry<T>;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        // A crash mid-append leaves at most one partial last line
+        continue;
+      }
+      if (entry.op === "put") {
+        this.records.set(entry.record.id, entry.record);
+        this.dimensions ??= entry.record.vector.length;
+      } else if (entry.op === "patch") {
+        const record = this.records.get(entry.id);
+        if (record) {
+          this.records.set(entry.id, {
+            ...record,
+            data: { ...record.data, ...entry.data },
+          });
+        }
+      } else {
+        this.records.delete(entry.id);
+      }
+    }
+  }
+
+  private checkDimensions(vector: number[]): void {
+    this.dimensions ??= vector.length;
+    if (vector.length !== this.dimensions) {
+      throw new Error(
+        `Vector has ${vector.length} dimensions, the index holds ${this.dimensions}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,175 @@
+import fs from "fs";
+import path from "path";
+import yaml from "js-yaml";
+import { JsonSchema, validateJsonSchema } from "../agent/json_schema";
+
+export interface SpeakingStyle {
+  /** Overall register, e.g. "gruff and terse" */
+  tone: string;
+  /** Verbal habits such as catchphrases or odd word choices */
+  quirks: string[];
+  /** Lines in the character's voice, shown to the model as examples */
+  sampleLines: string[];
+}
+
+export interface Relationship {
+  /** Id of the other character */
+  target: string;
+  /** How they are related, e.g. "rival" or "mentor" */
+  kind: string;
+  /** From -1 (hatred) to 1 (devotion) */
+  affinity: number;
+  notes?: string;
+}
+
+export interface CharacterSheet {
+  id: string;
+  name: string;
+  species?: string;
+  backstory: string;
+  traits: string[];
+  goals: string[];
+  speakingStyle: SpeakingStyle;
+  likes: string[];
+  dislikes: string[];
+  relationships: Relationship[];
+  /** Overrides DEFAULT_PERSONA_TEMPLATE when compiling the system prompt */
+  promptTemplate?: string;
+}
+
+const STRING_LIST: JsonSchema = { type: "array", items: { type: "string" } };
+
+export const CHARACTER_SHEET_SCHEMA: JsonSchema = {
+  type: "object",
+  required: ["id", "name", "backstory"],
+  properties: {
+    id: { type: "string" },
+    name: { type: "string" },
+    species: { type: "string" },
+    backstory: { type: "string" },
+    traits: STRING_LIST,
+    goals: STRING_LIST,
+    speakingStyle: {
+      type: "object",
+      properties: {
+        tone: { type: "string" },
+        quirks: STRING_LIST,
+        sampleLines: STRING_LIST,
+      },
+      additionalProperties: false,
+    },
+    likes: STRING_LIST,
+    dislikes: STRING_LIST,
+    relationships: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["target", "kind"],
+        properties: {
+          target: { type: "string" },
+          kind: { type: "string" },
+          affinity: { type: "number" },
+          notes: { type: "string" },
+        },
+        additionalProperties: false,
+      },
+    },
+    promptTemplate: { type: "string" },
+  },
+  additionalProperties: false,
+};
+
+export class CharacterSheetError extends Error {
+  source: string;
+  issues: string[];
+
+  constructor(source: string, issues: string[]) {
+    super(`Invalid character sheet ${source}:\n  ${issues.join("\n  ")}`);
+    this.name = "CharacterSheetError";
+    this.source = source;
+    this.issues = issues;
+  }
+}
+
+/**
+ * Validates raw sheet data and fills in the optional lists, so the rest of
+ * the engine never has to check for missing fields.
+ */
+export function parseCharacterSheet(
+  data: unknown,
+  source = "<inline>",
+): CharacterSheet {
+  const issues = validateJsonSchema(data, CHARACTER_SHEET_SCHEMA);
+  if (issues.length) {
+    throw new CharacterSheetError(source, issues);
+  }
+  const sheet = data as CharacterSheet;
+  (sheet.relationships || []).forEach((relationship, index) => {
+    if (
+      relationship.affinity !== undefined &&
+      (relationship.affinity < -1 || relationship.affinity > 1)
+    ) {
+      issues.push(
+        `$.relationships[${index}].affinity: must be between -1 and 1`,
+      );
+    }
+  });
+  if (issues.length) {
+    throw new CharacterSheetError(source, issues);
+  }
+
+  return {
+    ...sheet,
+    traits: sheet.traits || [],
+    goals: sheet.goals || [],
+    speakingStyle: {
+      tone: sheet.speakingStyle?.tone || "",
+      quirks: sheet.speakingStyle?.quirks || [],
+      sampleLines: sheet.speakingStyle?.sampleLines || [],
+    },
+    likes: sheet.likes || [],
+    dislikes: sheet.dislikes || [],
+    relationships: (sheet.relationships || []).map((relationship) => ({
+      ...relationship,
+      affinity: relationship.affinity ?? 0,
+    })),
+  };
+}
+
+/** Reads a sheet from a .json, .yaml or .yml file */
+export function loadCharacterSheet(filePath: string): CharacterSheet {
+  const text = fs.readFileSync(filePath, "utf8");
+  const extension = path.extname(filePath).toLowerCase();
+  let data: unknown;
+  try {
+    data =
+      extension === ".yaml" || extension === ".yml"
+        ? yaml.load(text)
+        : JSON.parse(text);
+  } catch (error) {
+    throw new CharacterSheetError(filePath, [
+      error instanceof Error ? error.message : String(error),
+    ]);
+  }
+  return parseCharacterSheet(data, filePath);
+}
+
+/** Loads every sheet in a directory, keyed by character id */
+export function loadCharacterSheets(
+  directory: string,
+): Map<string, CharacterSheet> {
+  const sheets = new Map<string, CharacterSheet>();
+  for (const file of fs.readdirSync(directory).sort()) {
+    if (!/\.(json|ya?ml)$/i.test(file)) {
+      continue;
+    }
+    const sheet = loadCharacterSheet(path.join(directory, file));
+    if (sheets.has(sheet.id)) {
+      throw new CharacterSheetError(path.join(directory, file), [
+        `$.id: "${sheet.id}" is already used by another sheet`,
+      ]);
+    }
+    sheets.set(sheet.id, sheet);
+  }
+  return sheets;
+}
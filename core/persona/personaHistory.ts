@@ -0,0 +1,193 @@
+import fs from "fs";
+import { stableStringify } from "../agent/request_key";
+import { CharacterSheet, parseCharacterSheet } from "./characterSheet";
+
+export interface PersonaVersion {
+  /** Starts at 1 and goes up by one with every recorded edit */
+  version: number;
+  sheet: CharacterSheet;
+  note?: string;
+  timestamp: Date;
+}
+
+export interface PersonaChange {
+  /** Dotted path of the field, e.g. "speakingStyle.tone" or "relationships.kaiju" */
+  field: string;
+  kind: "added" | "removed" | "changed";
+  before?: unknown;
+  after?: unknown;
+}
+
+interface StoredVersion {
+  version: number;
+  sheet: CharacterSheet;
+  note?: string;
+  timestamp: string;
+}
+
+/**
+ * Every saved edit of one character's sheet, so persona changes can be
+ * compared and rolled back. Recording an unchanged sheet is a no-op.
+ */
+export class PersonaHistory {
+  private versions: PersonaVersion[] = [];
+
+  constructor(versions: PersonaVersion[] = []) {
+    this.versions = [...versions].sort((a, b) => a.version - b.version);
+  }
+
+  static load(filePath: string): PersonaHistory {
+    if (!fs.existsSync(filePath)) {
+      return new PersonaHistory();
+    }
+    const stored = JSON.parse(
+      fs.readFileSync(filePath, "utf8"),
+    ) as StoredVersion[];
+    return new PersonaHistory(
+      stored.map((entry) => ({
+        ...entry,
+        sheet: parseCharacterSheet(
+          entry.sheet,
+          `${filePath} v${entry.version}`,
+        ),
+        timestamp: new Date(entry.timestamp),
+      })),
+    );
+  }
+
+  save(filePath: string): void {
+    fs.writeFileSync(filePath, JSON.stringify(this.versions, null, 2));
+  }
+
+  record(sheet: CharacterSheet, note?: string): PersonaVersion {
+    const latest = this.latest();
+    if (latest && stableStringify(latest.sheet) === stableStringify(sheet)) {
+      return latest;
+    }
+    if (latest && latest.sheet.id !== sheet.id) {
+      throw new Error(
+        `History of ${latest.sheet.id} cannot record a sheet for ${sheet.id}`,
+      );
+    }
+    const version: PersonaVersion = {
+      version: (latest?.version || 0) + 1,
+      sheet: structuredClone(sheet),
+      note,
+      timestamp: new Date(),
+    };
+    this.versions.push(version);
+    return version;
+  }
+
+  latest(): PersonaVersion | undefined {
+    return this.versions[this.versions.length - 1];
+  }
+
+  get(version: number): PersonaVersion {
+    const found = this.versions.find((entry) => entry.version === version);
+    if (!found) {
+      throw new Error(`Persona version ${version} does not exist`);
+    }
+    return found;
+  }
+
+  list(): PersonaVersion[] {
+    return [...this.versions];
+  }
+
+  /** Changes from one version to another; `to` defaults to the latest */
+  diff(from: number, to = this.latest()?.version ?? from): PersonaChange[] {
+    return diffCharacterSheets(this.get(from).sheet, this.get(to).sheet);
+  }
+}
+
+/**
+ * Field-level differences between two sheets. String lists are compared by
+ * item, relationships by target, and everything else by value.
+ */
+export function diffCharacterSheets(
+  before: CharacterSheet,
+  after: CharacterSheet,
+): PersonaChange[] {
+  const changes: PersonaChange[] = [];
+  const scalar = (field: string, a: unknown, b: unknown) => {
+    if (stableStringify(a) === stableStringify(b)) {
+      return;
+    }
+    if (a === undefined) {
+      changes.push({ field, kind: "added", after: b });
+    } else if (b === undefined) {
+      changes.push({ field, kind: "removed", before: a });
+    } else {
+      changes.push({ field, kind: "changed", before: a, after: b });
+    }
+  };
+  const list = (field: string, a: string[], b: string[]) => {
+    for (const item of a.filter((item) => !b.includes(item))) {
+      changes.push({ field, kind: "removed", before: item });
+    }
+    for (const item of b.filter((item) => !a.includes(item))) {
+      changes.push({ field, kind: "added", after: item });
+    }
+  };
+
+  scalar("name", before.name, after.name);
+  scalar("species", before.species, after.species);
+  scalar("backstory", before.backstory, after.backstory);
+  list("traits", before.traits, after.traits);
+  list("goals", before.goals, after.goals);
+  scalar(
+    "speakingStyle.tone",
+    before.speakingStyle.tone,
+    after.speakingStyle.tone,
+  );
+  list(
+    "speakingStyle.quirks",
+    before.speakingStyle.quirks,
+    after.speakingStyle.quirks,
+  );
+  list(
+    "speakingStyle.sampleLines",
+    before.speakingStyle.sampleLines,
+    after.speakingStyle.sampleLines,
+  );
+  list("likes", before.likes, after.likes);
+  list("dislikes", before.dislikes, after.dislikes);
+
+  const targets = new Set([
+    ...before.relationships.map((relationship) => relationship.target),
+    ...after.relationships.map((relationship) => relationship.target),
+  ]);
+  for (const target of targets) {
+    scalar(
+      `relationships.${target}`,
+      before.relationships.find(
+        (relationship) => relationship.target === target,
+      ),
+      after.relationships.find(
+        (relationship) => relationship.target === target,
+      ),
+    );
+  }
+  scalar("promptTemplate", before.promptTemplate, after.promptTemplate);
+  return changes;
+}
+
+/** One line per change, for CLI output and review notes */
+export function formatPersonaChanges(changes: PersonaChange[]): string {
+  if (!changes.length) {
+    return "No changes";
+  }
+  return changes
+    .map((change) => {
+      switch (change.kind) {
+        case "added":
+          return `+ ${change.field}: ${JSON.stringify(change.after)}`;
+        case "removed":
+          return `- ${change.field}: ${JSON.stringify(change.before)}`;
+        default:
+          return `~ ${change.field}: ${JSON.stringify(change.before)} -> ${JSON.stringify(change.after)}`;
+      }
+    })
+    .join("\n");
+}
@@ -0,0 +1,265 @@
+import { CharacterSheet } from "./characterSheet";
+
+/**
+ * A mustache-style subset: `{{path}}` inserts a value (lists are joined
+ * with commas), `{{#path}}...{{/path}}` renders once per list item or once
+ * if the value is truthy, and `{{^path}}...{{/path}}` renders if it is not.
+ * Inside a section `{{.}}` is the current item. Lines holding only a section
+ * tag are dropped, so templates can be laid out one tag per line.
+ */
+export const DEFAULT_PERSONA_TEMPLATE = `You are {{name}}{{#species}}, a {{species}}{{/species}}. Stay in character at all times and never mention being an AI.
+
+Backstory: {{backstory}}
+{{#traits.length}}
+Personality: {{traits}}
+{{/traits.length}}
+{{#goals.length}}
+Goals:
+{{#goals}}
+- {{.}}
+{{/goals}}
+{{/goals.length}}
+{{#likes.length}}
+Likes: {{likes}}
+{{/likes.length}}
+{{#dislikes.length}}
+Dislikes: {{dislikes}}
+{{/dislikes.length}}
+{{#relationships.length}}
+Relationships:
+{{#relationships}}
+- {{targetName}}: {{kind}}, {{feeling}}{{#notes}} ({{notes}}){{/notes}}
+{{/relationships}}
+{{/relationships.length}}
+{{#speakingStyle.tone}}
+Speaking style: {{speakingStyle.tone}}
+{{/speakingStyle.tone}}
+{{#speakingStyle.quirks.length}}
+Verbal quirks: {{speakingStyle.quirks}}
+{{/speakingStyle.quirks.length}}
+{{#speakingStyle.sampleLines.length}}
+Things you might say:
+{{#speakingStyle.sampleLines}}
+"{{.}}"
+{{/speakingStyle.sampleLines}}
+{{/speakingStyle.sampleLines.length}}
+{{#worldFacts.length}}
+Current situation:
+{{#worldFacts}}
+- {{key}}: {{value}}
+{{/worldFacts}}
+{{/worldFacts.length}}`;
+
+export interface PersonaPromptOptions {
+  /** Current world state, available to templates as `world` */
+  world?: Record<string, unknown>;
+  /** Extra template variables; they shadow sheet fields of the same name */
+  vars?: Record<string, unknown>;
+  /** Other characters, used to show relationship targets by name */
+  characters?: Map<string, CharacterSheet>;
+  /** Overrides both the sheet's promptTemplate and the default */
+  template?: string;
+}
+
+export class PersonaTemplateError extends Error {
+  missing: string[];
+
+  constructor(message: string, missing: string[] = []) {
+    super(message);
+    this.name = "PersonaTemplateError";
+    this.missing = missing;
+  }
+}
+
+type TemplateNode =
+  | { kind: "text"; text: string }
+  | { kind: "variable"; path: string }
+  | {
+      kind: "section";
+      path: string;
+      inverted: boolean;
+      children: TemplateNode[];
+    };
+
+/** Compiles a character sheet and the current world state into a system prompt */
+export function compilePersonaPrompt(
+  sheet: CharacterSheet,
+  options: PersonaPromptOptions = {},
+): string {
+  const world = options.world || {};
+  const context = {
+    ...sheet,
+    relationships: sheet.relationships.map((relationship) => ({
+      ...relationship,
+      targetName:
+        options.characters?.get(relationship.target)?.name ||
+        relationship.target,
+      feeling: describeAffinity(relationship.affinity),
+    })),
+    world,
+    worldFacts: Object.entries(world).map(([key, value]) => ({ key, value })),
+    ...options.vars,
+  };
+  const template =
+    options.template || sheet.promptTemplate || DEFAULT_PERSONA_TEMPLATE;
+  return renderTemplate(template, context)
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/**
+ * Renders a template against `context`. Every variable must resolve; the
+ * error lists the ones that did not, so typos surface on the first compile.
+ */
+export function renderTemplate(
+  template: string,
+  context: Record<string, unknown>,
+): string {
+  const missing = new Set<string>();
+  const output = renderNodes(parseTemplate(template), [context], missing);
+  if (missing.size) {
+    throw new PersonaTemplateError(
+      `Template variables have no value: ${[...missing].join(", ")}`,
+      [...missing],
+    );
+  }
+  return output;
+}
+
+/** Words for an affinity score, for prompts that should not show numbers */
+export function describeAffinity(affinity: number): string {
+  if (affinity <= -0.6) {
+    return "hostile";
+  }
+  if (affinity <= -0.2) {
+    return "wary";
+  }
+  if (affinity < 0.2) {
+    return "neutral";
+  }
+  if (affinity < 0.6) {
+    return "friendly";
+  }
+  return "devoted";
+}
+
+function parseTemplate(template: string): TemplateNode[] {
+  const standalone = template.replace(
+    /^[ \t]*(\{\{[#^/][^}]*\}\})[ \t]*\r?\n/gm,
+    "$1",
+  );
+  const root: TemplateNode[] = [];
+  const open: { path: string; children: TemplateNode[] }[] = [];
+  let current = root;
+  const tag = /\{\{\s*([#^/]?)\s*([^}]*?)\s*\}\}/g;
+  let last = 0;
+  for (const match of standalone.matchAll(tag)) {
+    if (match.index! > last) {
+      current.push({
+        kind: "text",
+        text: standalone.slice(last, match.index),
+      });
+    }
+    last = match.index! + match[0].length;
+    const [, sigil, path] = match;
+    if (sigil === "/") {
+      const section = open.pop();
+      if (section?.path !== path) {
+        throw new PersonaTemplateError(
+          `Unexpected {{/${path}}}${section ? `, expected {{/${section.path}}}` : ""}`,
+        );
+      }
+      current = open[open.length - 1]?.children || root;
+    } else if (sigil) {
+      const section: TemplateNode = {
+        kind: "section",
+        path,
+        inverted: sigil === "^",
+        children: [],
+      };
+      current.push(section);
+      open.push(section);
+      current = section.children;
+    } else {
+      current.push({ kind: "variable", path });
+    }
+  }
+  if (open.length) {
+    throw new PersonaTemplateError(
+      `Section {{#${open[open.length - 1].path}}} is never closed`,
+    );
+  }
+  if (last < standalone.length) {
+    current.push({ kind: "text", text: standalone.slice(last) });
+  }
+  return root;
+}
+
+function renderNodes(
+  nodes: TemplateNode[],
+  stack: unknown[],
+  missing: Set<string>,
+): string {
+  let output = "";
+  for (const node of nodes) {
+    if (node.kind === "text") {
+      output += node.text;
+      continue;
+    }
+    const value = lookup(node.path, stack);
+    if (node.kind === "variable") {
+      if (value === undefined) {
+        missing.add(node.path);
+      } else {
+        output += formatValue(value);
+      }
+      continue;
+    }
+    // A missing section value counts as empty, so optional fields can be guarded
+    const items = Array.isArray(value) ? value : value ? [value] : [];
+    if (node.inverted) {
+      if (!items.length) {
+        output += renderNodes(node.children, stack, missing);
+      }
+      continue;
+    }
+    for (const item of items) {
+      output += renderNodes(node.children, [...stack, item], missing);
+    }
+  }
+  return output;
+}
+
+/** Resolves a dotted path against the innermost frame that has its head */
+function lookup(path: string, stack: unknown[]): unknown {
+  if (path === ".") {
+    return stack[stack.length - 1];
+  }
+  const [head, ...rest] = path.split(".");
+  for (let index = stack.length - 1; index >= 0; index--) {
+    const frame = stack[index];
+    if (frame !== null && typeof frame === "object" && head in frame) {
+      return rest.reduce<unknown>(
+        (value, key) =>
+          value !== null && value !== undefined
+            ? (value as Record<string, unknown>)[key]
+            : undefined,
+        (frame as Record<string, unknown>)[head],
+      );
+    }
+  }
+  return undefined;
+}
+
+function formatValue(value: unknown): string {
+  if (value === null) {
+    return "";
+  }
+  if (Array.isArray(value)) {
+    return value.map(formatValue).join(", ");
+  }
+  if (typeof value === "object") {
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
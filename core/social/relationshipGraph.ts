@@ -0,0 +1,450 @@
+import fs from "fs";
+import { BaseAgent, ChatOptions } from "../agent/base_agent";
+import { chatStructured } from "../agent/structured_output";
+import { CharacterSheet } from "../persona/characterSheet";
+import { describeAffinity } from "../persona/personaPrompt";
+
+/** How one agent feels about another */
+export interface RelationshipScores {
+  /** From -1 (hatred) to 1 (love) */
+  affinity: number;
+  /** From 0 (never met) to 1 (inseparable) */
+  familiarity: number;
+  /** From -1 (expects betrayal) to 1 (complete trust) */
+  trust: number;
+}
+
+export interface Relationship extends RelationshipScores {
+  from: string;
+  to: string;
+  interactions: number;
+  lastInteraction?: Date;
+}
+
+/**
+ * Score changes per interaction type. Each delta is the fraction of the
+ * remaining room towards the end of the scale it moves to, so repeated
+ * interactions have diminishing effect and scores never leave their range.
+ */
+export type InteractionEffects = Record<string, Partial<RelationshipScores>>;
+
+/** Same shape as the agent_interactions rows saved by saveAgentInteraction */
+export interface InteractionRecord {
+  agentId1: string;
+  agentId2: string;
+  interactionType: string;
+  /** `sentiment` from -1 to 1 applies to both directions */
+  details?: Record<string, unknown>;
+  timestamp?: Date;
+}
+
+/** How `a` feels about `b` and `b` about `a` after a conversation, -1..1 each */
+export type SentimentScorer = (
+  transcript: string,
+  a: string,
+  b: string,
+) => Promise<[number, number]>;
+
+export interface RelationshipGraphOptions {
+  effects?: InteractionEffects;
+  /** Game days for affinity and trust to fall halfway back to neutral */
+  halfLifeDays?: number;
+  /** Game days for familiarity to halve without contact */
+  familiarityHalfLifeDays?: number;
+  /** Weight of conversation sentiment on affinity; trust gets half */
+  sentimentWeight?: number;
+  scoreSentiment?: SentimentScorer;
+  /** Game clock; the wall clock by default */
+  now?: () => Date;
+}
+
+export interface SummaryOptions {
+  limit?: number;
+  /** Display names for agent ids */
+  nameOf?: (id: string) => string;
+}
+
+interface Edge extends Relationship {
+  /** Time the stored scores are as of; decay runs from here */
+  updatedAt: Date;
+}
+
+interface StoredGraph {
+  agents: string[];
+  edges: (Omit<Edge, "updatedAt" | "lastInteraction"> & {
+    updatedAt: string;
+    lastInteraction?: string;
+  })[];
+}
+
+export const DEFAULT_INTERACTION_EFFECTS: InteractionEffects = {
+  meet: { familiarity: 0.1 },
+  conversation: { affinity: 0.02, familiarity: 0.05, trust: 0.02 },
+  trade: { affinity: 0.03, familiarity: 0.04, trust: 0.05 },
+  gift: { affinity: 0.1, familiarity: 0.03, trust: 0.05 },
+  help: { affinity: 0.1, familiarity: 0.05, trust: 0.1 },
+  battle: { affinity: -0.1, familiarity: 0.05, trust: -0.05 },
+  betrayal: { affinity: -0.3, familiarity: 0.02, trust: -0.4 },
+};
+
+// Applied for interaction types missing from the effects table
+const UNKNOWN_INTERACTION: Partial<RelationshipScores> = { familiarity: 0.03 };
+// Affinity at or beyond which another agent counts as a friend or rival
+const FRIEND_AFFINITY = 0.2;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Directed relationships between agents, kept up to date from interaction
+ * records and conversation sentiment. Scores drift back towards neutral
+ * without contact; decay is applied on read from the game clock, so an
+ * idle graph needs no ticking.
+ */
+export class RelationshipGraph {
+  private agents = new Set<string>();
+  private edges = new Map<string, Edge>();
+  private effects: InteractionEffects;
+  private halfLifeMs: number;
+  private familiarityHalfLifeMs: number;
+  private sentimentWeight: number;
+  private scoreSentiment?: SentimentScorer;
+  private now: () => Date;
+
+  constructor(options: RelationshipGraphOptions = {}) {
+    this.effects = options.effects || DEFAULT_INTERACTION_EFFECTS;
+    this.halfLifeMs = (options.halfLifeDays ?? 14) * DAY_MS;
+    this.familiarityHalfLifeMs =
+      (options.familiarityHalfLifeDays ?? 60) * DAY_MS;
+    this.sentimentWeight = options.sentimentWeight ?? 0.1;
+    this.scoreSentiment = options.scoreSentiment;
+    this.now = options.now || (() => new Date());
+  }
+
+  static load(
+    filePath: string,
+    options?: RelationshipGraphOptions,
+  ): RelationshipGraph {
+    const graph = new RelationshipGraph(options);
+    if (!fs.existsSync(filePath)) {
+      return graph;
+    }
+    const stored = JSON.parse(fs.readFileSync(filePath, "utf8")) as StoredGraph;
+    stored.agents.forEach((id) => graph.addAgent(id));
+    for (const edge of stored.edges) {
+      graph.edges.set(edgeKey(edge.from, edge.to), {
+        ...edge,
+        updatedAt: new Date(edge.updatedAt),
+        lastInteraction: edge.lastInteraction
+          ? new Date(edge.lastInteraction)
+          : undefined,
+      });
+    }
+    return graph;
+  }
+
+  save(filePath: string): void {
+    const stored: StoredGraph = {
+      agents: [...this.agents],
+      edges: [...this.edges.values()].map((edge) => ({
+        ...edge,
+        updatedAt: edge.updatedAt.toISOString(),
+        lastInteraction: edge.lastInteraction?.toISOString(),
+      })),
+    };
+    fs.writeFileSync(filePath, JSON.stringify(stored, null, 2));
+  }
+
+  /** Starting relationships from character sheets, as of now */
+  static fromCharacterSheets(
+    sheets: Iterable<CharacterSheet>,
+    options?: RelationshipGraphOptions,
+  ): RelationshipGraph {
+    const graph = new RelationshipGraph(options);
+    const list = [...sheets];
+    list.forEach((sheet) => graph.addAgent(sheet.id));
+    for (const sheet of list) {
+      for (const relationship of sheet.relationships) {
+        graph.addAgent(relationship.target);
+        graph.set(sheet.id, relationship.target, {
+          affinity: relationship.affinity,
+          // Anyone named on a sheet is at least an acquaintance
+          familiarity: 0.3,
+        });
+      }
+    }
+    return graph;
+  }
+
+  /** Registers an agent, so it shows up in "who hasn't met whom" */
+  addAgent(id: string): void {
+    this.agents.add(id);
+  }
+
+  /** Overwrites scores, e.g. from a scripted story event */
+  set(from: string, to: string, scores: Partial<RelationshipScores>): void {
+    const edge = this.edgeAt(from, to, this.now());
+    Object.assign(edge, clampScores({ ...edge, ...scores }));
+  }
+
+  /** Applies an interaction to both directions of the pair */
+  record(interaction: InteractionRecord): void {
+    const { agentId1, agentId2, interactionType, details } = interaction;
+    if (agentId1 === agentId2) {
+      return;
+    }
+    const effect = this.effects[interactionType] || UNKNOWN_INTERACTION;
+    const sentiment =
+      typeof details?.sentiment === "number" ? details.sentiment : 0;
+    const at = interaction.timestamp || this.now();
+    this.apply(agentId1, agentId2, effect, sentiment, at);
+    this.apply(agentId2, agentId1, effect, sentiment, at);
+  }
+
+  /** Applies stored rows in time order, e.g. from getAgentInteractions */
+  recordAll(interactions: InteractionRecord[]): void {
+    [...interactions]
+      .sort(
+        (a, b) => (a.timestamp?.getTime() ?? 0) - (b.timestamp?.getTime() ?? 0),
+      )
+      .forEach((interaction) => this.record(interaction));
+  }
+
+  /**
+   * Records a conversation between `a` and `b`, with each side's sentiment
+   * rated from the transcript when a scorer is configured.
+   */
+  async recordConversation(
+    a: string,
+    b: string,
+    transcript: string,
+    at: Date = this.now(),
+  ): Promise<void> {
+    if (a === b) {
+      return;
+    }
+    const [aToB, bToA] = this.scoreSentiment
+      ? await this.scoreSentiment(transcript, a, b)
+      : [0, 0];
+    const effect = this.effects.conversation || UNKNOWN_INTERACTION;
+    this.apply(a, b, effect, aToB, at);
+    this.apply(b, a, effect, bToA, at);
+  }
+
+  /** How `from` feels about `to` now; undefined if they have never met */
+  get(from: string, to: string): Relationship | undefined {
+    const edge = this.edges.get(edgeKey(from, to));
+    return edge && this.decayed(edge, this.now());
+  }
+
+  /** Everyone `id` has a relationship with, closest first */
+  relationshipsOf(id: string): Relationship[] {
+    const now = this.now();
+    return [...this.edges.values()]
+      .filter((edge) => edge.from === id)
+      .map((edge) => this.decayed(edge, now))
+      .sort((a, b) => closeness(b) - closeness(a));
+  }
+
+  /** Friends of `id`, ranked by closeness */
+  topFriends(id: string, limit = 5): Relationship[] {
+    return this.relationshipsOf(id)
+      .filter((relationship) => relationship.affinity >= FRIEND_AFFINITY)
+      .slice(0, limit);
+  }
+
+  /** Agents `id` dislikes, the strongest rivalry first */
+  rivals(id: string, limit = 5): Relationship[] {
+    return this.relationshipsOf(id)
+      .filter((relationship) => relationship.affinity <= -FRIEND_AFFINITY)
+      .sort((a, b) => closeness(a) - closeness(b))
+      .slice(0, limit);
+  }
+
+  /** Known agents `id` has no relationship with in either direction */
+  strangersOf(id: string): string[] {
+    return [...this.agents].filter(
+      (other) =>
+        other !== id &&
+        !this.edges.has(edgeKey(id, other)) &&
+        !this.edges.has(edgeKey(other, id)),
+    );
+  }
+
+  /** Every pair of known agents that has never interacted */
+  unmetPairs(): [string, string][] {
+    const agents = [...this.agents].sort();
+    const pairs: [string, string][] = [];
+    agents.forEach((a, i) => {
+      const strangers = new Set(this.strangersOf(a));
+      agents
+        .slice(i + 1)
+        .filter((b) => strangers.has(b))
+        .forEach((b) => pairs.push([a, b]));
+    });
+    return pairs;
+  }
+
+  /**
+   * A few lines on how `id` sees the others, worded rather than numeric,
+   * for adding to the agent's system prompt.
+   */
+  summarize(id: string, options: SummaryOptions = {}): string {
+    const limit = options.limit ?? 5;
+    const nameOf = options.nameOf || ((other: string) => other);
+    const describe = (relationship: Relationship) =>
+      `- ${nameOf(relationship.to)}: ${describeRelationship(relationship)}`;
+    const lines: string[] = [];
+    const friends = this.topFriends(id, limit);
+    const rivals = this.rivals(id, limit);
+    if (friends.length) {
+      lines.push("Friends, closest first:", ...friends.map(describe));
+    }
+    if (rivals.length) {
+      lines.push("Rivals:", ...rivals.map(describe));
+    }
+    const strangers = this.strangersOf(id).slice(0, limit);
+    if (strangers.length) {
+      lines.push(`Never met: ${strangers.map(nameOf).join(", ")}`);
+    }
+    return lines.join("\n");
+  }
+
+  private apply(
+    from: string,
+    to: string,
+    effect: Partial<RelationshipScores>,
+    sentiment: number,
+    at: Date,
+  ): void {
+    const edge = this.edgeAt(from, to, at);
+    edge.affinity = nudge(
+      edge.affinity,
+      (effect.affinity ?? 0) + sentiment * this.sentimentWeight,
+      -1,
+    );
+    edge.familiarity = nudge(edge.familiarity, effect.familiarity ?? 0, 0);
+    edge.trust = nudge(
+      edge.trust,
+      (effect.trust ?? 0) + (sentiment * this.sentimentWeight) / 2,
+      -1,
+    );
+    edge.interactions++;
+    if (!edge.lastInteraction || at > edge.lastInteraction) {
+      edge.lastInteraction = at;
+    }
+  }
+
+  /** The edge with its scores decayed to `at`, created neutral if missing */
+  private edgeAt(from: string, to: string, at: Date): Edge {
+    this.addAgent(from);
+    this.addAgent(to);
+    const key = edgeKey(from, to);
+    const existing = this.edges.get(key);
+    if (existing) {
+      // Rows replayed out of order must not decay the scores twice
+      const asOf = at > existing.updatedAt ? at : existing.updatedAt;
+      Object.assign(existing, this.decayed(existing, asOf), {
+        updatedAt: asOf,
+      });
+      return existing;
+    }
+    const edge: Edge = {
+      from,
+      to,
+      affinity: 0,
+      familiarity: 0,
+      trust: 0,
+      interactions: 0,
+      updatedAt: at,
+    };
+    this.edges.set(key, edge);
+    return edge;
+  }
+
+  private decayed(edge: Edge, at: Date): Relationship {
+    const elapsed = Math.max(0, at.getTime() - edge.updatedAt.getTime());
+    const factor = Math.pow(0.5, elapsed / this.halfLifeMs);
+    return {
+      from: edge.from,
+      to: edge.to,
+      affinity: edge.affinity * factor,
+      familiarity:
+        edge.familiarity * Math.pow(0.5, elapsed / this.familiarityHalfLifeMs),
+      trust: edge.trust * factor,
+      interactions: edge.interactions,
+      lastInteraction: edge.lastInteraction,
+    };
+  }
+}
+
+/**
+ * Rates both sides' sentiment in one call. A cheap model is enough; it
+ * runs once per recorded conversation.
+ */
+export function llmSentimentScorer(
+  agent: BaseAgent,
+  options?: ChatOptions,
+): SentimentScorer {
+  return async (transcript, a, b) => {
+    const result = await chatStructured<{ aToB: number; bToA: number }>(
+      agent,
+      [
+        {
+          role: "user",
+          content: `Conversation:\n${transcript}\n\nOn a scale from -1 (hostile) to 1 (warm), how did ${a} feel about ${b} in this conversation (aToB), and how did ${b} feel about ${a} (bToA)?`,
+        },
+      ],
+      {
+        type: "object",
+        required: ["aToB", "bToA"],
+        properties: {
+          aToB: { type: "number" },
+          bToA: { type: "number" },
+        },
+      },
+      options,
+    );
+    return [clamp(result.aToB, -1, 1), clamp(result.bToA, -1, 1)];
+  };
+}
+
+/** Affinity weighted by how well they know each other */
+export function closeness(relationship: Relationship): number {
+  return relationship.affinity * relationship.familiarity;
+}
+
+function describeRelationship(relationship: Relationship): string {
+  const words = [describeAffinity(relationship.affinity)];
+  if (relationship.familiarity >= 0.6) {
+    words.push("know each other well");
+  } else if (relationship.familiarity < 0.2) {
+    words.push("barely acquainted");
+  }
+  if (relationship.trust >= 0.3) {
+    words.push("trusted");
+  } else if (relationship.trust <= -0.3) {
+    words.push("distrusted");
+  }
+  return words.join(", ");
+}
+
+/** Moves `value` by `delta` of the room left towards the end it moves to */
+function nudge(value: number, delta: number, min: number): number {
+  const step = clamp(delta, -1, 1);
+  return step >= 0 ? value + step * (1 - value) : value + step * (value - min);
+}
+
+function clampScores(scores: RelationshipScores): RelationshipScores {
+  return {
+    affinity: clamp(scores.affinity, -1, 1),
+    familiarity: clamp(scores.familiarity, 0, 1),
+    trust: clamp(scores.trust, -1, 1),
+  };
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function edgeKey(from: string, to: string): string {
+  return JSON.stringify([from, to]);
+}
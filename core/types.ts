@@ -1,6 +1,15 @@
+import { ContentPart } from "./agent/base_agent";
+
+export type {
+  ContentPart,
+  FilePart,
+  ImagePart,
+  TextPart,
+} from "./agent/base_agent";
+
 export interface ChatMessage {
   role: "system" | "user" | "assistant";
-  content: string;
+  content: string | ContentPart[];
 }
 
 export interface ModelConfig {
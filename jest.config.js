@@ -0,0 +1,26 @@
+/** @type {import("jest").Config} */
+export default {
+  testEnvironment: "node",
+  roots: ["<rootDir>/core"],
+  testMatch: ["**/__tests__/**/*.test.ts"],
+  // The Mistral SDK ships ES modules only, so it is compiled like our code
+  transformIgnorePatterns: ["/node_modules/(?!@mistralai/)"],
+  transform: {
+    "^.+\\.[tj]s$": [
+      "ts-jest",
+      {
+        // The app tsconfig targets the bundler; tests run as CommonJS
+        tsconfig: {
+          module: "commonjs",
+          moduleResolution: "node",
+          target: "ES2020",
+          esModuleInterop: true,
+          resolveJsonModule: true,
+          strict: true,
+          isolatedModules: true,
+          allowJs: true,
+        },
+      },
+    ],
+  },
+};